@@ -1,11 +1,49 @@
-import { IssueTrackerAdapter, IssueTrackerConfig, FeedbackData, IssueResponse } from '../types';
-import { blobToBase64 } from '../core/screenshot';
+import { IssueTrackerAdapter, IssueTrackerConfig, FeedbackData, FieldMapper, IssueResponse, IssueSearchResult, CommentResponse } from '../types';
+import { blobToBase64 } from '../core/blob';
+import { safeFilename } from '../core/attachments';
+import { fetchOrThrow } from '../core/errors';
+import { IssueTemplate, buildTemplateValues, renderTemplate } from '../core/template';
+import { buildUploadSections } from './markdown';
 
 export interface GitHubConfig extends IssueTrackerConfig {
   owner: string;
   repo: string;
   labels?: string[];
   assignees?: string[];
+  /**
+   * Where screenshots and other attachments are committed via the Contents API
+   * Defaults to `.github/issue-reporter` on the default branch of the same repo
+   */
+  screenshotStorage?: {
+    owner?: string;
+    repo?: string;
+    branch?: string;
+    path?: string;
+  };
+  /**
+   * External storage used when committing the screenshot fails
+   * Resolves to a publicly reachable image URL
+   */
+  uploadScreenshotFallback?: (screenshot: Blob) => Promise<string | null>;
+  /**
+   * Markdown template for the issue body (see `DEFAULT_TEMPLATE`)
+   */
+  template?: IssueTemplate;
+  /**
+   * Maps custom field values to properties of the create-issue request,
+   * e.g. `(fields) => ({ labels: ['user-report', 'severity: ' + fields.severity] })`
+   */
+  mapFields?: FieldMapper;
+}
+
+/**
+ * Fields of a GitHub search result the duplicate search reads
+ */
+interface GitHubIssue {
+  number: number;
+  html_url: string;
+  title: string;
+  state: string;
 }
 
 /**
@@ -19,63 +57,176 @@ export class GitHubAdapter implements IssueTrackerAdapter {
   }
 
   /**
-   * Creates an issue in GitHub with embedded screenshot
-   * Note: GitHub doesn't have a direct upload API, so we embed the image as base64
+   * Commits a file to the configured repository via the Contents API
+   * @throws IssueReporterError when the commit is rejected or GitHub is unreachable
    */
-  async createIssue(feedback: FeedbackData): Promise<IssueResponse | null> {
-    try {
-      let screenshotMarkdown = '';
+  async uploadAttachment(file: Blob, filename: string): Promise<string | null> {
+    const storage = this.config.screenshotStorage || {};
+    const owner = storage.owner || this.config.owner;
+    const repo = storage.repo || this.config.repo;
+    const directory = (storage.path || '.github/issue-reporter').replace(/^\/+|\/+$/g, '');
+    const uniqueName = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}-${safeFilename(filename)}`;
+    // Encode every segment so a name can never climb out of the directory
+    const path = [...directory.split('/'), uniqueName].map(encodeURIComponent).join('/');
 
-      // Convert screenshot to base64 if provided
-      if (feedback.screenshot) {
-        const base64 = await blobToBase64(feedback.screenshot);
-        screenshotMarkdown = `\n\n## Screenshot\n![Screenshot](${base64})`;
-      }
+    // The Contents API expects plain base64 without the data URL prefix
+    const base64 = await blobToBase64(file);
+    const content = base64.slice(base64.indexOf(',') + 1);
 
-      // Build metadata section
-      let metadataSection = '';
-      if (feedback.metadata) {
-        metadataSection = '\n\n## System Information\n```json\n' +
-          JSON.stringify(feedback.metadata, null, 2) +
-          '\n```';
-      }
+    const response = await fetchOrThrow(
+      `${this.config.baseUrl}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/contents/${path}`,
+      {
+        method: 'PUT',
+        headers: {
+          'Authorization': `token ${this.config.accessToken}`,
+          'Content-Type': 'application/json',
+          'Accept': 'application/vnd.github.v3+json',
+        },
+        body: JSON.stringify({
+          message: `Add feedback attachment ${filename}`,
+          content,
+          ...(storage.branch ? { branch: storage.branch } : {}),
+        }),
+      },
+      'GitHub'
+    );
 
-      // Build full description
-      const fullDescription = `${feedback.description}${metadataSection}${screenshotMarkdown}`;
-
-      // Create the issue
-      const response = await fetch(
-        `${this.config.baseUrl}/repos/${this.config.owner}/${this.config.repo}/issues`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `token ${this.config.accessToken}`,
-            'Content-Type': 'application/json',
-            'Accept': 'application/vnd.github.v3+json',
-          },
-          body: JSON.stringify({
-            title: feedback.title,
-            body: fullDescription,
-            labels: this.config.labels || ['feedback', 'user-report'],
-            assignees: this.config.assignees || [],
-          }),
-        }
-      );
-
-      if (response.ok) {
-        const data = await response.json();
-        return {
-          id: data.number,
-          url: data.html_url,
-          title: data.title,
-        };
-      }
+    const data = await response.json();
+    // `?raw=true` redirects to the raw file and also works for private repositories
+    return data.content?.html_url ? `${data.content.html_url}?raw=true` : null;
+  }
 
-      console.error('Failed to create GitHub issue:', response.statusText);
-      return null;
+  /**
+   * Commits the screenshot to the configured repository via the Contents API
+   * Falls back to the external storage callback if the commit fails
+   * @throws IssueReporterError when the commit fails and no fallback is configured
+   */
+  async uploadScreenshot(screenshot: Blob): Promise<string | null> {
+    try {
+      return await this.uploadAttachment(screenshot, 'screenshot.png');
     } catch (error) {
-      console.error('Error creating GitHub issue:', error);
-      return null;
+      if (!this.config.uploadScreenshotFallback) {
+        throw error;
+      }
+      console.error('Error uploading screenshot to GitHub, using fallback storage:', error);
+      return this.config.uploadScreenshotFallback(screenshot);
     }
   }
+
+  /**
+   * Creates an issue in GitHub with the uploaded screenshot linked in the body
+   * Other files that cannot be committed are listed in the body as not uploaded
+   * @throws IssueReporterError when the screenshot upload or issue creation fails
+   */
+  async createIssue(feedback: FeedbackData): Promise<IssueResponse | null> {
+    const fullDescription = await this.buildBody(feedback);
+
+    // Create the issue
+    const response = await fetchOrThrow(
+      `${this.config.baseUrl}/repos/${encodeURIComponent(this.config.owner)}/${encodeURIComponent(this.config.repo)}/issues`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `token ${this.config.accessToken}`,
+          'Content-Type': 'application/json',
+          'Accept': 'application/vnd.github.v3+json',
+        },
+        body: JSON.stringify({
+          title: feedback.title,
+          body: fullDescription,
+          labels: this.config.labels || ['feedback', 'user-report'],
+          assignees: this.config.assignees || [],
+          ...this.mapFields(feedback),
+        }),
+      },
+      'GitHub'
+    );
+
+    const data = await response.json();
+    return {
+      id: data.number,
+      url: data.html_url,
+      title: data.title,
+    };
+  }
+
+  /**
+   * Finds issues in the repository whose title matches the query
+   * @throws IssueReporterError when the search fails
+   */
+  async searchIssues(query: string): Promise<IssueSearchResult[]> {
+    // Quotes and qualifiers in the user's text must not change the search
+    const terms = query.replace(/["':]/g, ' ').trim();
+    const params = new URLSearchParams({
+      q: `${terms} repo:${this.config.owner}/${this.config.repo} is:issue in:title`,
+      per_page: '5',
+    });
+
+    const response = await fetchOrThrow(
+      `${this.config.baseUrl}/search/issues?${params}`,
+      {
+        headers: {
+          'Authorization': `token ${this.config.accessToken}`,
+          'Accept': 'application/vnd.github.v3+json',
+        },
+      },
+      'GitHub'
+    );
+
+    const data: { items?: GitHubIssue[] } = await response.json();
+    return (data.items || []).map((issue) => ({
+      id: issue.number,
+      url: issue.html_url,
+      title: issue.title,
+      state: issue.state === 'closed' ? 'closed' : 'open',
+    }));
+  }
+
+  /**
+   * Adds the feedback as a comment to an existing issue
+   * @param issueId The issue number
+   * @throws IssueReporterError when the screenshot upload or comment fails
+   */
+  async addComment(issueId: string | number, feedback: FeedbackData): Promise<CommentResponse | null> {
+    const body = await this.buildBody(feedback);
+
+    const response = await fetchOrThrow(
+      `${this.config.baseUrl}/repos/${encodeURIComponent(this.config.owner)}/${encodeURIComponent(this.config.repo)}/issues/${encodeURIComponent(issueId)}/comments`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `token ${this.config.accessToken}`,
+          'Content-Type': 'application/json',
+          'Accept': 'application/vnd.github.v3+json',
+        },
+        body: JSON.stringify({ body }),
+      },
+      'GitHub'
+    );
+
+    const data = await response.json();
+    return { id: data.id, url: data.html_url };
+  }
+
+  /**
+   * Uploads the files and renders the Markdown used for issue bodies and comments
+   */
+  private async buildBody(feedback: FeedbackData): Promise<string> {
+    const sections = await buildUploadSections(feedback, {
+      upload: (file, filename) => this.uploadAttachment(file, filename),
+      uploadScreenshot: (screenshot) => this.uploadScreenshot(screenshot),
+      formatVideo: (url) => `## Screen Recording\n[screen-recording.webm](${url})`,
+    });
+
+    return renderTemplate(this.config.template, buildTemplateValues(feedback, 'markdown', sections), feedback);
+  }
+
+  /**
+   * Request properties derived from the custom field values
+   */
+  private mapFields(feedback: FeedbackData): Record<string, unknown> {
+    return feedback.fields && this.config.mapFields
+      ? this.config.mapFields(feedback.fields, feedback)
+      : {};
+  }
 }
@@ -1,8 +1,30 @@
-import { IssueTrackerAdapter, IssueTrackerConfig, FeedbackData, IssueResponse } from '../types';
+import { IssueTrackerAdapter, IssueTrackerConfig, FeedbackData, FieldMapper, IssueResponse, IssueSearchResult, CommentResponse } from '../types';
+import { fetchOrThrow } from '../core/errors';
+import { IssueTemplate, buildTemplateValues, renderTemplate } from '../core/template';
+import { buildUploadSections } from './markdown';
 
 export interface GitLabConfig extends IssueTrackerConfig {
   labels?: string[];
   assigneeIds?: number[];
+  /**
+   * Markdown template for the issue description (see `DEFAULT_TEMPLATE`)
+   */
+  template?: IssueTemplate;
+  /**
+   * Maps custom field values to properties of the create-issue request,
+   * e.g. `(fields) => ({ labels: ['severity::' + fields.severity], confidential: true })`
+   */
+  mapFields?: FieldMapper;
+}
+
+/**
+ * Fields of a GitLab issue the duplicate search reads
+ */
+interface GitLabIssue {
+  iid: number;
+  web_url: string;
+  title: string;
+  state: string;
 }
 
 /**
@@ -15,94 +37,143 @@ export class GitLabAdapter implements IssueTrackerAdapter {
     this.config = config;
   }
 
+  /**
+   * Uploads a file to the project's uploads
+   * @throws IssueReporterError when the upload is rejected or GitLab is unreachable
+   */
+  async uploadAttachment(file: Blob, filename: string): Promise<string | null> {
+    const formData = new FormData();
+    formData.append('file', file, filename);
+
+    const response = await fetchOrThrow(
+      `${this.config.baseUrl}/api/v4/projects/${this.config.projectId}/uploads`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.config.accessToken}`,
+        },
+        body: formData,
+      },
+      'GitLab'
+    );
+
+    const data = await response.json();
+    return data.url || null;
+  }
+
   /**
    * Uploads a screenshot to GitLab
+   * @throws IssueReporterError when the upload is rejected or GitLab is unreachable
    */
   async uploadScreenshot(screenshot: Blob): Promise<string | null> {
-    try {
-      const formData = new FormData();
-      formData.append('file', screenshot, 'feedback_screenshot.png');
-
-      const response = await fetch(
-        `${this.config.baseUrl}/api/v4/projects/${this.config.projectId}/uploads`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${this.config.accessToken}`,
-          },
-          body: formData,
-        }
-      );
-
-      if (response.status === 201) {
-        const data = await response.json();
-        return data.url || null;
-      }
-
-      return null;
-    } catch (error) {
-      console.error('Error uploading screenshot to GitLab:', error);
-      return null;
-    }
+    return this.uploadAttachment(screenshot, 'feedback_screenshot.png');
   }
 
   /**
    * Creates an issue in GitLab
+   * @throws IssueReporterError when the screenshot upload or issue creation fails
    */
   async createIssue(feedback: FeedbackData): Promise<IssueResponse | null> {
-    try {
-      let screenshotUrl: string | null = null;
-
-      // Upload screenshot if provided
-      if (feedback.screenshot) {
-        screenshotUrl = await this.uploadScreenshot(feedback.screenshot);
-      }
-
-      // Build metadata section
-      let metadataSection = '';
-      if (feedback.metadata) {
-        metadataSection = '\n\n## System Information\n```json\n' +
-          JSON.stringify(feedback.metadata, null, 2) +
-          '\n```';
-      }
-
-      // Build full description with screenshot
-      const fullDescription = `${feedback.description}${metadataSection}
-
-${screenshotUrl ? `\n\n## Screenshot\n![Screenshot](${screenshotUrl})` : ''}`;
-
-      // Create the issue
-      const response = await fetch(
-        `${this.config.baseUrl}/api/v4/projects/${this.config.projectId}/issues`,
-        {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${this.config.accessToken}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            title: feedback.title,
-            description: fullDescription,
-            labels: feedback.labels || [],
-            assignee_ids: this.config.assigneeIds || [],
-          }),
-        }
-      );
-
-      if (response.ok) {
-        const data = await response.json();
-        return {
-          id: data.iid,
-          url: data.web_url,
-          title: data.title,
-        };
-      }
-
-      console.error('Failed to create GitLab issue:', response.statusText);
-      return null;
-    } catch (error) {
-      console.error('Error creating GitLab issue:', error);
-      return null;
-    }
+    const fullDescription = await this.buildBody(feedback);
+
+    // Create the issue
+    const response = await fetchOrThrow(
+      `${this.config.baseUrl}/api/v4/projects/${this.config.projectId}/issues`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.config.accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          title: feedback.title,
+          description: fullDescription,
+          labels: feedback.labels || [],
+          assignee_ids: this.config.assigneeIds || [],
+          ...this.mapFields(feedback),
+        }),
+      },
+      'GitLab'
+    );
+
+    const data = await response.json();
+    return {
+      id: data.iid,
+      url: data.web_url,
+      title: data.title,
+    };
+  }
+
+  /**
+   * Finds issues in the project whose title matches the query
+   * @throws IssueReporterError when the search fails
+   */
+  async searchIssues(query: string): Promise<IssueSearchResult[]> {
+    const params = new URLSearchParams({ search: query, in: 'title', per_page: '5' });
+    const response = await fetchOrThrow(
+      `${this.config.baseUrl}/api/v4/projects/${this.config.projectId}/issues?${params}`,
+      {
+        headers: {
+          'Authorization': `Bearer ${this.config.accessToken}`,
+        },
+      },
+      'GitLab'
+    );
+
+    const data: GitLabIssue[] = await response.json();
+    return data.map((issue) => ({
+      id: issue.iid,
+      url: issue.web_url,
+      title: issue.title,
+      state: issue.state === 'closed' ? 'closed' : 'open',
+    }));
+  }
+
+  /**
+   * Adds the feedback as a note to an existing issue
+   * @param issueId The issue's IID
+   * @throws IssueReporterError when the screenshot upload or comment fails
+   */
+  async addComment(issueId: string | number, feedback: FeedbackData): Promise<CommentResponse | null> {
+    const body = await this.buildBody(feedback);
+
+    const response = await fetchOrThrow(
+      `${this.config.baseUrl}/api/v4/projects/${this.config.projectId}/issues/${issueId}/notes`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.config.accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ body }),
+      },
+      'GitLab'
+    );
+
+    const data = await response.json();
+    return { id: data.id };
+  }
+
+  /**
+   * Uploads the files and renders the Markdown used for issue descriptions and comments
+   */
+  private async buildBody(feedback: FeedbackData): Promise<string> {
+    const sections = await buildUploadSections(feedback, {
+      upload: (file, filename) => this.uploadAttachment(file, filename),
+      uploadScreenshot: (screenshot) => this.uploadScreenshot(screenshot),
+      // GitLab renders videos linked with image syntax as a player
+      formatVideo: (url) => `## Screen Recording\n![Screen recording](${url})`,
+    });
+
+    return renderTemplate(this.config.template, buildTemplateValues(feedback, 'markdown', sections), feedback);
+  }
+
+  /**
+   * Request properties derived from the custom field values
+   */
+  private mapFields(feedback: FeedbackData): Record<string, unknown> {
+    return feedback.fields && this.config.mapFields
+      ? this.config.mapFields(feedback.fields, feedback)
+      : {};
   }
 }
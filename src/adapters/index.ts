@@ -1,4 +1,8 @@
 export { GitLabAdapter } from './gitlab';
 export { GitHubAdapter } from './github';
+export { JiraAdapter } from './jira';
+export { ProxyAdapter } from './proxy';
 export type { GitLabConfig } from './gitlab';
 export type { GitHubConfig } from './github';
+export type { JiraConfig } from './jira';
+export type { ProxyConfig } from './proxy';
@@ -0,0 +1,441 @@
+import { IssueTrackerAdapter, IssueTrackerConfig, FeedbackData, FieldMapper, IssueResponse } from '../types';
+import { fetchOrThrow } from '../core/errors';
+import { formatConsoleLogs } from '../core/console';
+import { createHarBlob, createReplayBlob } from './markdown';
+import {
+  IssueTemplate,
+  TemplateValues,
+  buildTemplateValues,
+  renderTemplate,
+  formatHeading,
+  formatValue,
+  humanizeKey,
+} from '../core/template';
+
+export interface JiraConfig extends IssueTrackerConfig {
+  projectKey: string;
+  /**
+   * 'cloud' uses REST API v3 with Atlassian Document Format,
+   * 'server' uses REST API v2 (Server / Data Center) with wiki markup
+   */
+  deployment?: 'cloud' | 'server';
+  /**
+   * Account email for Jira Cloud basic auth (email + API token).
+   * Without it the access token is sent as a Bearer personal access token.
+   */
+  email?: string;
+  issueType?: string;
+  components?: string[];
+  priority?: string;
+  labels?: string[];
+  /**
+   * Template for the description: wiki markup on Server / Data Center, plain text on Cloud
+   * (see `DEFAULT_TEMPLATE`). Without it, Cloud descriptions are built as structured ADF.
+   */
+  template?: IssueTemplate;
+  /**
+   * Maps custom field values to properties of the create-issue request (`fields`),
+   * e.g. `(fields) => ({ customfield_10042: { value: fields.severity } })`
+   */
+  mapFields?: FieldMapper;
+}
+
+type AdfNode = Record<string, unknown>;
+
+const SCREENSHOT_FILENAME = 'feedback_screenshot.png';
+const LOGS_FILENAME = 'console.log';
+const HAR_FILENAME = 'network.har';
+const REPLAY_FILENAME = 'session-replay.json';
+const VIDEO_FILENAME = 'screen-recording.webm';
+
+/**
+ * Attachment returned by the upload endpoint, which responds with a list
+ */
+interface JiraAttachment {
+  content: string;
+}
+
+/**
+ * Fields of the create-issue response the adapter reads
+ */
+interface JiraCreatedIssue {
+  id: string;
+  key: string;
+}
+
+/**
+ * Jira Issue Tracker Adapter
+ */
+export class JiraAdapter implements IssueTrackerAdapter {
+  private config: JiraConfig;
+
+  constructor(config: JiraConfig) {
+    this.config = config;
+  }
+
+  private get apiBase(): string {
+    const version = this.config.deployment === 'server' ? 2 : 3;
+    return `${this.config.baseUrl}/rest/api/${version}`;
+  }
+
+  private get authHeader(): string {
+    if (this.config.email) {
+      return `Basic ${btoa(`${this.config.email}:${this.config.accessToken}`)}`;
+    }
+    return `Bearer ${this.config.accessToken}`;
+  }
+
+  /**
+   * Uploads a file as an attachment of an existing Jira issue
+   * Jira has no standalone upload endpoint, so an issue key is required
+   * @throws IssueReporterError when the upload is rejected or Jira is unreachable
+   */
+  async uploadAttachment(file: Blob, filename: string, issueKey?: string): Promise<string | null> {
+    if (!issueKey) {
+      console.error('Jira attachments can only be added to an existing issue');
+      return null;
+    }
+
+    const formData = new FormData();
+    formData.append('file', file, filename);
+
+    const response = await fetchOrThrow(
+      `${this.apiBase}/issue/${issueKey}/attachments`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': this.authHeader,
+          'X-Atlassian-Token': 'no-check',
+        },
+        body: formData,
+      },
+      'Jira'
+    );
+
+    const data: JiraAttachment[] = await response.json();
+    return data[0]?.content || null;
+  }
+
+  /**
+   * Uploads a screenshot as an attachment of an existing Jira issue
+   * @throws IssueReporterError when the upload is rejected or Jira is unreachable
+   */
+  async uploadScreenshot(screenshot: Blob, issueKey?: string): Promise<string | null> {
+    return this.uploadAttachment(screenshot, SCREENSHOT_FILENAME, issueKey);
+  }
+
+  /**
+   * Creates an issue in Jira and attaches the screenshot afterwards
+   * @throws IssueReporterError when the issue cannot be created
+   */
+  async createIssue(feedback: FeedbackData): Promise<IssueResponse | null> {
+    const fields: Record<string, unknown> = {
+      project: { key: this.config.projectKey },
+      summary: feedback.title,
+      description: this.config.deployment === 'server'
+        ? this.buildWikiDescription(feedback)
+        : this.buildAdfDescription(feedback),
+      issuetype: { name: this.config.issueType || 'Bug' },
+      labels: this.buildLabels(feedback),
+    };
+
+    if (this.config.components && this.config.components.length > 0) {
+      fields.components = this.config.components.map((name) => ({ name }));
+    }
+
+    if (this.config.priority) {
+      fields.priority = { name: this.config.priority };
+    }
+
+    if (feedback.fields && this.config.mapFields) {
+      Object.assign(fields, this.config.mapFields(feedback.fields, feedback));
+    }
+
+    // Create the issue
+    const response = await fetchOrThrow(
+      `${this.apiBase}/issue`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': this.authHeader,
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+        },
+        body: JSON.stringify({ fields }),
+      },
+      'Jira'
+    );
+
+    const data: JiraCreatedIssue = await response.json();
+
+    // Attach files to the freshly created issue; a failed upload must not
+    // fail the submission, otherwise a retry would create a duplicate issue
+    const attachments: { file: Blob; filename: string }[] = [];
+    if (feedback.screenshot) {
+      attachments.push({ file: feedback.screenshot, filename: SCREENSHOT_FILENAME });
+    }
+    if (feedback.logs && feedback.logs.length > 0) {
+      attachments.push({
+        file: new Blob([formatConsoleLogs(feedback.logs)], { type: 'text/plain' }),
+        filename: LOGS_FILENAME,
+      });
+    }
+    if (feedback.networkRequests && feedback.networkRequests.length > 0) {
+      attachments.push({ file: createHarBlob(feedback.networkRequests), filename: HAR_FILENAME });
+    }
+    if (feedback.sessionRecording) {
+      attachments.push({ file: createReplayBlob(feedback.sessionRecording), filename: REPLAY_FILENAME });
+    }
+    if (feedback.video) {
+      attachments.push({ file: feedback.video, filename: VIDEO_FILENAME });
+    }
+    feedback.attachments?.forEach((attachment) => {
+      attachments.push({ file: attachment.data, filename: attachment.filename });
+    });
+
+    for (const attachment of attachments) {
+      try {
+        await this.uploadAttachment(attachment.file, attachment.filename, data.key);
+      } catch (error) {
+        console.error(`Error attaching ${attachment.filename} to Jira issue:`, error);
+      }
+    }
+
+    return {
+      id: data.key,
+      url: `${this.config.baseUrl}/browse/${data.key}`,
+      title: feedback.title,
+    };
+  }
+
+  /**
+   * Merges configured and selected labels (Jira labels must not contain spaces)
+   */
+  private buildLabels(feedback: FeedbackData): string[] {
+    const labels = [...(this.config.labels || []), ...(feedback.labels || [])]
+      .map((label) => label.trim().replace(/\s+/g, '-'))
+      .filter((label) => label.length > 0);
+    return Array.from(new Set(labels));
+  }
+
+  /**
+   * Builds a wiki markup description for Jira Server / Data Center
+   */
+  private buildWikiDescription(feedback: FeedbackData): string {
+    const values = buildTemplateValues(feedback, 'jira', this.buildAttachmentSections(feedback, 'jira'));
+    return renderTemplate(this.config.template, values, feedback);
+  }
+
+  /**
+   * Sections referring to the files attached after creation, in wiki markup or plain text
+   */
+  private buildAttachmentSections(feedback: FeedbackData, format: 'jira' | 'text'): Partial<TemplateValues> {
+    const wiki = format === 'jira';
+    const link = (filename: string) => (wiki ? `[^${filename}]` : filename);
+    const sections: Partial<TemplateValues> = {};
+
+    if (feedback.logs && feedback.logs.length > 0) {
+      sections.logs = `${formatHeading('Console Logs', format)}\n${link(LOGS_FILENAME)} (${feedback.logs.length} entries)`;
+    }
+
+    if (feedback.networkRequests && feedback.networkRequests.length > 0) {
+      const failed = feedback.networkRequests.filter((entry) => entry.status === 0 || entry.status >= 400);
+      sections.network = `${formatHeading('Network Requests', format)}\n${link(HAR_FILENAME)} (${feedback.networkRequests.length} requests)`;
+      failed.forEach((entry) => {
+        const request = wiki ? `{{${entry.method} ${entry.url}}}` : `${entry.method} ${entry.url}`;
+        sections.network += `\n* ${request} → ${entry.status || entry.error || 'failed'} (${entry.duration} ms)`;
+      });
+    }
+
+    if (feedback.sessionRecording) {
+      sections.replay = `${formatHeading('Session Replay', format)}\n${link(REPLAY_FILENAME)} (open with the ReplayPlayer from issue-reporter)`;
+    }
+
+    if (feedback.video) {
+      sections.video = `${formatHeading('Screen Recording', format)}\n${link(VIDEO_FILENAME)}`;
+    }
+
+    if (feedback.attachments && feedback.attachments.length > 0) {
+      sections.attachments = formatHeading('Attachments', format);
+      feedback.attachments.forEach((attachment) => {
+        sections.attachments += wiki && attachment.type.startsWith('image/')
+          ? `\n* !${attachment.filename}|thumbnail!`
+          : `\n* ${link(attachment.filename)}`;
+      });
+    }
+
+    // Jira renders the image once the attachment is uploaded
+    if (feedback.screenshot) {
+      sections.screenshot = `${formatHeading('Screenshot', format)}\n${wiki ? `!${SCREENSHOT_FILENAME}|thumbnail!` : SCREENSHOT_FILENAME}`;
+    }
+
+    return sections;
+  }
+
+  /**
+   * Builds an Atlassian Document Format description for Jira Cloud
+   */
+  private buildAdfDescription(feedback: FeedbackData): AdfNode {
+    // ADF is structured, so a custom template is rendered as plain text
+    if (this.config.template) {
+      const values = buildTemplateValues(feedback, 'text', this.buildAttachmentSections(feedback, 'text'));
+      return {
+        type: 'doc',
+        version: 1,
+        content: toAdfParagraphs(renderTemplate(this.config.template, values, feedback)),
+      };
+    }
+
+    const content: AdfNode[] = toAdfParagraphs(feedback.description);
+
+    const tables: [string, Record<string, unknown> | undefined, [string, string]][] = [
+      ['Details', feedback.fields, ['Field', 'Value']],
+      ['Reporter', feedback.reporter, ['Property', 'Value']],
+      ['System Information', feedback.metadata, ['Property', 'Value']],
+    ];
+    tables.forEach(([heading, record, headers]) => {
+      const keys = Object.keys(record || {}).filter((key) => record?.[key] !== undefined);
+      if (!record || keys.length === 0) return;
+
+      content.push(
+        {
+          type: 'heading',
+          attrs: { level: 2 },
+          content: [{ type: 'text', text: heading }],
+        },
+        toAdfTable(keys.map((key) => [humanizeKey(key), formatValue(record[key])]), headers)
+      );
+    });
+
+    if (feedback.logs && feedback.logs.length > 0) {
+      content.push(
+        {
+          type: 'heading',
+          attrs: { level: 2 },
+          content: [{ type: 'text', text: 'Console Logs' }],
+        },
+        {
+          type: 'paragraph',
+          content: [{ type: 'text', text: `${feedback.logs.length} entries attached as ${LOGS_FILENAME}` }],
+        }
+      );
+    }
+
+    if (feedback.networkRequests && feedback.networkRequests.length > 0) {
+      const failed = feedback.networkRequests.filter((entry) => entry.status === 0 || entry.status >= 400);
+      content.push(
+        {
+          type: 'heading',
+          attrs: { level: 2 },
+          content: [{ type: 'text', text: 'Network Requests' }],
+        },
+        {
+          type: 'paragraph',
+          content: [{ type: 'text', text: `${feedback.networkRequests.length} requests attached as ${HAR_FILENAME}` }],
+        }
+      );
+      if (failed.length > 0) {
+        content.push({
+          type: 'bulletList',
+          content: failed.map((entry) => ({
+            type: 'listItem',
+            content: [{
+              type: 'paragraph',
+              content: [
+                { type: 'text', text: `${entry.method} ${entry.url}`, marks: [{ type: 'code' }] },
+                { type: 'text', text: ` → ${entry.status || entry.error || 'failed'} (${entry.duration} ms)` },
+              ],
+            }],
+          })),
+        });
+      }
+    }
+
+    if (feedback.sessionRecording) {
+      content.push(
+        {
+          type: 'heading',
+          attrs: { level: 2 },
+          content: [{ type: 'text', text: 'Session Replay' }],
+        },
+        {
+          type: 'paragraph',
+          content: [{ type: 'text', text: `Recording attached as ${REPLAY_FILENAME} (open with the ReplayPlayer from issue-reporter)` }],
+        }
+      );
+    }
+
+    if (feedback.video) {
+      content.push(
+        {
+          type: 'heading',
+          attrs: { level: 2 },
+          content: [{ type: 'text', text: 'Screen Recording' }],
+        },
+        {
+          type: 'paragraph',
+          content: [{ type: 'text', text: `Video attached as ${VIDEO_FILENAME}` }],
+        }
+      );
+    }
+
+    if (feedback.attachments && feedback.attachments.length > 0) {
+      content.push(
+        {
+          type: 'heading',
+          attrs: { level: 2 },
+          content: [{ type: 'text', text: 'Attachments' }],
+        },
+        {
+          type: 'bulletList',
+          content: feedback.attachments.map((attachment) => ({
+            type: 'listItem',
+            content: [{
+              type: 'paragraph',
+              content: [{ type: 'text', text: attachment.filename }],
+            }],
+          })),
+        }
+      );
+    }
+
+    return {
+      type: 'doc',
+      version: 1,
+      content,
+    };
+  }
+}
+
+/**
+ * Paragraphs separated by blank lines, single line breaks kept as hard breaks
+ */
+function toAdfParagraphs(text: string): AdfNode[] {
+  return text
+    .split(/\n{2,}/)
+    .map((paragraph) => ({
+      type: 'paragraph',
+      content: paragraph.split('\n').flatMap((line, index) => [
+        ...(index > 0 ? [{ type: 'hardBreak' }] : []),
+        ...(line ? [{ type: 'text', text: line }] : []),
+      ]),
+    }));
+}
+
+function toAdfTable(rows: [string, string][], headers: [string, string]): AdfNode {
+  const cell = (type: string, text: string): AdfNode => ({
+    type,
+    content: [{ type: 'paragraph', content: [{ type: 'text', text }] }],
+  });
+
+  return {
+    type: 'table',
+    content: [
+      { type: 'tableRow', content: headers.map((header) => cell('tableHeader', header)) },
+      ...rows.map(([key, value]) => ({
+        type: 'tableRow',
+        content: [cell('tableCell', key), cell('tableCell', value)],
+      })),
+    ],
+  };
+}
@@ -0,0 +1,184 @@
+import { ConsoleLogEntry, formatConsoleLogs } from '../core/console';
+import { NetworkEntry, createHar } from '../core/network';
+import { SessionRecording } from '../core/replay';
+import { FeedbackAttachment, FeedbackData } from '../types';
+import type { TemplateValues } from '../core/template';
+import { formatFileSize } from '../core/attachments';
+
+/**
+ * Logs longer than this are uploaded as a file instead of being inlined
+ */
+export const MAX_INLINE_LOG_LENGTH = 10000;
+
+/**
+ * Formats console logs, returning the text and whether it is too long to inline
+ */
+export function prepareLogs(entries: ConsoleLogEntry[]): { text: string; upload: boolean } {
+  const text = formatConsoleLogs(entries);
+  return { text, upload: text.length > MAX_INLINE_LOG_LENGTH };
+}
+
+/**
+ * Builds the console log section: a link to the uploaded file,
+ * or a collapsible code block (truncated if the upload was not possible)
+ */
+export function buildLogsMarkdown(entries: ConsoleLogEntry[], text: string, uploadedUrl?: string | null): string {
+  const summary = `Console Logs (${entries.length} ${entries.length === 1 ? 'entry' : 'entries'})`;
+
+  if (uploadedUrl) {
+    return `## ${summary}\n[console.log](${uploadedUrl})`;
+  }
+
+  const inline = text.length > MAX_INLINE_LOG_LENGTH
+    ? `…\n${text.slice(text.length - MAX_INLINE_LOG_LENGTH)}`
+    : text;
+
+  return `<details>\n<summary>${summary}</summary>\n\n\`\`\`\n${inline}\n\`\`\`\n\n</details>`;
+}
+
+/**
+ * Serializes network requests as a HAR file
+ */
+export function createHarBlob(entries: NetworkEntry[]): Blob {
+  return new Blob([JSON.stringify(createHar(entries), null, 2)], { type: 'application/json' });
+}
+
+/**
+ * Builds the network section: failed requests inline, the full log as a HAR link
+ */
+export function buildNetworkMarkdown(entries: NetworkEntry[], harUrl?: string | null): string {
+  const failed = entries.filter((entry) => entry.status === 0 || entry.status >= 400);
+
+  let section = `## Network Requests (${entries.length})`;
+  if (harUrl) {
+    section += `\n[network.har](${harUrl})`;
+  }
+
+  if (failed.length > 0) {
+    section += '\n\n**Failed requests:**\n' + failed
+      .map((entry) => `- \`${entry.method} ${entry.url}\` → ${entry.status || entry.error || 'failed'} (${entry.duration} ms)`)
+      .join('\n');
+  } else {
+    section += '\n\nNo failed requests.';
+  }
+
+  return section;
+}
+
+/**
+ * Serializes a session recording for upload
+ */
+export function createReplayBlob(recording: SessionRecording): Blob {
+  return new Blob([JSON.stringify(recording)], { type: 'application/json' });
+}
+
+/**
+ * Builds the session replay section with a link to the recording
+ */
+export function buildReplayMarkdown(recording: SessionRecording, replayUrl?: string | null): string {
+  const events = recording.events;
+  const seconds = events.length > 1
+    ? Math.round((events[events.length - 1].time - events[0].time) / 1000)
+    : 0;
+
+  let section = `## Session Replay (${seconds} s)`;
+  section += replayUrl
+    ? `\n[session-replay.json](${replayUrl}) — open it with the \`ReplayPlayer\` from issue-reporter.`
+    : '\n\nThe recording could not be uploaded.';
+  return section;
+}
+
+/**
+ * Builds the attachments section; images are embedded, other files linked
+ */
+export function buildAttachmentsMarkdown(uploads: { attachment: FeedbackAttachment; url: string | null }[]): string {
+  if (uploads.length === 0) return '';
+
+  const lines = uploads.map(({ attachment, url }) => {
+    const name = attachment.filename.replace(/[[\]]/g, '\\$&');
+    const size = formatFileSize(attachment.data.size);
+    if (!url) return `- ${name} (${size}, could not be uploaded)`;
+    return attachment.type.startsWith('image/')
+      ? `- ![${name}](${url})`
+      : `- [${name}](${url}) (${size})`;
+  });
+
+  return `## Attachments\n${lines.join('\n')}`;
+}
+
+/**
+ * How an adapter stores files and links its screen recording
+ */
+export interface MarkdownUploader {
+  /**
+   * Stores a file and returns its URL, or null when it could not be stored
+   * A rejection is logged and treated like null
+   */
+  upload: (file: Blob, filename: string) => Promise<string | null>;
+  uploadScreenshot: (screenshot: Blob) => Promise<string | null>;
+  /**
+   * Markdown linking the uploaded screen recording
+   */
+  formatVideo: (url: string) => string;
+}
+
+/**
+ * Uploads the files of a report and builds the Markdown sections that link them
+ * Only a failed screenshot upload rejects; the other files are best-effort and listed as not uploaded
+ */
+export async function buildUploadSections(
+  feedback: FeedbackData,
+  uploader: MarkdownUploader
+): Promise<Partial<TemplateValues>> {
+  const sections: Partial<TemplateValues> = {};
+  const upload = async (file: Blob, filename: string): Promise<string | null> => {
+    try {
+      return await uploader.upload(file, filename);
+    } catch (error) {
+      console.error(`Error uploading ${filename}:`, error);
+      return null;
+    }
+  };
+
+  if (feedback.screenshot) {
+    const screenshotUrl = await uploader.uploadScreenshot(feedback.screenshot);
+    if (screenshotUrl) {
+      sections.screenshot = `## Screenshot\n![Screenshot](${screenshotUrl})`;
+    }
+  }
+
+  // Long logs are uploaded as a file
+  if (feedback.logs && feedback.logs.length > 0) {
+    const logs = prepareLogs(feedback.logs);
+    const logsUrl = logs.upload
+      ? await upload(new Blob([logs.text], { type: 'text/plain' }), 'console.log')
+      : null;
+    sections.logs = buildLogsMarkdown(feedback.logs, logs.text, logsUrl);
+  }
+
+  // The full request log is uploaded as a HAR file
+  if (feedback.networkRequests && feedback.networkRequests.length > 0) {
+    const harUrl = await upload(createHarBlob(feedback.networkRequests), 'network.har');
+    sections.network = buildNetworkMarkdown(feedback.networkRequests, harUrl);
+  }
+
+  if (feedback.sessionRecording) {
+    const replayUrl = await upload(createReplayBlob(feedback.sessionRecording), 'session-replay.json');
+    sections.replay = buildReplayMarkdown(feedback.sessionRecording, replayUrl);
+  }
+
+  if (feedback.video) {
+    const videoUrl = await upload(feedback.video, 'screen-recording.webm');
+    if (videoUrl) {
+      sections.video = uploader.formatVideo(videoUrl);
+    }
+  }
+
+  const attachmentUploads: { attachment: FeedbackAttachment; url: string | null }[] = [];
+  for (const attachment of feedback.attachments || []) {
+    attachmentUploads.push({ attachment, url: await upload(attachment.data, attachment.filename) });
+  }
+  sections.attachments = buildAttachmentsMarkdown(attachmentUploads);
+
+  return sections;
+}
@@ -0,0 +1,112 @@
+import { IssueTrackerAdapter, FeedbackData, IssueResponse, IssueSearchResult, CommentResponse } from '../types';
+import { FEEDBACK_FIELDS, feedbackToFormData } from '../core/formData';
+import { fetchOrThrow } from '../core/errors';
+
+export interface ProxyConfig {
+  /**
+   * URL of the server endpoint created with createFeedbackHandler
+   */
+  endpoint: string;
+  /**
+   * Extra request headers, e.g. a CSRF token
+   */
+  headers?: Record<string, string>;
+  credentials?: RequestCredentials;
+  /**
+   * Search for similar issues while the title is typed; the server must be created with `allowSearch`
+   */
+  search?: boolean;
+}
+
+/**
+ * Proxy Adapter
+ * Sends feedback to your own backend, which holds the tracker credentials
+ */
+export class ProxyAdapter implements IssueTrackerAdapter {
+  private config: ProxyConfig;
+
+  /**
+   * Finds issues whose title matches the query; only defined with `search`, so the modal
+   * does not search servers that do not allow it
+   * @throws IssueReporterError mapped from the server's status code
+   */
+  searchIssues?: (query: string) => Promise<IssueSearchResult[]>;
+
+  constructor(config: ProxyConfig) {
+    this.config = config;
+    if (config.search) {
+      this.searchIssues = (query) => this.search(query);
+    }
+  }
+
+  /**
+   * Posts the feedback (including the screenshot) as multipart form data
+   * @throws IssueReporterError mapped from the server's status code
+   */
+  async createIssue(feedback: FeedbackData): Promise<IssueResponse | null> {
+    const response = await fetchOrThrow(
+      this.config.endpoint,
+      {
+        method: 'POST',
+        headers: {
+          'Accept': 'application/json',
+          ...this.config.headers,
+        },
+        credentials: this.config.credentials || 'same-origin',
+        body: feedbackToFormData(feedback),
+      },
+      'Feedback server'
+    );
+
+    const data: IssueResponse = await response.json();
+    return {
+      id: data.id,
+      url: data.url,
+      title: data.title,
+    };
+  }
+
+  /**
+   * Posts the feedback like a new issue, with the issue to comment on
+   * @throws IssueReporterError mapped from the server's status code
+   */
+  async addComment(issueId: string | number, feedback: FeedbackData): Promise<CommentResponse | null> {
+    const body = feedbackToFormData(feedback);
+    body.append(FEEDBACK_FIELDS.issueId, String(issueId));
+
+    const response = await fetchOrThrow(
+      this.config.endpoint,
+      {
+        method: 'POST',
+        headers: {
+          'Accept': 'application/json',
+          ...this.config.headers,
+        },
+        credentials: this.config.credentials || 'same-origin',
+        body,
+      },
+      'Feedback server'
+    );
+
+    const data: CommentResponse = await response.json();
+    return { id: data.id, url: data.url };
+  }
+
+  private async search(query: string): Promise<IssueSearchResult[]> {
+    const separator = this.config.endpoint.includes('?') ? '&' : '?';
+    const response = await fetchOrThrow(
+      `${this.config.endpoint}${separator}${new URLSearchParams({ q: query })}`,
+      {
+        headers: {
+          'Accept': 'application/json',
+          ...this.config.headers,
+        },
+        credentials: this.config.credentials || 'same-origin',
+      },
+      'Feedback server'
+    );
+
+    const data: IssueSearchResult[] = await response.json();
+    return data;
+  }
+}
@@ -0,0 +1,618 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Point of a freehand stroke; pressure (0-1) is recorded for styluses
+ */
+export interface StrokePoint extends Point {
+  pressure?: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface AnnotationBase {
+  id: string;
+  color: string;
+  lineWidth: number;
+}
+
+export type Annotation =
+  | (AnnotationBase & { type: 'arrow'; from: Point; to: Point })
+  | (AnnotationBase & { type: 'rectangle'; rect: Rect })
+  | (AnnotationBase & { type: 'circle'; center: Point; radius: number })
+  | (AnnotationBase & { type: 'pen'; points: StrokePoint[] })
+  | (AnnotationBase & { type: 'highlight'; points: Point[] })
+  | (AnnotationBase & { type: 'text'; position: Point; text: string; fontSize: number })
+  | (AnnotationBase & { type: 'pixelate'; rect: Rect; blockSize: number })
+  | (AnnotationBase & { type: 'step'; center: Point; radius: number });
+
+export type AnnotationType = Annotation['type'];
+
+export type HandleName = 'start' | 'end' | 'nw' | 'ne' | 'sw' | 'se';
+
+/**
+ * Editor document: the annotations plus an optional crop of the base image
+ */
+export interface EditorState {
+  annotations: Annotation[];
+  crop: Rect | null;
+}
+
+export interface RenderOptions {
+  selectedId?: string | null;
+  /**
+   * Size of the selection handles in canvas pixels (default: 10)
+   */
+  handleSize?: number;
+  /**
+   * Crop region shown as a frame; the area outside is dimmed
+   */
+  crop?: Rect | null;
+}
+
+export const TEXT_FONT_FAMILY = 'system-ui, -apple-system, sans-serif';
+const TEXT_LINE_HEIGHT = 1.25;
+const HIGHLIGHT_ALPHA = 0.4;
+
+let idCounter = 0;
+
+/**
+ * Creates a unique annotation id
+ */
+export function createAnnotationId(): string {
+  idCounter += 1;
+  return `annotation-${Date.now()}-${idCounter}`;
+}
+
+/**
+ * Returns a rect with non-negative width and height
+ */
+export function normalizeRect(rect: Rect): Rect {
+  return {
+    x: Math.min(rect.x, rect.x + rect.width),
+    y: Math.min(rect.y, rect.y + rect.height),
+    width: Math.abs(rect.width),
+    height: Math.abs(rect.height),
+  };
+}
+
+export function rectFromPoints(a: Point, b: Point): Rect {
+  return normalizeRect({ x: a.x, y: a.y, width: b.x - a.x, height: b.y - a.y });
+}
+
+export function getTextFont(fontSize: number): string {
+  return `bold ${fontSize}px ${TEXT_FONT_FAMILY}`;
+}
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+/**
+ * Size of a (multi-line) text block
+ */
+export function measureText(text: string, fontSize: number): { width: number; height: number } {
+  const lines = text.split('\n');
+  if (!measureContext) {
+    measureContext = document.createElement('canvas').getContext('2d');
+  }
+
+  let width = 0;
+  if (measureContext) {
+    measureContext.font = getTextFont(fontSize);
+    width = Math.max(...lines.map((line) => measureContext!.measureText(line).width));
+  } else {
+    width = Math.max(...lines.map((line) => line.length)) * fontSize * 0.6;
+  }
+  return { width, height: lines.length * fontSize * TEXT_LINE_HEIGHT };
+}
+
+/**
+ * Bounding box of an annotation
+ */
+export function getBounds(annotation: Annotation): Rect {
+  switch (annotation.type) {
+    case 'arrow':
+      return rectFromPoints(annotation.from, annotation.to);
+    case 'rectangle':
+      return normalizeRect(annotation.rect);
+    case 'circle':
+      return {
+        x: annotation.center.x - annotation.radius,
+        y: annotation.center.y - annotation.radius,
+        width: annotation.radius * 2,
+        height: annotation.radius * 2,
+      };
+    case 'pen':
+    case 'highlight': {
+      const xs = annotation.points.map((p) => p.x);
+      const ys = annotation.points.map((p) => p.y);
+      const x = Math.min(...xs);
+      const y = Math.min(...ys);
+      return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+    }
+    case 'text': {
+      const size = measureText(annotation.text, annotation.fontSize);
+      return { ...annotation.position, ...size };
+    }
+    case 'pixelate':
+      return normalizeRect(annotation.rect);
+    case 'step':
+      return {
+        x: annotation.center.x - annotation.radius,
+        y: annotation.center.y - annotation.radius,
+        width: annotation.radius * 2,
+        height: annotation.radius * 2,
+      };
+  }
+}
+
+/**
+ * Whether a freshly drawn annotation is large enough to keep
+ */
+export function isMeaningful(annotation: Annotation, minSize = 3): boolean {
+  if (annotation.type === 'pen' || annotation.type === 'highlight') return annotation.points.length > 1;
+  if (annotation.type === 'text') return annotation.text.trim().length > 0;
+  if (annotation.type === 'step') return true;
+  const bounds = getBounds(annotation);
+  return bounds.width >= minSize || bounds.height >= minSize;
+}
+
+function drawArrow(ctx: CanvasRenderingContext2D, from: Point, to: Point, lineWidth: number) {
+  const headLength = 20 * (lineWidth / 3);
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(to.x, to.y);
+  ctx.stroke();
+
+  ctx.beginPath();
+  ctx.moveTo(to.x, to.y);
+  ctx.lineTo(
+    to.x - headLength * Math.cos(angle - Math.PI / 6),
+    to.y - headLength * Math.sin(angle - Math.PI / 6)
+  );
+  ctx.lineTo(
+    to.x - headLength * Math.cos(angle + Math.PI / 6),
+    to.y - headLength * Math.sin(angle + Math.PI / 6)
+  );
+  ctx.lineTo(to.x, to.y);
+  ctx.fill();
+}
+
+function drawPixelated(ctx: CanvasRenderingContext2D, rect: Rect, blockSize: number, image?: CanvasImageSource) {
+  const { x, y, width, height } = normalizeRect(rect);
+  if (width < 1 || height < 1) return;
+
+  const buffer = document.createElement('canvas');
+  buffer.width = Math.max(1, Math.ceil(width / blockSize));
+  buffer.height = Math.max(1, Math.ceil(height / blockSize));
+  const bufferContext = buffer.getContext('2d');
+
+  if (!image || !bufferContext) {
+    ctx.fillStyle = '#808080';
+    ctx.fillRect(x, y, width, height);
+    return;
+  }
+
+  // Downscale the region, then scale it back up without smoothing
+  bufferContext.drawImage(image, x, y, width, height, 0, 0, buffer.width, buffer.height);
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(buffer, 0, 0, buffer.width, buffer.height, x, y, width, height);
+}
+
+function tracePath(ctx: CanvasRenderingContext2D, points: Point[]) {
+  ctx.beginPath();
+  points.forEach((point, index) => {
+    if (index === 0) ctx.moveTo(point.x, point.y);
+    else ctx.lineTo(point.x, point.y);
+  });
+}
+
+/**
+ * Draws a stroke segment by segment, with the width following the pressure
+ * A pressure of 0.5 (the default for mice) gives the nominal width
+ */
+function drawPressureStroke(ctx: CanvasRenderingContext2D, points: StrokePoint[], lineWidth: number) {
+  const widthAt = (point: StrokePoint) => lineWidth * 2 * (point.pressure ?? 0.5);
+
+  points.forEach((point, index) => {
+    if (index === 0) return;
+    const previous = points[index - 1];
+    ctx.lineWidth = Math.max(0.5, (widthAt(previous) + widthAt(point)) / 2);
+    ctx.beginPath();
+    ctx.moveTo(previous.x, previous.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+  });
+}
+
+export interface DrawContext {
+  /**
+   * Base image, needed to pixelate regions
+   */
+  image?: CanvasImageSource;
+  /**
+   * Number shown on a step marker
+   */
+  stepNumber?: number;
+}
+
+/**
+ * Draws a single annotation
+ */
+export function drawAnnotation(ctx: CanvasRenderingContext2D, annotation: Annotation, context: DrawContext = {}): void {
+  ctx.save();
+  ctx.strokeStyle = annotation.color;
+  ctx.fillStyle = annotation.color;
+  ctx.lineWidth = annotation.lineWidth;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  switch (annotation.type) {
+    case 'arrow':
+      drawArrow(ctx, annotation.from, annotation.to, annotation.lineWidth);
+      break;
+    case 'rectangle': {
+      const { x, y, width, height } = annotation.rect;
+      ctx.strokeRect(x, y, width, height);
+      break;
+    }
+    case 'circle':
+      ctx.beginPath();
+      ctx.arc(annotation.center.x, annotation.center.y, annotation.radius, 0, 2 * Math.PI);
+      ctx.stroke();
+      break;
+    case 'pen':
+      if (annotation.points.some((point) => point.pressure !== undefined)) {
+        drawPressureStroke(ctx, annotation.points, annotation.lineWidth);
+      } else {
+        tracePath(ctx, annotation.points);
+        ctx.stroke();
+      }
+      break;
+    case 'highlight':
+      ctx.globalAlpha = HIGHLIGHT_ALPHA;
+      ctx.globalCompositeOperation = 'multiply';
+      tracePath(ctx, annotation.points);
+      ctx.stroke();
+      break;
+    case 'text': {
+      ctx.font = getTextFont(annotation.fontSize);
+      ctx.textBaseline = 'top';
+      // White outline keeps the text readable on any background
+      ctx.strokeStyle = 'white';
+      ctx.lineWidth = Math.max(2, annotation.fontSize / 6);
+      annotation.text.split('\n').forEach((line, index) => {
+        const y = annotation.position.y + index * annotation.fontSize * TEXT_LINE_HEIGHT;
+        ctx.strokeText(line, annotation.position.x, y);
+        ctx.fillText(line, annotation.position.x, y);
+      });
+      break;
+    }
+    case 'pixelate':
+      drawPixelated(ctx, annotation.rect, annotation.blockSize, context.image);
+      break;
+    case 'step': {
+      const { center, radius } = annotation;
+      ctx.beginPath();
+      ctx.arc(center.x, center.y, radius, 0, 2 * Math.PI);
+      ctx.fill();
+      ctx.strokeStyle = 'white';
+      ctx.lineWidth = Math.max(2, radius / 6);
+      ctx.stroke();
+      ctx.fillStyle = annotation.color.toUpperCase() === '#FFFF00' ? 'black' : 'white';
+      ctx.font = getTextFont(radius);
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(String(context.stepNumber ?? ''), center.x, center.y + radius * 0.05);
+      break;
+    }
+  }
+
+  ctx.restore();
+}
+
+/**
+ * Dims everything outside the crop region and frames it
+ */
+function drawCropFrame(ctx: CanvasRenderingContext2D, crop: Rect, handleSize: number) {
+  const { width, height } = ctx.canvas;
+  const { x, y, width: cropWidth, height: cropHeight } = normalizeRect(crop);
+
+  ctx.save();
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+  ctx.fillRect(0, 0, width, y);
+  ctx.fillRect(0, y + cropHeight, width, height - y - cropHeight);
+  ctx.fillRect(0, y, x, cropHeight);
+  ctx.fillRect(x + cropWidth, y, width - x - cropWidth, cropHeight);
+
+  ctx.strokeStyle = 'white';
+  ctx.lineWidth = Math.max(1, handleSize / 5);
+  ctx.setLineDash([handleSize, handleSize / 2]);
+  ctx.strokeRect(x, y, cropWidth, cropHeight);
+  ctx.restore();
+}
+
+/**
+ * Handles shown for a selected annotation
+ */
+export function getHandles(annotation: Annotation): { name: HandleName; point: Point }[] {
+  if (annotation.type === 'arrow') {
+    return [
+      { name: 'start', point: annotation.from },
+      { name: 'end', point: annotation.to },
+    ];
+  }
+
+  const { x, y, width, height } = getBounds(annotation);
+  return [
+    { name: 'nw', point: { x, y } },
+    { name: 'ne', point: { x: x + width, y } },
+    { name: 'sw', point: { x, y: y + height } },
+    { name: 'se', point: { x: x + width, y: y + height } },
+  ];
+}
+
+function drawSelection(ctx: CanvasRenderingContext2D, annotation: Annotation, handleSize: number) {
+  const bounds = getBounds(annotation);
+  const padding = annotation.lineWidth;
+
+  ctx.save();
+  ctx.strokeStyle = '#2196F3';
+  ctx.lineWidth = Math.max(1, handleSize / 6);
+  ctx.setLineDash([handleSize / 2, handleSize / 2]);
+  ctx.strokeRect(
+    bounds.x - padding,
+    bounds.y - padding,
+    bounds.width + padding * 2,
+    bounds.height + padding * 2
+  );
+
+  ctx.setLineDash([]);
+  ctx.fillStyle = 'white';
+  getHandles(annotation).forEach(({ point }) => {
+    ctx.fillRect(point.x - handleSize / 2, point.y - handleSize / 2, handleSize, handleSize);
+    ctx.strokeRect(point.x - handleSize / 2, point.y - handleSize / 2, handleSize, handleSize);
+  });
+  ctx.restore();
+}
+
+/**
+ * Draws the base image, every annotation and the selection
+ */
+export function renderAnnotations(
+  ctx: CanvasRenderingContext2D,
+  image: CanvasImageSource,
+  annotations: Annotation[],
+  options: RenderOptions = {}
+): void {
+  const { width, height } = ctx.canvas;
+  ctx.clearRect(0, 0, width, height);
+  ctx.drawImage(image, 0, 0);
+
+  // Pixelated regions hide the base image, so they go below everything else
+  const ordered = [
+    ...annotations.filter((annotation) => annotation.type === 'pixelate'),
+    ...annotations.filter((annotation) => annotation.type !== 'pixelate'),
+  ];
+  let stepNumber = 0;
+  ordered.forEach((annotation) => {
+    if (annotation.type === 'step') stepNumber += 1;
+    drawAnnotation(ctx, annotation, { image, stepNumber });
+  });
+
+  if (options.crop) {
+    drawCropFrame(ctx, options.crop, options.handleSize || 10);
+  }
+
+  const selected = options.selectedId
+    ? annotations.find((annotation) => annotation.id === options.selectedId)
+    : undefined;
+  if (selected) {
+    drawSelection(ctx, selected, options.handleSize || 10);
+  }
+}
+
+function distanceToSegment(point: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+}
+
+function containsPoint(annotation: Annotation, point: Point, tolerance: number): boolean {
+  const reach = tolerance + annotation.lineWidth / 2;
+
+  switch (annotation.type) {
+    case 'arrow':
+      return distanceToSegment(point, annotation.from, annotation.to) <= reach;
+    case 'circle':
+    case 'step':
+      return Math.hypot(point.x - annotation.center.x, point.y - annotation.center.y) <= annotation.radius + reach;
+    case 'pen':
+    case 'highlight':
+      return annotation.points.some((p, index) =>
+        index > 0 && distanceToSegment(point, annotation.points[index - 1], p) <= reach
+      );
+    default: {
+      const bounds = getBounds(annotation);
+      return point.x >= bounds.x - reach &&
+        point.x <= bounds.x + bounds.width + reach &&
+        point.y >= bounds.y - reach &&
+        point.y <= bounds.y + bounds.height + reach;
+    }
+  }
+}
+
+/**
+ * Topmost annotation under the point
+ */
+export function hitTest(annotations: Annotation[], point: Point, tolerance = 6): Annotation | null {
+  for (let i = annotations.length - 1; i >= 0; i--) {
+    if (containsPoint(annotations[i], point, tolerance)) {
+      return annotations[i];
+    }
+  }
+  return null;
+}
+
+/**
+ * Handle of the annotation under the point
+ */
+export function hitHandle(annotation: Annotation, point: Point, handleSize = 10): HandleName | null {
+  const handle = getHandles(annotation).find(({ point: p }) =>
+    Math.abs(p.x - point.x) <= handleSize && Math.abs(p.y - point.y) <= handleSize
+  );
+  return handle ? handle.name : null;
+}
+
+/**
+ * Returns the annotation moved by the given offset
+ */
+export function moveAnnotation(annotation: Annotation, dx: number, dy: number): Annotation {
+  const shift = <T extends Point>(p: T): T => ({ ...p, x: p.x + dx, y: p.y + dy });
+
+  switch (annotation.type) {
+    case 'arrow':
+      return { ...annotation, from: shift(annotation.from), to: shift(annotation.to) };
+    case 'rectangle':
+      return { ...annotation, rect: { ...annotation.rect, x: annotation.rect.x + dx, y: annotation.rect.y + dy } };
+    case 'circle':
+    case 'step':
+      return { ...annotation, center: shift(annotation.center) };
+    case 'pen':
+    case 'highlight':
+      return { ...annotation, points: annotation.points.map(shift) };
+    case 'text':
+      return { ...annotation, position: shift(annotation.position) };
+    case 'pixelate':
+      return { ...annotation, rect: { ...annotation.rect, x: annotation.rect.x + dx, y: annotation.rect.y + dy } };
+  }
+}
+
+/**
+ * Fits a box-shaped annotation into new bounds
+ */
+function fitToBounds(annotation: Annotation, bounds: Rect): Annotation {
+  const original = getBounds(annotation);
+
+  switch (annotation.type) {
+    case 'rectangle':
+    case 'pixelate':
+      return { ...annotation, rect: bounds };
+    case 'text': {
+      // Text scales with the height of the box
+      const scale = original.height ? bounds.height / original.height : 1;
+      return {
+        ...annotation,
+        position: { x: bounds.x, y: bounds.y },
+        fontSize: Math.max(8, Math.round(annotation.fontSize * scale)),
+      };
+    }
+    case 'circle':
+    case 'step':
+      return {
+        ...annotation,
+        center: { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 },
+        radius: Math.min(bounds.width, bounds.height) / 2,
+      };
+    case 'pen':
+    case 'highlight': {
+      const scaleX = original.width ? bounds.width / original.width : 1;
+      const scaleY = original.height ? bounds.height / original.height : 1;
+      return {
+        ...annotation,
+        points: annotation.points.map((p) => ({
+          ...p,
+          x: bounds.x + (p.x - original.x) * scaleX,
+          y: bounds.y + (p.y - original.y) * scaleY,
+        })),
+      };
+    }
+    default:
+      return annotation;
+  }
+}
+
+/**
+ * Returns the annotation with the given handle dragged to the point
+ * @param annotation The annotation as it was when the drag started
+ */
+export function resizeAnnotation(annotation: Annotation, handle: HandleName, point: Point): Annotation {
+  if (annotation.type === 'arrow') {
+    if (handle === 'start') return { ...annotation, from: point };
+    if (handle === 'end') return { ...annotation, to: point };
+    return annotation;
+  }
+
+  // The corner opposite the handle stays fixed
+  const { x, y, width, height } = getBounds(annotation);
+  const anchor: Point = {
+    x: handle === 'nw' || handle === 'sw' ? x + width : x,
+    y: handle === 'nw' || handle === 'ne' ? y + height : y,
+  };
+  return fitToBounds(annotation, rectFromPoints(anchor, point));
+}
+
+/**
+ * Undo/redo stack of immutable editor states
+ */
+export class EditorHistory<T> {
+  private past: T[] = [];
+  private future: T[] = [];
+  private present: T;
+
+  constructor(initial: T) {
+    this.present = initial;
+  }
+
+  get current(): T {
+    return this.present;
+  }
+
+  get canUndo(): boolean {
+    return this.past.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.future.length > 0;
+  }
+
+  /**
+   * Records a new state and clears the redo stack
+   */
+  push(state: T): T {
+    this.past.push(this.present);
+    this.present = state;
+    this.future = [];
+    return state;
+  }
+
+  undo(): T {
+    const previous = this.past.pop();
+    if (previous !== undefined) {
+      this.future.push(this.present);
+      this.present = previous;
+    }
+    return this.present;
+  }
+
+  redo(): T {
+    const next = this.future.pop();
+    if (next !== undefined) {
+      this.past.push(this.present);
+      this.present = next;
+    }
+    return this.present;
+  }
+}
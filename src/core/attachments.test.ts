@@ -0,0 +1,101 @@
+import { addAttachments, formatFileSize, matchesAccept, safeFilename, toAttachment } from './attachments';
+
+function file(name: string, type: string, size = 4): File {
+  return new File(['x'.repeat(size)], name, { type });
+}
+
+describe('safeFilename', () => {
+  it.each([
+    ['report.pdf', 'report.pdf'],
+    ['../../etc/passwd', 'passwd'],
+    ['C:\\Users\\jane\\notes.txt', 'notes.txt'],
+    ['my report (final).pdf', 'my_report__final_.pdf'],
+    ['..hidden', 'hidden'],
+    ['a..b.txt', 'a.b.txt'],
+    ['<script>.html', '_script_.html'],
+  ])('turns %p into %p', (name, expected) => {
+    expect(safeFilename(name)).toBe(expected);
+  });
+
+  it('keeps the end of long names, including the extension', () => {
+    const name = safeFilename(`${'a'.repeat(200)}.png`);
+
+    expect(name).toHaveLength(100);
+    expect(name.endsWith('.png')).toBe(true);
+  });
+
+  it('uses the fallback when nothing is left', () => {
+    expect(safeFilename('../')).toBe('attachment');
+    expect(safeFilename('...', 'upload')).toBe('upload');
+  });
+});
+
+describe('matchesAccept', () => {
+  const pdf = { filename: 'Invoice.PDF', type: 'application/pdf' };
+
+  it.each([
+    [undefined, true],
+    ['.pdf', true],
+    ['application/pdf', true],
+    ['application/*', true],
+    ['image/*, .pdf', true],
+    ['image/*', false],
+    ['.png,.jpg', false],
+  ])('accept %p matches a PDF: %p', (accept, expected) => {
+    expect(matchesAccept(pdf, accept)).toBe(expected);
+  });
+});
+
+describe('addAttachments', () => {
+  it('wraps files as attachments after the existing ones', () => {
+    const existing = [toAttachment(file('log.txt', 'text/plain'))];
+
+    const { attachments, rejected } = addAttachments(existing, [file('photo.png', 'image/png')]);
+
+    expect(attachments.map((a) => a.filename)).toEqual(['log.txt', 'photo.png']);
+    expect(attachments[1].type).toBe('image/png');
+    expect(rejected).toEqual([]);
+  });
+
+  it('defaults the type of untyped files', () => {
+    const { attachments } = addAttachments([], [file('data.bin', '')]);
+
+    expect(attachments[0].type).toBe('application/octet-stream');
+  });
+
+  it('rejects files of other types, too large files and files over the count', () => {
+    const existing = [toAttachment(file('log.txt', 'text/plain'))];
+
+    const { attachments, rejected } = addAttachments(existing, [
+      file('movie.mp4', 'video/mp4'),
+      file('huge.png', 'image/png', 11),
+      file('small.png', 'image/png'),
+      file('another.png', 'image/png'),
+    ], { accept: 'image/*,.txt', maxFileSize: 10, maxFiles: 2 });
+
+    expect(attachments.map((a) => a.filename)).toEqual(['log.txt', 'small.png']);
+    expect(rejected).toEqual([
+      { filename: 'movie.mp4', reason: 'type' },
+      { filename: 'huge.png', reason: 'size' },
+      { filename: 'another.png', reason: 'count' },
+    ]);
+  });
+
+  it('does not change the existing list', () => {
+    const existing = [toAttachment(file('log.txt', 'text/plain'))];
+
+    addAttachments(existing, [file('photo.png', 'image/png')]);
+
+    expect(existing).toHaveLength(1);
+  });
+});
+
+describe('formatFileSize', () => {
+  it.each([
+    [512, '512 B'],
+    [1536, '1.5 KB'],
+    [3 * 1024 * 1024, '3.0 MB'],
+  ])('formats %p bytes as %p', (bytes, expected) => {
+    expect(formatFileSize(bytes)).toBe(expected);
+  });
+});
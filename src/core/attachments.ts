@@ -0,0 +1,125 @@
+import type { FeedbackAttachment } from '../types';
+
+export interface AttachmentOptions {
+  /**
+   * Maximum size of a single file in bytes (default: 10 MB)
+   */
+  maxFileSize?: number;
+  /**
+   * Maximum number of attached files (default: 10)
+   */
+  maxFiles?: number;
+  /**
+   * File types accepted by the file picker, in `<input accept>` syntax (default: any)
+   */
+  accept?: string;
+}
+
+export const DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024;
+export const DEFAULT_MAX_FILES = 10;
+
+/**
+ * A file that was not attached, with the reason
+ */
+export interface RejectedFile {
+  filename: string;
+  reason: 'size' | 'count' | 'type';
+}
+
+const MAX_FILENAME_LENGTH = 100;
+
+/**
+ * Reduces a client-supplied file name to a safe basename: no directories, no `..`,
+ * only letters, digits, `_`, `.` and `-`
+ */
+export function safeFilename(name: string, fallback = 'attachment'): string {
+  const basename = name.split(/[\\/]/).pop() || '';
+  const safe = basename
+    .replace(/[^\w.-]/g, '_')
+    .replace(/\.{2,}/g, '.')
+    .replace(/^[.-]+/, '')
+    .slice(-MAX_FILENAME_LENGTH);
+  return safe || fallback;
+}
+
+/**
+ * Wraps a file or blob as an attachment
+ * @param filename Defaults to the file's name
+ */
+export function toAttachment(file: Blob, filename?: string): FeedbackAttachment {
+  return {
+    filename: filename || (file as File).name || 'attachment',
+    type: file.type || 'application/octet-stream',
+    data: file,
+  };
+}
+
+/**
+ * Checks whether a file matches an `<input accept>` list such as `image/*,.pdf`
+ */
+export function matchesAccept(file: { filename: string; type: string }, accept?: string): boolean {
+  if (!accept) return true;
+
+  return accept.split(',').some((pattern) => {
+    const rule = pattern.trim().toLowerCase();
+    if (!rule) return false;
+    if (rule.startsWith('.')) return file.filename.toLowerCase().endsWith(rule);
+    if (rule.endsWith('/*')) return file.type.toLowerCase().startsWith(rule.slice(0, -1));
+    return file.type.toLowerCase() === rule;
+  });
+}
+
+/**
+ * Adds files to the existing attachments, enforcing the type, size and count limits
+ */
+export function addAttachments(
+  existing: FeedbackAttachment[],
+  files: Blob[],
+  options: AttachmentOptions = {}
+): { attachments: FeedbackAttachment[]; rejected: RejectedFile[] } {
+  const maxFileSize = options.maxFileSize || DEFAULT_MAX_FILE_SIZE;
+  const maxFiles = options.maxFiles || DEFAULT_MAX_FILES;
+  const attachments = [...existing];
+  const rejected: RejectedFile[] = [];
+
+  files.forEach((file) => {
+    const attachment = toAttachment(file);
+    if (!matchesAccept(attachment, options.accept)) {
+      rejected.push({ filename: attachment.filename, reason: 'type' });
+    } else if (file.size > maxFileSize) {
+      rejected.push({ filename: attachment.filename, reason: 'size' });
+    } else if (attachments.length >= maxFiles) {
+      rejected.push({ filename: attachment.filename, reason: 'count' });
+    } else {
+      attachments.push(attachment);
+    }
+  });
+
+  return { attachments, rejected };
+}
+
+/**
+ * Files from a paste or drop event (e.g. a screenshot taken with the print screen key)
+ */
+export function getTransferFiles(data: DataTransfer | null): File[] {
+  if (!data) return [];
+
+  const files: File[] = [];
+  for (let i = 0; i < data.items.length; i++) {
+    const item = data.items[i];
+    const file = item.kind === 'file' ? item.getAsFile() : null;
+    if (file) {
+      files.push(file);
+    }
+  }
+  return files;
+}
+
+/**
+ * Human-readable file size, e.g. `1.4 MB`
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
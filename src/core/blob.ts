@@ -0,0 +1,17 @@
+/**
+ * Converts a Blob to a Base64 data URL
+ * Works in browsers and in Node.js (18+), which has no FileReader
+ * @param blob The blob to convert
+ * @returns Promise resolving to a base64 string
+ */
+export async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+
+  // Build the binary string in chunks to stay below the argument limit
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+
+  return `data:${blob.type || 'application/octet-stream'};base64,${btoa(binary)}`;
+}
@@ -0,0 +1,191 @@
+export type ConsoleLogLevel = 'log' | 'info' | 'warn' | 'error' | 'debug' | 'uncaught' | 'unhandledrejection';
+
+type ConsoleMethod = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+export interface ConsoleLogEntry {
+  level: ConsoleLogLevel;
+  timestamp: string;
+  message: string;
+  stack?: string;
+}
+
+export interface ConsoleRecorderOptions {
+  /**
+   * Size of the ring buffer (default: 100)
+   */
+  maxEntries?: number;
+  /**
+   * Console methods to record (default: all)
+   */
+  levels?: ConsoleMethod[];
+  /**
+   * Messages are truncated to this length (default: 1000)
+   */
+  maxMessageLength?: number;
+}
+
+const CONSOLE_METHODS: ConsoleMethod[] = ['log', 'info', 'warn', 'error', 'debug'];
+
+/**
+ * Serializes console arguments into a single readable line
+ */
+function formatArgument(arg: unknown): string {
+  if (typeof arg === 'string') return arg;
+  if (arg instanceof Error) return `${arg.name}: ${arg.message}`;
+  if (arg === undefined) return 'undefined';
+  if (typeof arg === 'function') return `[Function ${arg.name || 'anonymous'}]`;
+  if (typeof Element !== 'undefined' && arg instanceof Element) {
+    return `<${arg.tagName.toLowerCase()}${arg.id ? `#${arg.id}` : ''}>`;
+  }
+  try {
+    return JSON.stringify(arg);
+  } catch {
+    // Circular structures and the like
+    return String(arg);
+  }
+}
+
+/**
+ * Records console calls, uncaught errors and unhandled rejections in a ring buffer
+ */
+export class ConsoleRecorder {
+  private options: Required<ConsoleRecorderOptions>;
+  private entries: ConsoleLogEntry[] = [];
+  private originals: Partial<Record<ConsoleMethod, (...args: unknown[]) => void>> = {};
+  private recording = false;
+
+  constructor(options: ConsoleRecorderOptions = {}) {
+    this.options = {
+      maxEntries: options.maxEntries || 100,
+      levels: options.levels || CONSOLE_METHODS,
+      maxMessageLength: options.maxMessageLength || 1000,
+    };
+  }
+
+  /**
+   * Patches the console and installs global error listeners
+   */
+  start(): void {
+    if (this.recording) return;
+    this.recording = true;
+
+    this.options.levels.forEach((level) => {
+      const original = console[level];
+      this.originals[level] = original;
+      console[level] = (...args: unknown[]) => {
+        this.record(level, args);
+        original.apply(console, args);
+      };
+    });
+
+    window.addEventListener('error', this.handleError);
+    window.addEventListener('unhandledrejection', this.handleRejection);
+  }
+
+  /**
+   * Restores the original console methods and removes the listeners
+   */
+  stop(): void {
+    if (!this.recording) return;
+    this.recording = false;
+
+    (Object.keys(this.originals) as ConsoleMethod[]).forEach((level) => {
+      console[level] = this.originals[level]!;
+    });
+    this.originals = {};
+
+    window.removeEventListener('error', this.handleError);
+    window.removeEventListener('unhandledrejection', this.handleRejection);
+  }
+
+  /**
+   * Returns a copy of the recorded entries, oldest first
+   */
+  getEntries(): ConsoleLogEntry[] {
+    return [...this.entries];
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+
+  private record(level: ConsoleLogLevel, args: unknown[], stack?: string) {
+    const message = args.map(formatArgument).join(' ');
+
+    // Skip the reporter's own diagnostics
+    if (message.startsWith('[issue-reporter]')) return;
+
+    const errorArg = args.find((arg): arg is Error => arg instanceof Error);
+
+    this.entries.push({
+      level,
+      timestamp: new Date().toISOString(),
+      message: message.length > this.options.maxMessageLength
+        ? `${message.slice(0, this.options.maxMessageLength)}…`
+        : message,
+      stack: stack || errorArg?.stack,
+    });
+
+    if (this.entries.length > this.options.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.options.maxEntries);
+    }
+  }
+
+  private handleError = (event: ErrorEvent) => {
+    const location = event.filename ? ` (${event.filename}:${event.lineno}:${event.colno})` : '';
+    this.record('uncaught', [`${event.message}${location}`], event.error?.stack);
+  };
+
+  private handleRejection = (event: PromiseRejectionEvent) => {
+    const reason = event.reason;
+    this.record('unhandledrejection', [reason], reason instanceof Error ? reason.stack : undefined);
+  };
+}
+
+let sharedRecorder: ConsoleRecorder | null = null;
+let sharedUsers = 0;
+
+/**
+ * Starts the shared recorder; every call must be paired with stopConsoleRecorder
+ * Several buttons or reporters on one page share a single patched console
+ */
+export function startConsoleRecorder(options?: ConsoleRecorderOptions): ConsoleRecorder {
+  if (!sharedRecorder) {
+    sharedRecorder = new ConsoleRecorder(options);
+    sharedRecorder.start();
+  }
+  sharedUsers += 1;
+  return sharedRecorder;
+}
+
+/**
+ * Releases the shared recorder, restoring the console after the last user
+ */
+export function stopConsoleRecorder(): void {
+  if (!sharedRecorder) return;
+  sharedUsers -= 1;
+  if (sharedUsers <= 0) {
+    sharedRecorder.stop();
+    sharedRecorder = null;
+    sharedUsers = 0;
+  }
+}
+
+/**
+ * Entries of the shared recorder, or an empty list when it is not running
+ */
+export function getConsoleEntries(): ConsoleLogEntry[] {
+  return sharedRecorder ? sharedRecorder.getEntries() : [];
+}
+
+/**
+ * Formats entries as plain text, one line per entry followed by its stack trace
+ */
+export function formatConsoleLogs(entries: ConsoleLogEntry[]): string {
+  return entries
+    .map((entry) => {
+      const line = `[${entry.timestamp}] ${entry.level.toUpperCase()} ${entry.message}`;
+      return entry.stack ? `${line}\n${entry.stack.replace(/^/gm, '    ')}` : line;
+    })
+    .join('\n');
+}
@@ -0,0 +1,119 @@
+import type { FeedbackData } from '../types';
+import { EventEmitter } from './events';
+import {
+  FeedbackSession,
+  FeedbackSessionConfig,
+  FeedbackSessionEvents,
+  FeedbackSessionState,
+  FeedbackSessionStatus,
+  FeedbackPrefill,
+  SubmitResult,
+} from './session';
+
+export type { FeedbackPrefill, SubmitResult, CommentResult } from './session';
+
+export interface FeedbackControllerState {
+  isOpen: boolean;
+  isCapturing: boolean;
+  status: FeedbackSessionStatus;
+  /**
+   * Screenshot captured on open, or the one from the prefill
+   */
+  screenshot: Blob | null;
+  prefill: FeedbackPrefill;
+}
+
+export type FeedbackControllerEvents = Omit<FeedbackSessionEvents, 'change'> & {
+  change: FeedbackControllerState;
+  opened: FeedbackPrefill;
+  closed: { submitted: boolean };
+};
+
+export type FeedbackControllerConfig = FeedbackSessionConfig;
+
+const FORWARDED_EVENTS = ['captured', 'submitted', 'succeeded', 'queued', 'commented', 'failed'] as const;
+
+function toControllerState(state: FeedbackSessionState): FeedbackControllerState {
+  return {
+    isOpen: state.status !== 'idle' && state.status !== 'capturing',
+    isCapturing: state.status === 'capturing',
+    status: state.status,
+    screenshot: state.screenshot,
+    prefill: state.prefill,
+  };
+}
+
+/**
+ * Opens and closes the reporter around a FeedbackSession.
+ * The React and vanilla modals render its state; host apps use it to open the modal prefilled
+ * and to follow the lifecycle events.
+ */
+export class FeedbackController extends EventEmitter<FeedbackControllerEvents> {
+  /**
+   * State machine of the report that is currently open
+   */
+  readonly session: FeedbackSession;
+  private state: FeedbackControllerState;
+  // Whether a report was created, queued or added as a comment since the modal was opened
+  private submittedSinceOpen = false;
+
+  constructor(config: FeedbackControllerConfig) {
+    super();
+    this.session = new FeedbackSession(config);
+    this.state = toControllerState(this.session.getState());
+
+    this.session.on('change', (state) => {
+      this.state = toControllerState(state);
+      this.emit('change', this.state);
+    });
+    FORWARDED_EVENTS.forEach((event) => {
+      this.session.on(event, (payload) => this.emit(event, payload as never));
+    });
+    this.session.on('succeeded', () => { this.submittedSinceOpen = true; });
+    this.session.on('queued', () => { this.submittedSinceOpen = true; });
+    this.session.on('commented', () => { this.submittedSinceOpen = true; });
+  }
+
+  /**
+   * Replaces the configuration, e.g. when React props change
+   */
+  configure(config: FeedbackControllerConfig): void {
+    this.session.configure(config);
+  }
+
+  getState(): FeedbackControllerState {
+    return this.state;
+  }
+
+  /**
+   * Captures a screenshot (unless the prefill supplies one) and opens the modal
+   * Does nothing while the modal is already open or being opened
+   */
+  async open(prefill: FeedbackPrefill = {}): Promise<void> {
+    if (this.state.status !== 'idle') return;
+
+    this.submittedSinceOpen = false;
+    await this.session.start(prefill);
+    if (this.state.isOpen) {
+      this.emit('opened', prefill);
+    }
+  }
+
+  close(): void {
+    if (this.state.status === 'idle') return;
+
+    const wasOpen = this.state.isOpen;
+    this.session.reset();
+    if (wasOpen) {
+      this.emit('closed', { submitted: this.submittedSinceOpen });
+    }
+  }
+
+  /**
+   * Submits an already built report through the open session
+   * @throws IssueReporterError when the report was neither created nor queued
+   */
+  submit(feedback: FeedbackData): Promise<SubmitResult> {
+    return this.session.send(feedback);
+  }
+}
@@ -0,0 +1,154 @@
+import type { FeedbackController, FeedbackPrefill } from './controller';
+
+/**
+ * Where an error was caught
+ */
+export type ErrorSource = 'error-boundary' | 'error' | 'unhandledrejection';
+
+export interface CaughtError {
+  error: Error;
+  source: ErrorSource;
+  /**
+   * React component stack, for errors caught by an error boundary
+   */
+  componentStack?: string;
+}
+
+export interface ErrorPromptOptions {
+  /**
+   * Most prompts within `interval` (default: 3)
+   */
+  maxPrompts?: number;
+  /**
+   * Time window for `maxPrompts` in ms; the same error is not prompted for twice within it (default: 60000)
+   */
+  interval?: number;
+  /**
+   * Return false to skip an error, e.g. one thrown by a browser extension
+   */
+  filter?: (caught: CaughtError) => boolean;
+  /**
+   * Merged into the prefill built from the error, e.g. `{ labels: ['crash'] }`
+   */
+  prefill?: FeedbackPrefill;
+}
+
+const MAX_TITLE_LENGTH = 100;
+
+/**
+ * Turns anything thrown or rejected with into an Error
+ */
+export function toError(value: unknown): Error {
+  if (value instanceof Error) return value;
+  if (typeof value === 'string') return new Error(value);
+  try {
+    return new Error(JSON.stringify(value));
+  } catch {
+    return new Error(String(value));
+  }
+}
+
+/**
+ * Prefill with the error message as title and the stack traces in the description
+ */
+export function buildErrorPrefill(caught: CaughtError, extra: FeedbackPrefill = {}): FeedbackPrefill {
+  const { error, source, componentStack } = caught;
+  const summary = `${error.name}: ${error.message}`;
+  const title = summary.length > MAX_TITLE_LENGTH ? `${summary.slice(0, MAX_TITLE_LENGTH)}…` : summary;
+
+  const sections = [`The app ran into an error:\n\n**${summary}**`];
+  if (error.stack) {
+    sections.push(`Stack trace:\n\n\`\`\`\n${error.stack}\n\`\`\``);
+  }
+  if (componentStack) {
+    sections.push(`Component stack:\n\n\`\`\`${componentStack.replace(/^\n+/, '\n')}\n\`\`\``);
+  }
+
+  return {
+    ...extra,
+    title: extra.title || title,
+    description: extra.description || sections.join('\n\n'),
+    metadata: {
+      ...extra.metadata,
+      error: { source, name: error.name, message: error.message },
+    },
+  };
+}
+
+/**
+ * Opens a controller's modal prefilled with caught errors, rate limited so an error loop
+ * does not open it over and over
+ */
+export class ErrorPrompt {
+  private controller: FeedbackController;
+  private options: ErrorPromptOptions;
+  // Times of recent prompts, oldest first
+  private promptedAt: number[] = [];
+  // When each error was last prompted for, keyed by name and message
+  private lastSeen = new Map<string, number>();
+
+  constructor(controller: FeedbackController, options: ErrorPromptOptions = {}) {
+    this.controller = controller;
+    this.options = options;
+  }
+
+  /**
+   * Replaces the options, e.g. when React props change; the rate limit history is kept
+   */
+  configure(options: ErrorPromptOptions = {}): void {
+    this.options = options;
+  }
+
+  /**
+   * Opens the modal for the error unless it is filtered out or rate limited
+   * @returns Whether the modal is opened
+   */
+  report(caught: CaughtError): boolean {
+    if (this.options.filter && !this.options.filter(caught)) return false;
+
+    const { isOpen, isCapturing } = this.controller.getState();
+    if (isOpen || isCapturing) return false;
+
+    const now = Date.now();
+    const interval = this.options.interval ?? 60000;
+    const key = `${caught.error.name}: ${caught.error.message}`;
+    this.promptedAt = this.promptedAt.filter((time) => now - time < interval);
+
+    const seen = this.lastSeen.get(key);
+    if (seen !== undefined && now - seen < interval) return false;
+    if (this.promptedAt.length >= (this.options.maxPrompts ?? 3)) {
+      console.warn('[issue-reporter] Too many errors, not opening the reporter for:', key);
+      return false;
+    }
+
+    this.promptedAt.push(now);
+    this.lastSeen.set(key, now);
+    this.controller.open(buildErrorPrefill(caught, this.options.prefill)).catch((error) => {
+      console.warn('[issue-reporter] Failed to open the reporter for:', key, error);
+    });
+    return true;
+  }
+
+  /**
+   * Prompts for uncaught errors and unhandled rejections on the page
+   * @returns A function that removes the listeners
+   */
+  watch(): () => void {
+    const handleError = (event: ErrorEvent) => {
+      // Resource load errors have no error object and are not crashes
+      if (!event.error && !event.message) return;
+      this.report({ error: event.error ? toError(event.error) : new Error(event.message), source: 'error' });
+    };
+    const handleRejection = (event: PromiseRejectionEvent) => {
+      this.report({ error: toError(event.reason), source: 'unhandledrejection' });
+    };
+
+    window.addEventListener('error', handleError);
+    window.addEventListener('unhandledrejection', handleRejection);
+
+    return () => {
+      window.removeEventListener('error', handleError);
+      window.removeEventListener('unhandledrejection', handleRejection);
+    };
+  }
+}
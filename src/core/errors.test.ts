@@ -0,0 +1,94 @@
+import {
+  AuthenticationError,
+  IssueReporterError,
+  NetworkError,
+  PayloadTooLargeError,
+  PermissionDeniedError,
+  RateLimitError,
+  ValidationError,
+  createErrorFromResponse,
+  getErrorMessage,
+  toIssueReporterError,
+} from './errors';
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+}
+
+describe('createErrorFromResponse', () => {
+  it.each([
+    [401, AuthenticationError, 'authentication'],
+    [403, PermissionDeniedError, 'permission'],
+    [413, PayloadTooLargeError, 'payload-too-large'],
+    [400, ValidationError, 'validation'],
+    [422, ValidationError, 'validation'],
+    [429, RateLimitError, 'rate-limited'],
+  ])('maps HTTP %i to %p', async (status, ErrorClass, code) => {
+    const error = await createErrorFromResponse(jsonResponse(status, {}), 'GitLab');
+
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error).toMatchObject({ code, status });
+  });
+
+  it('falls back to an unknown error for other statuses', async () => {
+    const error = await createErrorFromResponse(new Response('', { status: 502 }), 'Jira');
+
+    expect(error.constructor).toBe(IssueReporterError);
+    expect(error).toMatchObject({ code: 'unknown', status: 502, message: 'Jira: HTTP 502' });
+  });
+
+  it('treats a GitHub 403 with no remaining requests as a rate limit', async () => {
+    const reset = String(Math.floor(Date.now() / 1000) + 60);
+    const error = await createErrorFromResponse(
+      jsonResponse(403, { message: 'API rate limit exceeded' }, { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': reset }),
+      'GitHub'
+    );
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).retryAfter).toBeGreaterThan(0);
+    expect((error as RateLimitError).retryAfter).toBeLessThanOrEqual(60);
+  });
+
+  it('reads Retry-After in seconds', async () => {
+    const error = await createErrorFromResponse(jsonResponse(429, {}, { 'Retry-After': '30' }), 'GitLab');
+
+    expect((error as RateLimitError).retryAfter).toBe(30);
+  });
+
+  it.each([
+    ['GitLab', { message: { title: ['is too long'] } }, ['title: is too long']],
+    ['GitHub', { message: 'Validation Failed', errors: [{ field: 'title', code: 'missing' }] }, ['Validation Failed', 'title: missing']],
+    ['Jira', { errorMessages: [], errors: { summary: 'Summary is required' } }, ['summary: Summary is required']],
+  ])('collects the details of a %s error payload', async (tracker, body, details) => {
+    const error = await createErrorFromResponse(jsonResponse(422, body), tracker);
+
+    expect((error as ValidationError).details).toEqual(details);
+    expect(error.message).toBe(`${tracker}: ${details[0]}`);
+  });
+
+  it('uses the status text when the body is not JSON', async () => {
+    const error = await createErrorFromResponse(new Response('<html>', { status: 401, statusText: 'Unauthorized' }), 'GitLab');
+
+    expect(error.message).toBe('GitLab: Unauthorized');
+  });
+});
+
+describe('toIssueReporterError', () => {
+  it('turns a fetch TypeError into a network error', () => {
+    expect(toIssueReporterError(new TypeError('Failed to fetch'))).toBeInstanceOf(NetworkError);
+  });
+
+  it('keeps errors that are already typed', () => {
+    const error = new ValidationError();
+
+    expect(toIssueReporterError(error)).toBe(error);
+  });
+});
+
+describe('getErrorMessage', () => {
+  it('fills the retry delay into a custom rate limit label', () => {
+    const message = getErrorMessage(new RateLimitError('Slow down', 30), { errorRateLimited: 'Wait {retryAfter} s' });
+
+    expect(message).toBe('Wait 30 s');
+  });
+});
@@ -0,0 +1,274 @@
+import { TextLabels } from '../types';
+
+export type IssueReporterErrorCode =
+  | 'authentication'
+  | 'permission'
+  | 'rate-limited'
+  | 'validation'
+  | 'payload-too-large'
+  | 'network'
+  | 'unknown';
+
+/**
+ * Base class for all errors thrown by adapters
+ */
+export class IssueReporterError extends Error {
+  readonly code: IssueReporterErrorCode;
+  readonly status?: number;
+
+  constructor(message: string, code: IssueReporterErrorCode = 'unknown', status?: number) {
+    super(message);
+    this.name = 'IssueReporterError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+/**
+ * The access token is missing, invalid or expired (HTTP 401)
+ */
+export class AuthenticationError extends IssueReporterError {
+  constructor(message = 'Authentication with the issue tracker failed', status = 401) {
+    super(message, 'authentication', status);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * The token is valid but may not create issues or upload files (HTTP 403)
+ */
+export class PermissionDeniedError extends IssueReporterError {
+  constructor(message = 'Permission denied by the issue tracker', status = 403) {
+    super(message, 'permission', status);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+/**
+ * Too many requests, retryAfter is given in seconds when the tracker reports it
+ */
+export class RateLimitError extends IssueReporterError {
+  readonly retryAfter?: number;
+
+  constructor(message = 'Rate limit exceeded', retryAfter?: number, status = 429) {
+    super(message, 'rate-limited', status);
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * The tracker rejected the submitted fields (HTTP 400/422)
+ */
+export class ValidationError extends IssueReporterError {
+  readonly details: string[];
+
+  constructor(message = 'The issue was rejected as invalid', details: string[] = [], status = 422) {
+    super(message, 'validation', status);
+    this.name = 'ValidationError';
+    this.details = details;
+  }
+}
+
+/**
+ * The issue body or an upload exceeds the tracker's size limit (HTTP 413)
+ */
+export class PayloadTooLargeError extends IssueReporterError {
+  constructor(message = 'The report is too large', status = 413) {
+    super(message, 'payload-too-large', status);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+/**
+ * The tracker could not be reached at all
+ */
+export class NetworkError extends IssueReporterError {
+  constructor(message = 'Could not reach the issue tracker') {
+    super(message, 'network');
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Extracts error messages from the common tracker error payloads
+ * (GitLab `message`/`error`, GitHub `message`/`errors`, Jira `errorMessages`/`errors`)
+ */
+async function readErrorDetails(response: Response): Promise<string[]> {
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch {
+    return [];
+  }
+
+  const details: string[] = [];
+  const collect = (value: unknown) => {
+    if (typeof value === 'string') {
+      details.push(value);
+    } else if (Array.isArray(value)) {
+      value.forEach(collect);
+    } else if (value && typeof value === 'object') {
+      const entry = value as Record<string, unknown>;
+      if (typeof entry.message === 'string') {
+        details.push(entry.message);
+      } else if (typeof entry.code === 'string' && typeof entry.field === 'string') {
+        details.push(`${entry.field}: ${entry.code}`);
+      } else {
+        // Field errors, e.g. GitLab `{ title: ['is too long'] }` or Jira `{ summary: 'is required' }`
+        Object.entries(entry).forEach(([key, v]) => {
+          const messages = Array.isArray(v) ? v : [v];
+          messages.forEach((message) => {
+            if (typeof message === 'string') details.push(`${key}: ${message}`);
+            else collect(message);
+          });
+        });
+      }
+    }
+  };
+
+  if (!body || typeof body !== 'object') return details;
+
+  const payload = body as Record<string, unknown>;
+  collect(payload.message);
+  collect(payload.error);
+  collect(payload.errorMessages);
+  collect(payload.errors);
+
+  return details;
+}
+
+/**
+ * Parses Retry-After (seconds or HTTP date) or X-RateLimit-Reset (epoch seconds)
+ */
+function getRetryAfter(response: Response): number | undefined {
+  const retryAfter = response.headers.get('Retry-After');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) {
+      return seconds;
+    }
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+      return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+    }
+  }
+
+  const reset = response.headers.get('X-RateLimit-Reset') || response.headers.get('RateLimit-Reset');
+  if (reset && !isNaN(Number(reset))) {
+    return Math.max(0, Math.ceil(Number(reset) - Date.now() / 1000));
+  }
+
+  return undefined;
+}
+
+/**
+ * Maps a failed tracker response to the matching error class
+ * @param response The non-ok response
+ * @param tracker Tracker name used in the error message
+ */
+export async function createErrorFromResponse(
+  response: Response,
+  tracker: string
+): Promise<IssueReporterError> {
+  const details = await readErrorDetails(response);
+  const message = `${tracker}: ${details[0] || response.statusText || `HTTP ${response.status}`}`;
+  const status = response.status;
+
+  // GitHub signals exhausted rate limits with 403 and a zero remaining count
+  const rateLimitExhausted = response.headers.get('X-RateLimit-Remaining') === '0';
+
+  if (status === 429 || (status === 403 && rateLimitExhausted)) {
+    return new RateLimitError(message, getRetryAfter(response), status);
+  }
+  if (status === 401) {
+    return new AuthenticationError(message, status);
+  }
+  if (status === 403) {
+    return new PermissionDeniedError(message, status);
+  }
+  if (status === 413) {
+    return new PayloadTooLargeError(message, status);
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, details, status);
+  }
+
+  return new IssueReporterError(message, 'unknown', status);
+}
+
+/**
+ * Performs a tracker request, throwing typed errors for network and HTTP failures
+ * @param tracker Tracker name used in error messages
+ */
+export async function fetchOrThrow(url: string, init: RequestInit, tracker: string): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    throw new NetworkError(`${tracker}: ${error instanceof Error ? error.message : 'Network request failed'}`);
+  }
+
+  if (!response.ok) {
+    throw await createErrorFromResponse(response, tracker);
+  }
+
+  return response;
+}
+
+/**
+ * Normalizes anything thrown during submission into an IssueReporterError
+ */
+export function toIssueReporterError(error: unknown): IssueReporterError {
+  if (error instanceof IssueReporterError) {
+    return error;
+  }
+  // fetch rejects with a TypeError when the request never reaches the server
+  if (error instanceof TypeError) {
+    return new NetworkError(error.message);
+  }
+  return new IssueReporterError(error instanceof Error ? error.message : 'Unknown error');
+}
+
+/**
+ * Default user-facing error messages
+ */
+export const DEFAULT_ERROR_MESSAGES = {
+  errorAuthentication: 'The issue tracker rejected the credentials. Please contact the site administrator.',
+  errorPermission: 'Reporting issues is not permitted with the current configuration.',
+  errorRateLimited: 'Too many reports in a short time. Please try again later.',
+  errorValidation: 'The issue tracker rejected the report. Please check your input.',
+  errorPayloadTooLarge: 'The report is too large. Try removing or cropping the screenshot.',
+  errorNetwork: 'Could not reach the server. Please check your connection and try again.',
+  errorGeneric: 'Failed to submit feedback. Please try again.',
+};
+
+/**
+ * Resolves the user-facing message for an error, honoring custom text labels
+ * Rate limit labels may contain a `{retryAfter}` placeholder (seconds)
+ */
+export function getErrorMessage(error: unknown, textLabels?: TextLabels): string {
+  const labels = { ...DEFAULT_ERROR_MESSAGES, ...textLabels };
+  const err = toIssueReporterError(error);
+
+  switch (err.code) {
+    case 'authentication':
+      return labels.errorAuthentication;
+    case 'permission':
+      return labels.errorPermission;
+    case 'rate-limited': {
+      const retryAfter = (err as RateLimitError).retryAfter;
+      return retryAfter !== undefined
+        ? labels.errorRateLimited.replace('{retryAfter}', String(retryAfter))
+        : labels.errorRateLimited;
+    }
+    case 'validation':
+      return labels.errorValidation;
+    case 'payload-too-large':
+      return labels.errorPayloadTooLarge;
+    case 'network':
+      return labels.errorNetwork;
+    default:
+      return labels.errorGeneric;
+  }
+}
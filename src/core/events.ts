@@ -0,0 +1,31 @@
+export type Listener<T> = (payload: T) => void;
+
+/**
+ * Minimal typed event emitter
+ * `on` returns an unsubscribe function, which makes it easy to use in React effects
+ */
+export class EventEmitter<Events extends Record<string, unknown>> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    if (!this.listeners[event]) {
+      this.listeners[event] = new Set();
+    }
+    this.listeners[event]!.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    this.listeners[event]?.forEach((listener) => {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`[issue-reporter] Error in "${String(event)}" listener:`, error);
+      }
+    });
+  }
+}
@@ -0,0 +1,90 @@
+import { FieldDefinition, collectFieldValues, getFieldLabels, validateFields } from './fields';
+
+const fields: FieldDefinition[] = [
+  { name: 'severity', type: 'select', label: 'Severity', required: true, options: ['low', 'high'] },
+  { name: 'email', type: 'email', label: 'Email' },
+  { name: 'steps', type: 'textarea', label: 'Steps to reproduce', minLength: 10, maxLength: 200 },
+  { name: 'ticket', type: 'text', label: 'Ticket', pattern: '[A-Z]+-\\d+' },
+  { name: 'consent', type: 'checkbox', label: 'I agree', required: true },
+];
+
+describe('validateFields', () => {
+  it('returns no errors for valid values', () => {
+    expect(validateFields(fields, {
+      severity: 'high',
+      email: ' jane@example.com ',
+      steps: 'Open the cart and pay',
+      ticket: 'SHOP-42',
+      consent: true,
+    })).toEqual({});
+  });
+
+  it('requires required fields, including checked checkboxes', () => {
+    expect(validateFields(fields, { severity: '  ', consent: false })).toEqual({
+      severity: 'This field is required',
+      consent: 'This field is required',
+    });
+  });
+
+  it('skips the other rules for empty optional fields', () => {
+    expect(validateFields(fields, { severity: 'low', email: '', steps: '', consent: true })).toEqual({});
+  });
+
+  it('checks emails, lengths and patterns on the trimmed value', () => {
+    expect(validateFields(fields, {
+      severity: 'low',
+      email: 'jane@',
+      steps: '  too short  ',
+      ticket: 'shop-42',
+      consent: true,
+    })).toEqual({
+      email: 'Please enter a valid email address',
+      steps: 'Please enter at least 10 characters',
+      ticket: 'Please match the requested format',
+    });
+  });
+
+  it('fills the limit into the length messages', () => {
+    const errors = validateFields(
+      [{ name: 'summary', type: 'text', label: 'Summary', maxLength: 5 }],
+      { summary: 'Far too long' },
+      { maxLength: 'No more than {max} characters' }
+    );
+
+    expect(errors).toEqual({ summary: 'No more than 5 characters' });
+  });
+
+  it('prefers the field error message over the messages', () => {
+    const errors = validateFields(
+      [{ name: 'severity', type: 'select', label: 'Severity', required: true, errorMessage: 'Pick a severity' }],
+      {},
+      { required: 'Required' }
+    );
+
+    expect(errors).toEqual({ severity: 'Pick a severity' });
+  });
+
+  it('runs the custom rule with all values', () => {
+    const validate = jest.fn((value, values) => (value === values.other ? 'Must differ' : null));
+
+    const errors = validateFields([{ name: 'first', type: 'text', label: 'First', validate }], { first: 'a', other: 'a' });
+
+    expect(errors).toEqual({ first: 'Must differ' });
+    expect(validate).toHaveBeenCalledWith('a', { first: 'a', other: 'a' });
+  });
+});
+
+describe('collectFieldValues', () => {
+  it('trims strings, keeps unchecked checkboxes and leaves out empty fields', () => {
+    expect(collectFieldValues(fields, { severity: ' high ', email: '', consent: false })).toEqual({
+      severity: 'high',
+      consent: false,
+    });
+  });
+});
+
+describe('getFieldLabels', () => {
+  it('maps field names to labels', () => {
+    expect(getFieldLabels(fields.slice(0, 2))).toEqual({ severity: 'Severity', email: 'Email' });
+  });
+});
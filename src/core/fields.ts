@@ -0,0 +1,202 @@
+/**
+ * Value of a custom field: text, selected option(s) or checkbox state
+ */
+export type FieldValue = string | string[] | boolean;
+
+export type FieldType = 'text' | 'textarea' | 'select' | 'radio' | 'checkbox' | 'email';
+
+export interface FieldOption {
+  value: string;
+  label?: string;
+}
+
+/**
+ * A custom form field shown in the modal below the description
+ */
+export interface FieldDefinition {
+  /**
+   * Key in `FeedbackData.fields`
+   */
+  name: string;
+  type: FieldType;
+  label: string;
+  placeholder?: string;
+  /**
+   * Text shown below the field
+   */
+  hint?: string;
+  /**
+   * A required checkbox must be checked
+   */
+  required?: boolean;
+  /**
+   * Choices for select and radio fields
+   */
+  options?: (string | FieldOption)[];
+  /**
+   * Select: allow choosing several options
+   */
+  multiple?: boolean;
+  defaultValue?: FieldValue;
+  minLength?: number;
+  maxLength?: number;
+  /**
+   * Text and textarea: the whole value must match
+   */
+  pattern?: string | RegExp;
+  /**
+   * Custom rule; return an error message or nothing when the value is valid
+   */
+  validate?: (value: FieldValue, values: Record<string, FieldValue>) => string | null | undefined;
+  /**
+   * Replaces the message of the built-in rules (required, email, length, pattern)
+   */
+  errorMessage?: string;
+}
+
+/**
+ * Messages of the built-in rules; `{min}` and `{max}` are replaced with the limits
+ */
+export interface FieldValidationMessages {
+  required?: string;
+  email?: string;
+  minLength?: string;
+  maxLength?: string;
+  pattern?: string;
+}
+
+const DEFAULT_MESSAGES: Required<FieldValidationMessages> = {
+  required: 'This field is required',
+  email: 'Please enter a valid email address',
+  minLength: 'Please enter at least {min} characters',
+  maxLength: 'Please enter at most {max} characters',
+  pattern: 'Please match the requested format',
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Options as value/label pairs
+ */
+export function getFieldOptions(field: FieldDefinition): Required<FieldOption>[] {
+  return (field.options || []).map((option) =>
+    typeof option === 'string'
+      ? { value: option, label: option }
+      : { value: option.value, label: option.label || option.value }
+  );
+}
+
+/**
+ * Labels by field name, so adapters can show the labels the user saw
+ */
+export function getFieldLabels(fields: FieldDefinition[] = []): Record<string, string> {
+  const labels: Record<string, string> = {};
+  fields.forEach((field) => {
+    labels[field.name] = field.label;
+  });
+  return labels;
+}
+
+/**
+ * Initial values from the defaults; empty strings, empty lists or false otherwise
+ */
+export function getInitialFieldValues(fields: FieldDefinition[] = []): Record<string, FieldValue> {
+  const values: Record<string, FieldValue> = {};
+  fields.forEach((field) => {
+    if (field.defaultValue !== undefined) {
+      values[field.name] = field.defaultValue;
+    } else if (field.type === 'checkbox') {
+      values[field.name] = false;
+    } else if (field.type === 'select' && field.multiple) {
+      values[field.name] = [];
+    } else {
+      values[field.name] = '';
+    }
+  });
+  return values;
+}
+
+function isEmpty(value: FieldValue | undefined): boolean {
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'boolean') return !value;
+  return !value || !value.trim();
+}
+
+/**
+ * Validates a single field
+ * @returns The error message, or null when the value is valid
+ */
+export function validateField(
+  field: FieldDefinition,
+  value: FieldValue | undefined,
+  values: Record<string, FieldValue> = {},
+  messages: FieldValidationMessages = {}
+): string | null {
+  const message = (rule: keyof FieldValidationMessages) =>
+    field.errorMessage || messages[rule] || DEFAULT_MESSAGES[rule];
+
+  if (isEmpty(value)) {
+    return field.required ? message('required') : null;
+  }
+
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (field.type === 'email' && !EMAIL_PATTERN.test(trimmed)) {
+      return message('email');
+    }
+    if (field.minLength !== undefined && trimmed.length < field.minLength) {
+      return message('minLength').replace('{min}', String(field.minLength));
+    }
+    if (field.maxLength !== undefined && trimmed.length > field.maxLength) {
+      return message('maxLength').replace('{max}', String(field.maxLength));
+    }
+    if (field.pattern) {
+      const pattern = typeof field.pattern === 'string' ? new RegExp(`^(?:${field.pattern})$`) : field.pattern;
+      if (!pattern.test(trimmed)) {
+        return message('pattern');
+      }
+    }
+  }
+
+  return field.validate?.(value as FieldValue, values) || null;
+}
+
+/**
+ * Validates all fields
+ * @returns Error messages by field name; empty when everything is valid
+ */
+export function validateFields(
+  fields: FieldDefinition[],
+  values: Record<string, FieldValue>,
+  messages?: FieldValidationMessages
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  fields.forEach((field) => {
+    const error = validateField(field, values[field.name], values, messages);
+    if (error) {
+      errors[field.name] = error;
+    }
+  });
+  return errors;
+}
+
+/**
+ * Values to submit: strings trimmed, empty fields left out
+ * @returns The values, or undefined when no field was filled in
+ */
+export function collectFieldValues(
+  fields: FieldDefinition[],
+  values: Record<string, FieldValue>
+): Record<string, FieldValue> | undefined {
+  const result: Record<string, FieldValue> = {};
+  fields.forEach((field) => {
+    const value = values[field.name];
+    if (field.type === 'checkbox') {
+      // An unchecked checkbox is an answer too
+      result[field.name] = !!value;
+    } else if (!isEmpty(value)) {
+      result[field.name] = typeof value === 'string' ? value.trim() : value;
+    }
+  });
+  return Object.keys(result).length > 0 ? result : undefined;
+}
@@ -0,0 +1,83 @@
+import { FeedbackData } from '../types';
+
+/**
+ * Multipart field names shared by the ProxyAdapter and the server handler
+ */
+export const FEEDBACK_FIELDS = {
+  title: 'title',
+  description: 'description',
+  labels: 'labels',
+  metadata: 'metadata',
+  screenshot: 'screenshot',
+  logs: 'logs',
+  networkRequests: 'networkRequests',
+  sessionRecording: 'sessionRecording',
+  video: 'video',
+  attachments: 'attachments',
+  fields: 'fields',
+  fieldLabels: 'fieldLabels',
+  reporter: 'reporter',
+  /**
+   * Set when the report is a comment on this issue instead of a new issue
+   */
+  issueId: 'issueId',
+} as const;
+
+/**
+ * Serializes feedback into a multipart body
+ * Structured values are sent as JSON strings, the screenshot, video and attachments as file parts
+ */
+export function feedbackToFormData(feedback: FeedbackData): FormData {
+  const formData = new FormData();
+  formData.append(FEEDBACK_FIELDS.title, feedback.title);
+  formData.append(FEEDBACK_FIELDS.description, feedback.description);
+
+  if (feedback.labels && feedback.labels.length > 0) {
+    formData.append(FEEDBACK_FIELDS.labels, JSON.stringify(feedback.labels));
+  }
+
+  if (feedback.metadata) {
+    formData.append(FEEDBACK_FIELDS.metadata, JSON.stringify(feedback.metadata));
+  }
+
+  if (feedback.fields && Object.keys(feedback.fields).length > 0) {
+    formData.append(FEEDBACK_FIELDS.fields, JSON.stringify(feedback.fields));
+  }
+
+  if (feedback.fieldLabels && Object.keys(feedback.fieldLabels).length > 0) {
+    formData.append(FEEDBACK_FIELDS.fieldLabels, JSON.stringify(feedback.fieldLabels));
+  }
+
+  if (feedback.reporter) {
+    formData.append(FEEDBACK_FIELDS.reporter, JSON.stringify(feedback.reporter));
+  }
+
+  if (feedback.logs && feedback.logs.length > 0) {
+    formData.append(FEEDBACK_FIELDS.logs, JSON.stringify(feedback.logs));
+  }
+
+  if (feedback.networkRequests && feedback.networkRequests.length > 0) {
+    formData.append(FEEDBACK_FIELDS.networkRequests, JSON.stringify(feedback.networkRequests));
+  }
+
+  if (feedback.sessionRecording) {
+    formData.append(FEEDBACK_FIELDS.sessionRecording, JSON.stringify(feedback.sessionRecording));
+  }
+
+  if (feedback.screenshot) {
+    formData.append(FEEDBACK_FIELDS.screenshot, feedback.screenshot, 'feedback_screenshot.png');
+  }
+
+  if (feedback.video) {
+    formData.append(FEEDBACK_FIELDS.video, feedback.video, 'screen-recording.webm');
+  }
+
+  feedback.attachments?.forEach((attachment) => {
+    const file = attachment.data.type === attachment.type
+      ? attachment.data
+      : new Blob([attachment.data], { type: attachment.type });
+    formData.append(FEEDBACK_FIELDS.attachments, file, attachment.filename);
+  });
+
+  return formData;
+}
@@ -0,0 +1,94 @@
+import { NetworkEntry, createHar } from './network';
+
+function createEntry(overrides: Partial<NetworkEntry> = {}): NetworkEntry {
+  return {
+    method: 'GET',
+    url: 'https://api.example/orders?page=2&sort=date',
+    status: 200,
+    statusText: 'OK',
+    startedAt: '2024-05-01T10:00:00.000Z',
+    duration: 120,
+    requestHeaders: { accept: 'application/json' },
+    responseHeaders: { 'content-type': 'application/json' },
+    ...overrides,
+  };
+}
+
+type HarEntry = {
+  request: Record<string, unknown>;
+  response: Record<string, unknown> & { content: Record<string, unknown> };
+};
+
+function harEntries(entries: NetworkEntry[]): HarEntry[] {
+  return (createHar(entries).log as { entries: HarEntry[] }).entries;
+}
+
+describe('createHar', () => {
+  it('creates a HAR 1.2 log', () => {
+    const har = createHar([createEntry()]);
+
+    expect(har.log).toMatchObject({ version: '1.2', pages: [], entries: [expect.any(Object)] });
+  });
+
+  it('converts the request and response', () => {
+    const [entry] = harEntries([createEntry()]);
+
+    expect(entry).toMatchObject({
+      startedDateTime: '2024-05-01T10:00:00.000Z',
+      time: 120,
+      request: {
+        method: 'GET',
+        url: 'https://api.example/orders?page=2&sort=date',
+        headers: [{ name: 'accept', value: 'application/json' }],
+        queryString: [{ name: 'page', value: '2' }, { name: 'sort', value: 'date' }],
+        bodySize: -1,
+      },
+      response: {
+        status: 200,
+        statusText: 'OK',
+        headers: [{ name: 'content-type', value: 'application/json' }],
+        content: { size: -1, mimeType: '' },
+      },
+      timings: { send: 0, wait: 120, receive: 0 },
+    });
+    expect(entry.request).not.toHaveProperty('postData');
+    expect(entry.response.content).not.toHaveProperty('text');
+  });
+
+  it('includes recorded bodies', () => {
+    const [entry] = harEntries([createEntry({
+      method: 'POST',
+      requestHeaders: { 'content-type': 'application/json' },
+      requestBody: '{"id":1}',
+      responseBody: '{"ok":true}',
+      mimeType: 'application/json',
+    })]);
+
+    expect(entry.request).toMatchObject({
+      postData: { mimeType: 'application/json', text: '{"id":1}' },
+      bodySize: 8,
+    });
+    expect(entry.response.content).toEqual({ size: 11, mimeType: 'application/json', text: '{"ok":true}' });
+  });
+
+  it('keeps the error of a request that failed without a response', () => {
+    const [entry] = harEntries([createEntry({ status: 0, statusText: '', error: 'Failed to fetch' })]);
+
+    expect(entry.response).toMatchObject({ status: 0, _error: 'Failed to fetch' });
+  });
+
+  it('redacts token-like parameters in the URL and query string', () => {
+    const [entry] = harEntries([createEntry({ url: 'https://api.example/session?token=abc&page=2' })]);
+
+    expect(entry.request).toMatchObject({
+      url: 'https://api.example/session?token=REDACTED&page=2',
+      queryString: [{ name: 'token', value: 'REDACTED' }, { name: 'page', value: '2' }],
+    });
+  });
+
+  it('leaves the query string empty for relative URLs', () => {
+    const [entry] = harEntries([createEntry({ url: '/api/orders?page=2' })]);
+
+    expect(entry.request).toMatchObject({ url: '/api/orders?page=2', queryString: [] });
+  });
+});
@@ -0,0 +1,449 @@
+import { PrivacyOptions, redactUrl } from './privacy';
+
+export interface NetworkEntry {
+  method: string;
+  url: string;
+  /**
+   * HTTP status, 0 when the request failed without a response
+   */
+  status: number;
+  statusText: string;
+  startedAt: string;
+  /**
+   * Duration in milliseconds
+   */
+  duration: number;
+  requestHeaders: Record<string, string>;
+  responseHeaders: Record<string, string>;
+  requestBody?: string;
+  responseBody?: string;
+  mimeType?: string;
+  error?: string;
+}
+
+export interface NetworkRecorderOptions {
+  /**
+   * Size of the ring buffer (default: 50)
+   */
+  maxEntries?: number;
+  /**
+   * Record request and response bodies (default: false)
+   */
+  recordBodies?: boolean;
+  /**
+   * Bodies are truncated to this length (default: 2000)
+   */
+  maxBodyLength?: number;
+  /**
+   * Header names whose values are replaced (case-insensitive), added to the defaults
+   */
+  redactHeaders?: string[];
+  /**
+   * JSON body keys whose values are replaced (case-insensitive), added to the defaults
+   */
+  redactBodyKeys?: string[];
+  /**
+   * Rewrites URLs before they are stored, after the privacy rules redacted their parameters
+   */
+  redactUrl?: (url: string) => string;
+  /**
+   * Requests matching any of these are not recorded
+   */
+  ignoreUrls?: (string | RegExp)[];
+}
+
+const REDACTED = '[REDACTED]';
+
+const DEFAULT_REDACT_HEADERS = [
+  'authorization',
+  'cookie',
+  'set-cookie',
+  'proxy-authorization',
+  'private-token',
+  'x-api-key',
+  'x-auth-token',
+  'x-csrf-token',
+];
+
+const DEFAULT_REDACT_BODY_KEYS = ['password', 'token', 'access_token', 'refresh_token', 'secret', 'apikey', 'api_key'];
+
+/**
+ * Parses the raw header block returned by XMLHttpRequest.getAllResponseHeaders
+ */
+function parseRawHeaders(raw: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  raw.trim().split(/[\r\n]+/).forEach((line) => {
+    const index = line.indexOf(':');
+    if (index > 0) {
+      headers[line.slice(0, index).trim().toLowerCase()] = line.slice(index + 1).trim();
+    }
+  });
+  return headers;
+}
+
+/**
+ * Records fetch and XMLHttpRequest traffic in a ring buffer
+ */
+export class NetworkRecorder {
+  private options: Required<Omit<NetworkRecorderOptions, 'redactUrl'>> & Pick<NetworkRecorderOptions, 'redactUrl'>;
+  private privacy: PrivacyOptions;
+  private entries: NetworkEntry[] = [];
+  private recording = false;
+  private originalFetch: typeof fetch | null = null;
+  private originalOpen: typeof XMLHttpRequest.prototype.open | null = null;
+  private originalSend: typeof XMLHttpRequest.prototype.send | null = null;
+  private originalSetRequestHeader: typeof XMLHttpRequest.prototype.setRequestHeader | null = null;
+
+  /**
+   * @param privacy URL redaction rules shared with the system metadata
+   */
+  constructor(options: NetworkRecorderOptions = {}, privacy: PrivacyOptions = {}) {
+    this.privacy = privacy;
+    this.options = {
+      maxEntries: options.maxEntries || 50,
+      recordBodies: options.recordBodies || false,
+      maxBodyLength: options.maxBodyLength || 2000,
+      redactHeaders: [...DEFAULT_REDACT_HEADERS, ...(options.redactHeaders || [])].map((h) => h.toLowerCase()),
+      redactBodyKeys: [...DEFAULT_REDACT_BODY_KEYS, ...(options.redactBodyKeys || [])].map((k) => k.toLowerCase()),
+      redactUrl: options.redactUrl,
+      ignoreUrls: options.ignoreUrls || [],
+    };
+  }
+
+  /**
+   * Patches window.fetch and XMLHttpRequest
+   */
+  start(): void {
+    if (this.recording) return;
+    this.recording = true;
+    this.patchFetch();
+    this.patchXhr();
+  }
+
+  /**
+   * Restores the original fetch and XMLHttpRequest implementations
+   */
+  stop(): void {
+    if (!this.recording) return;
+    this.recording = false;
+
+    if (this.originalFetch) {
+      window.fetch = this.originalFetch;
+      this.originalFetch = null;
+    }
+    if (this.originalOpen && this.originalSend && this.originalSetRequestHeader) {
+      XMLHttpRequest.prototype.open = this.originalOpen;
+      XMLHttpRequest.prototype.send = this.originalSend;
+      XMLHttpRequest.prototype.setRequestHeader = this.originalSetRequestHeader;
+      this.originalOpen = null;
+      this.originalSend = null;
+      this.originalSetRequestHeader = null;
+    }
+  }
+
+  /**
+   * Returns a copy of the recorded requests, oldest first
+   */
+  getEntries(): NetworkEntry[] {
+    return [...this.entries];
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+
+  /**
+   * Exports the recorded requests as a HAR 1.2 log
+   */
+  toHar(): Record<string, unknown> {
+    return createHar(this.entries);
+  }
+
+  private shouldIgnore(url: string): boolean {
+    return this.options.ignoreUrls.some((pattern) =>
+      typeof pattern === 'string' ? url.includes(pattern) : pattern.test(url)
+    );
+  }
+
+  private redactHeaders(headers: Record<string, string>): Record<string, string> {
+    const result: Record<string, string> = {};
+    Object.entries(headers).forEach(([name, value]) => {
+      result[name] = this.options.redactHeaders.includes(name.toLowerCase()) ? REDACTED : value;
+    });
+    return result;
+  }
+
+  private redactBody(body: string | undefined): string | undefined {
+    if (!this.options.recordBodies || body === undefined) return undefined;
+
+    let result = body;
+    try {
+      const redactKeys = this.options.redactBodyKeys;
+      const redact = (value: unknown): unknown => {
+        if (Array.isArray(value)) return value.map(redact);
+        if (value && typeof value === 'object') {
+          return Object.fromEntries(Object.entries(value).map(([key, v]) => [
+            key,
+            redactKeys.includes(key.toLowerCase()) ? REDACTED : redact(v),
+          ]));
+        }
+        return value;
+      };
+      result = JSON.stringify(redact(JSON.parse(body)));
+    } catch {
+      // Not JSON, keep the body as is
+    }
+
+    return result.length > this.options.maxBodyLength
+      ? `${result.slice(0, this.options.maxBodyLength)}…`
+      : result;
+  }
+
+  private record(entry: NetworkEntry) {
+    const url = redactUrl(entry.url, this.privacy);
+    this.entries.push({
+      ...entry,
+      url: this.options.redactUrl ? this.options.redactUrl(url) : url,
+      requestHeaders: this.redactHeaders(entry.requestHeaders),
+      responseHeaders: this.redactHeaders(entry.responseHeaders),
+      requestBody: this.redactBody(entry.requestBody),
+      responseBody: this.redactBody(entry.responseBody),
+    });
+
+    if (this.entries.length > this.options.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.options.maxEntries);
+    }
+  }
+
+  private patchFetch() {
+    if (typeof window.fetch !== 'function') return;
+
+    const originalFetch = window.fetch;
+    this.originalFetch = originalFetch;
+    const recorder = this;
+
+    window.fetch = async function (input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+      // Read request details without constructing a Request, which would consume the body
+      const inputRequest = input instanceof Request ? input : null;
+      const url = inputRequest ? inputRequest.url : new URL(String(input), window.location.href).href;
+      if (recorder.shouldIgnore(url)) {
+        return originalFetch.call(window, input, init);
+      }
+
+      const method = (init?.method || inputRequest?.method || 'GET').toUpperCase();
+      const started = Date.now();
+      const requestHeaders: Record<string, string> = {};
+      new Headers(init?.headers || inputRequest?.headers).forEach((value, name) => {
+        requestHeaders[name] = value;
+      });
+      const requestBody = typeof init?.body === 'string' ? init.body : undefined;
+
+      try {
+        const response = await originalFetch.call(window, input, init);
+
+        const responseHeaders: Record<string, string> = {};
+        response.headers.forEach((value, name) => {
+          responseHeaders[name] = value;
+        });
+        const mimeType = response.headers.get('content-type') || undefined;
+
+        let responseBody: string | undefined;
+        if (recorder.options.recordBodies && mimeType && /json|text|xml/.test(mimeType)) {
+          try {
+            responseBody = await response.clone().text();
+          } catch {
+            // Body unavailable (e.g. opaque response)
+          }
+        }
+
+        recorder.record({
+          method,
+          url,
+          status: response.status,
+          statusText: response.statusText,
+          startedAt: new Date(started).toISOString(),
+          duration: Date.now() - started,
+          requestHeaders,
+          responseHeaders,
+          requestBody,
+          responseBody,
+          mimeType,
+        });
+
+        return response;
+      } catch (error) {
+        recorder.record({
+          method,
+          url,
+          status: 0,
+          statusText: '',
+          startedAt: new Date(started).toISOString(),
+          duration: Date.now() - started,
+          requestHeaders,
+          responseHeaders: {},
+          requestBody,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    };
+  }
+
+  private patchXhr() {
+    if (typeof XMLHttpRequest === 'undefined') return;
+
+    const proto = XMLHttpRequest.prototype;
+    const originalOpen = proto.open;
+    const originalSend = proto.send;
+    const originalSetRequestHeader = proto.setRequestHeader;
+    this.originalOpen = originalOpen;
+    this.originalSend = originalSend;
+    this.originalSetRequestHeader = originalSetRequestHeader;
+    const recorder = this;
+
+    type TrackedXhr = XMLHttpRequest & {
+      __feedbackRequest?: { method: string; url: string; headers: Record<string, string> };
+    };
+
+    proto.open = function (this: TrackedXhr, method: string, url: string | URL, ...rest: unknown[]) {
+      this.__feedbackRequest = {
+        method: method.toUpperCase(),
+        url: new URL(String(url), window.location.href).href,
+        headers: {},
+      };
+      return (originalOpen as (...args: unknown[]) => void).call(this, method, url, ...rest);
+    } as typeof proto.open;
+
+    proto.setRequestHeader = function (this: TrackedXhr, name: string, value: string) {
+      if (this.__feedbackRequest) {
+        this.__feedbackRequest.headers[name.toLowerCase()] = value;
+      }
+      return originalSetRequestHeader.call(this, name, value);
+    };
+
+    proto.send = function (this: TrackedXhr, body?: Document | XMLHttpRequestBodyInit | null) {
+      const info = this.__feedbackRequest;
+      if (info && !recorder.shouldIgnore(info.url)) {
+        const started = Date.now();
+        this.addEventListener('loadend', () => {
+          const mimeType = this.getResponseHeader('content-type') || undefined;
+          const textResponse = this.responseType === '' || this.responseType === 'text';
+          recorder.record({
+            method: info.method,
+            url: info.url,
+            status: this.status,
+            statusText: this.statusText,
+            startedAt: new Date(started).toISOString(),
+            duration: Date.now() - started,
+            requestHeaders: info.headers,
+            responseHeaders: parseRawHeaders(this.getAllResponseHeaders()),
+            requestBody: typeof body === 'string' ? body : undefined,
+            responseBody: textResponse ? this.responseText : undefined,
+            mimeType,
+            error: this.status === 0 ? 'Request failed' : undefined,
+          });
+        });
+      }
+      return originalSend.call(this, body);
+    };
+  }
+}
+
+/**
+ * Converts recorded requests into a HAR 1.2 log
+ * URLs are redacted with the default parameter rules, also for entries that were not recorded here
+ */
+export function createHar(entries: NetworkEntry[]): Record<string, unknown> {
+  const toHarHeaders = (headers: Record<string, string>) =>
+    Object.entries(headers).map(([name, value]) => ({ name, value }));
+
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: '@biowilli/issue-reporter', version: '1.0' },
+      pages: [],
+      entries: entries.map((entry) => {
+        const url = redactUrl(entry.url);
+        const queryString: { name: string; value: string }[] = [];
+        try {
+          new URL(url).searchParams.forEach((value, name) => {
+            queryString.push({ name, value });
+          });
+        } catch {
+          // Relative or malformed URL
+        }
+
+        return {
+          startedDateTime: entry.startedAt,
+          time: entry.duration,
+          request: {
+            method: entry.method,
+            url,
+            httpVersion: 'HTTP/1.1',
+            cookies: [],
+            headers: toHarHeaders(entry.requestHeaders),
+            queryString,
+            ...(entry.requestBody !== undefined
+              ? { postData: { mimeType: entry.requestHeaders['content-type'] || '', text: entry.requestBody } }
+              : {}),
+            headersSize: -1,
+            bodySize: entry.requestBody !== undefined ? entry.requestBody.length : -1,
+          },
+          response: {
+            status: entry.status,
+            statusText: entry.statusText,
+            httpVersion: 'HTTP/1.1',
+            cookies: [],
+            headers: toHarHeaders(entry.responseHeaders),
+            content: {
+              size: entry.responseBody !== undefined ? entry.responseBody.length : -1,
+              mimeType: entry.mimeType || '',
+              ...(entry.responseBody !== undefined ? { text: entry.responseBody } : {}),
+            },
+            redirectURL: '',
+            headersSize: -1,
+            bodySize: -1,
+            ...(entry.error ? { _error: entry.error } : {}),
+          },
+          cache: {},
+          timings: { send: 0, wait: entry.duration, receive: 0 },
+        };
+      }),
+    },
+  };
+}
+
+let sharedRecorder: NetworkRecorder | null = null;
+let sharedUsers = 0;
+
+/**
+ * Starts the shared recorder; every call must be paired with stopNetworkRecorder
+ */
+export function startNetworkRecorder(options?: NetworkRecorderOptions, privacy?: PrivacyOptions): NetworkRecorder {
+  if (!sharedRecorder) {
+    sharedRecorder = new NetworkRecorder(options, privacy);
+    sharedRecorder.start();
+  }
+  sharedUsers += 1;
+  return sharedRecorder;
+}
+
+/**
+ * Releases the shared recorder, restoring fetch and XHR after the last user
+ */
+export function stopNetworkRecorder(): void {
+  if (!sharedRecorder) return;
+  sharedUsers -= 1;
+  if (sharedUsers <= 0) {
+    sharedRecorder.stop();
+    sharedRecorder = null;
+    sharedUsers = 0;
+  }
+}
+
+/**
+ * Entries of the shared recorder, or an empty list when it is not running
+ */
+export function getNetworkEntries(): NetworkEntry[] {
+  return sharedRecorder ? sharedRecorder.getEntries() : [];
+}
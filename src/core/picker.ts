@@ -0,0 +1,208 @@
+import type { Rect } from './annotations';
+
+export type PickResult =
+  | { type: 'element'; element: Element; selector: string; rect: Rect }
+  | { type: 'region'; rect: Rect };
+
+export interface PickerOptions {
+  /**
+   * Hint shown at the top of the page while picking
+   */
+  hint?: string;
+  /**
+   * Highlight color (default: '#2196F3')
+   */
+  color?: string;
+}
+
+const DRAG_THRESHOLD = 5;
+const IGNORED_SELECTOR = '[data-feedback-button], [data-feedback-modal], [data-feedback-picker]';
+
+/**
+ * Builds a CSS selector that identifies the element, anchored at the closest ancestor with an id
+ */
+export function getCssSelector(element: Element): string {
+  const escape = (value: string) => (typeof CSS !== 'undefined' && CSS.escape ? CSS.escape(value) : value);
+  const parts: string[] = [];
+  let current: Element | null = element;
+
+  while (current && current !== document.documentElement) {
+    if (current.id && document.querySelectorAll(`#${escape(current.id)}`).length === 1) {
+      parts.unshift(`#${escape(current.id)}`);
+      break;
+    }
+
+    let part = current.tagName.toLowerCase();
+    const parent: Element | null = current.parentElement;
+    if (parent) {
+      const tagName = current.tagName;
+      const siblings = Array.from(parent.children).filter((child) => child.tagName === tagName);
+      if (siblings.length > 1) {
+        part += `:nth-of-type(${siblings.indexOf(current) + 1})`;
+      }
+    }
+    parts.unshift(part);
+    current = parent;
+  }
+
+  return parts.join(' > ');
+}
+
+/**
+ * Bounding box in document coordinates
+ */
+function toPageRect(rect: { left: number; top: number; width: number; height: number }): Rect {
+  return {
+    x: Math.round(rect.left + window.scrollX),
+    y: Math.round(rect.top + window.scrollY),
+    width: Math.round(rect.width),
+    height: Math.round(rect.height),
+  };
+}
+
+/**
+ * Lets the user click an element or drag a rectangle over the page
+ * @returns The selection, or null when the user pressed Escape
+ */
+export function pickTarget(options: PickerOptions = {}): Promise<PickResult | null> {
+  const color = options.color || '#2196F3';
+
+  return new Promise((resolve) => {
+    const overlay = document.createElement('div');
+    overlay.setAttribute('data-feedback-picker', '');
+    overlay.style.cssText = `
+      position: fixed;
+      inset: 0;
+      z-index: 2147483646;
+      cursor: crosshair;
+      touch-action: none;
+    `;
+
+    const highlight = document.createElement('div');
+    highlight.style.cssText = `
+      position: fixed;
+      pointer-events: none;
+      border: 2px solid ${color};
+      background: ${color}33;
+      display: none;
+    `;
+
+    const hint = document.createElement('div');
+    hint.textContent = options.hint || 'Click an element or drag to select an area. Press Esc to cancel.';
+    hint.style.cssText = `
+      position: fixed;
+      top: 16px;
+      left: 50%;
+      transform: translateX(-50%);
+      padding: 8px 16px;
+      background: rgba(0, 0, 0, 0.8);
+      color: white;
+      border-radius: 6px;
+      font: 14px system-ui, -apple-system, sans-serif;
+      pointer-events: none;
+    `;
+
+    overlay.appendChild(highlight);
+    overlay.appendChild(hint);
+    document.body.appendChild(overlay);
+
+    let start: { x: number; y: number } | null = null;
+    let dragging = false;
+
+    const showBox = (left: number, top: number, width: number, height: number) => {
+      highlight.style.display = 'block';
+      highlight.style.left = `${left}px`;
+      highlight.style.top = `${top}px`;
+      highlight.style.width = `${width}px`;
+      highlight.style.height = `${height}px`;
+    };
+
+    const elementAt = (x: number, y: number): Element | null => {
+      const elements = document.elementsFromPoint(x, y);
+      return elements.find((element) =>
+        element !== document.documentElement &&
+        element !== document.body &&
+        !element.closest(IGNORED_SELECTOR)
+      ) || null;
+    };
+
+    const cleanup = (result: PickResult | null) => {
+      overlay.remove();
+      document.removeEventListener('keydown', handleKeyDown, true);
+      resolve(result);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        e.stopPropagation();
+        cleanup(null);
+      }
+    };
+
+    overlay.addEventListener('pointerdown', (e) => {
+      e.preventDefault();
+      overlay.setPointerCapture(e.pointerId);
+      start = { x: e.clientX, y: e.clientY };
+      dragging = false;
+    });
+
+    overlay.addEventListener('pointermove', (e) => {
+      if (start && (dragging || Math.hypot(e.clientX - start.x, e.clientY - start.y) > DRAG_THRESHOLD)) {
+        dragging = true;
+        showBox(
+          Math.min(start.x, e.clientX),
+          Math.min(start.y, e.clientY),
+          Math.abs(e.clientX - start.x),
+          Math.abs(e.clientY - start.y)
+        );
+        return;
+      }
+
+      const element = elementAt(e.clientX, e.clientY);
+      if (element) {
+        const rect = element.getBoundingClientRect();
+        showBox(rect.left, rect.top, rect.width, rect.height);
+      } else {
+        highlight.style.display = 'none';
+      }
+    });
+
+    overlay.addEventListener('pointerup', (e) => {
+      if (!start) return;
+
+      if (dragging) {
+        const rect = {
+          left: Math.min(start.x, e.clientX),
+          top: Math.min(start.y, e.clientY),
+          width: Math.abs(e.clientX - start.x),
+          height: Math.abs(e.clientY - start.y),
+        };
+        cleanup({ type: 'region', rect: toPageRect(rect) });
+        return;
+      }
+
+      const element = elementAt(e.clientX, e.clientY);
+      start = null;
+      if (element) {
+        cleanup({
+          type: 'element',
+          element,
+          selector: getCssSelector(element),
+          rect: toPageRect(element.getBoundingClientRect()),
+        });
+      }
+    });
+
+    document.addEventListener('keydown', handleKeyDown, true);
+  });
+}
+
+/**
+ * Serializable description of a selection for the report metadata
+ */
+export function describeSelection(result: PickResult): Record<string, unknown> {
+  return result.type === 'element'
+    ? { type: 'element', selector: result.selector, rect: result.rect }
+    : { type: 'region', rect: result.rect };
+}
@@ -0,0 +1,52 @@
+import { getMaskSelectors, redactUrl } from './privacy';
+
+describe('redactUrl', () => {
+  it('redacts token-like query parameters by default', () => {
+    expect(redactUrl('https://app.example/callback?code=abc&page=2&Access_Token=xyz'))
+      .toBe('https://app.example/callback?code=REDACTED&page=2&Access_Token=REDACTED');
+  });
+
+  it('leaves URLs without sensitive parameters unchanged', () => {
+    const url = 'https://app.example/orders?page=2&sort=date#top';
+
+    expect(redactUrl(url)).toBe(url);
+  });
+
+  it('redacts parameters in the fragment', () => {
+    expect(redactUrl('https://app.example/#access_token=abc&expires_in=3600'))
+      .toBe('https://app.example/#access_token=REDACTED&expires_in=3600');
+  });
+
+  it('redacts only the configured parameters', () => {
+    expect(redactUrl('https://app.example/?invite=abc&token=xyz', { redactQueryParams: ['invite'] }))
+      .toBe('https://app.example/?invite=REDACTED&token=xyz');
+  });
+
+  it('removes every parameter when configured with true', () => {
+    expect(redactUrl('https://app.example/orders?page=2#top', { redactQueryParams: true }))
+      .toBe('https://app.example/orders');
+  });
+
+  it('applies the custom redaction after the parameter rules', () => {
+    const custom = jest.fn((url: string) => url.replace(/\/users\/\d+/, '/users/:id'));
+
+    expect(redactUrl('https://app.example/users/42?token=abc', { redactUrl: custom }))
+      .toBe('https://app.example/users/:id?token=REDACTED');
+    expect(custom).toHaveBeenCalledWith('https://app.example/users/42?token=REDACTED');
+  });
+
+  it('keeps values that are not absolute URLs', () => {
+    expect(redactUrl('Direct')).toBe('Direct');
+  });
+});
+
+describe('getMaskSelectors', () => {
+  it('always includes the mask attribute and password inputs', () => {
+    expect(getMaskSelectors()).toEqual(['[data-feedback-mask]', 'input[type="password" i]']);
+  });
+
+  it('adds the configured selectors and input types', () => {
+    expect(getMaskSelectors({ maskSelectors: ['.iban'], maskInputTypes: ['email'] }))
+      .toEqual(['[data-feedback-mask]', '.iban', 'input[type="email" i]']);
+  });
+});
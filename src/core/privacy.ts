@@ -0,0 +1,160 @@
+export interface PrivacyOptions {
+  /**
+   * Additional selectors of elements to mask; `[data-feedback-mask]` is always masked
+   */
+  maskSelectors?: string[];
+  /**
+   * How masked elements are rendered in the screenshot (default: 'blackout')
+   */
+  maskStyle?: 'blur' | 'blackout';
+  /**
+   * Input types that are masked automatically (default: ['password'])
+   */
+  maskInputTypes?: string[];
+  /**
+   * Query and hash parameters whose values are redacted in URLs;
+   * `true` removes all parameters (default: common token and secret names)
+   */
+  redactQueryParams?: string[] | true;
+  /**
+   * Custom URL redaction, applied after the parameter rules
+   */
+  redactUrl?: (url: string) => string;
+}
+
+export const MASK_ATTRIBUTE = 'data-feedback-mask';
+
+const DEFAULT_MASK_INPUT_TYPES = ['password'];
+
+const DEFAULT_REDACTED_PARAMS = [
+  'token',
+  'access_token',
+  'id_token',
+  'refresh_token',
+  'code',
+  'state',
+  'auth',
+  'key',
+  'apikey',
+  'api_key',
+  'password',
+  'secret',
+  'session',
+  'sessionid',
+  'sig',
+  'signature',
+];
+
+// Stays readable after URL encoding
+const REDACTED = 'REDACTED';
+
+/**
+ * Selectors of the masked elements: `[data-feedback-mask]`, the mask selectors and the masked input types
+ */
+export function getMaskSelectors(options: PrivacyOptions = {}): string[] {
+  const inputTypes = options.maskInputTypes || DEFAULT_MASK_INPUT_TYPES;
+  return [
+    `[${MASK_ATTRIBUTE}]`,
+    ...(options.maskSelectors || []),
+    ...inputTypes.map((type) => `input[type="${type}" i]`),
+  ];
+}
+
+/**
+ * Finds the elements that must not appear in a screenshot
+ */
+export function findMaskedElements(options: PrivacyOptions = {}, root: ParentNode = document): HTMLElement[] {
+  const elements = new Set<HTMLElement>();
+  getMaskSelectors(options).forEach((selector) => {
+    try {
+      root.querySelectorAll<HTMLElement>(selector).forEach((element) => elements.add(element));
+    } catch {
+      console.warn(`[issue-reporter] Ignoring invalid mask selector: ${selector}`);
+    }
+  });
+  return Array.from(elements);
+}
+
+/**
+ * Temporarily masks sensitive elements on the live page so the capture renders them hidden
+ * @returns Function restoring the original inline styles
+ */
+export function applyPrivacyMasks(options: PrivacyOptions = {}, root: ParentNode = document): () => void {
+  const elements = findMaskedElements(options, root);
+  const properties = options.maskStyle === 'blur'
+    ? { filter: 'blur(10px)' }
+    : { filter: 'brightness(0)', 'background-color': '#000' };
+
+  const previous = elements.map((element) => {
+    const saved = Object.keys(properties).map((property) => ({
+      property,
+      value: element.style.getPropertyValue(property),
+      priority: element.style.getPropertyPriority(property),
+    }));
+    Object.entries(properties).forEach(([property, value]) => {
+      element.style.setProperty(property, value, 'important');
+    });
+    return { element, saved };
+  });
+
+  return () => {
+    previous.forEach(({ element, saved }) => {
+      saved.forEach(({ property, value, priority }) => {
+        if (value) {
+          element.style.setProperty(property, value, priority);
+        } else {
+          element.style.removeProperty(property);
+        }
+      });
+    });
+  };
+}
+
+/**
+ * Redacts sensitive query and hash parameters in a URL
+ */
+export function redactUrl(url: string, options: PrivacyOptions = {}): string {
+  let result = url;
+
+  try {
+    const parsed = new URL(url);
+
+    if (options.redactQueryParams === true) {
+      parsed.search = '';
+      parsed.hash = '';
+    } else {
+      const names = (options.redactQueryParams || DEFAULT_REDACTED_PARAMS).map((name) => name.toLowerCase());
+      const redactParams = (params: URLSearchParams): boolean => {
+        let changed = false;
+        const keys: string[] = [];
+        params.forEach((_value, key) => keys.push(key));
+        keys.forEach((key) => {
+          if (names.includes(key.toLowerCase())) {
+            params.set(key, REDACTED);
+            changed = true;
+          }
+        });
+        return changed;
+      };
+
+      const search = new URLSearchParams(parsed.search);
+      if (redactParams(search)) {
+        parsed.search = search.toString();
+      }
+
+      // OAuth implicit flows put tokens in the fragment
+      if (parsed.hash.includes('=')) {
+        const hash = new URLSearchParams(parsed.hash.slice(1));
+        if (redactParams(hash)) {
+          parsed.hash = hash.toString();
+        }
+      }
+    }
+
+    result = parsed.toString();
+  } catch {
+    // Not an absolute URL, e.g. 'Direct'
+  }
+
+  return options.redactUrl ? options.redactUrl(result) : result;
+}
@@ -0,0 +1,272 @@
+import type { IssueTrackerAdapter } from '../types';
+import { SubmissionQueue, QueuedSubmission, isRetryableError } from './queue';
+import { AuthenticationError, IssueReporterError, NetworkError, RateLimitError, ValidationError } from './errors';
+
+const issue = { id: 7, url: 'https://tracker.example/issues/7', title: 'Checkout fails' };
+const feedback = { title: 'Checkout fails', description: 'The pay button does nothing' };
+
+type Records = Map<string, QueuedSubmission>;
+
+/**
+ * Answers like an IDBRequest on the next tick
+ */
+function fakeRequest<T>(run: () => T): IDBRequest<T> {
+  const request: { onsuccess?: () => void; onerror?: () => void; result?: T; error?: unknown } = {};
+  setTimeout(() => {
+    try {
+      request.result = run();
+      request.onsuccess?.();
+    } catch (error) {
+      request.error = error;
+      request.onerror?.();
+    }
+  });
+  return request as unknown as IDBRequest<T>;
+}
+
+/**
+ * Just enough of IndexedDB for the queue; tabs share a database by sharing `records`
+ */
+function fakeIndexedDB(records: Records = new Map()): IDBFactory {
+  const store = {
+    put: (submission: QueuedSubmission) => fakeRequest(() => records.set(submission.id, { ...submission })),
+    getAll: () => fakeRequest(() => [...records.values()].map((submission) => ({ ...submission }))),
+    getKey: (id: string) => fakeRequest(() => (records.has(id) ? id : undefined)),
+    delete: (id: string) => fakeRequest(() => records.delete(id)),
+  };
+  const db = { transaction: () => ({ objectStore: () => store }) };
+  return { open: () => fakeRequest(() => db) } as unknown as IDBFactory;
+}
+
+function failingIndexedDB(): IDBFactory {
+  return {
+    open: () => fakeRequest(() => {
+      throw new Error('IndexedDB is unavailable');
+    }),
+  } as unknown as IDBFactory;
+}
+
+function setGlobal(name: string, value: unknown) {
+  Object.defineProperty(globalThis, name, { value, configurable: true, writable: true });
+}
+
+function createAdapter(createIssue = jest.fn().mockResolvedValue(issue)): IssueTrackerAdapter {
+  return { createIssue };
+}
+
+describe('isRetryableError', () => {
+  it.each([
+    [new NetworkError(), true],
+    [new RateLimitError(), true],
+    [new IssueReporterError('Bad gateway', 'unknown', 502), true],
+    [new IssueReporterError('Something broke'), true],
+    [new IssueReporterError('Not found', 'unknown', 404), false],
+    [new AuthenticationError(), false],
+    [new ValidationError(), false],
+  ])('%p is retryable: %p', (error, retryable) => {
+    expect(isRetryableError(error)).toBe(retryable);
+  });
+});
+
+describe('SubmissionQueue', () => {
+  let records: Records;
+  let now: number;
+  const started: SubmissionQueue[] = [];
+
+  function createQueue(adapter = createAdapter(), options = {}) {
+    return new SubmissionQueue({ adapter, baseDelay: 1000, maxDelay: 5000, ...options });
+  }
+
+  // Stopped after the test, so no retry timer outlives it
+  async function start(queue: SubmissionQueue) {
+    await queue.start();
+    started.push(queue);
+  }
+
+  beforeEach(() => {
+    records = new Map();
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    setGlobal('indexedDB', fakeIndexedDB(records));
+    setGlobal('navigator', { onLine: true });
+    setGlobal('window', { addEventListener: jest.fn(), removeEventListener: jest.fn() });
+  });
+
+  afterEach(() => {
+    started.splice(0).forEach((queue) => queue.stop());
+    jest.restoreAllMocks();
+  });
+
+  describe('enqueue', () => {
+    it('stores the submission and sends it', async () => {
+      const adapter = createAdapter();
+      const queue = createQueue(adapter);
+      const submitted = jest.fn();
+      queue.on('submitted', submitted);
+
+      await queue.enqueue(feedback);
+      expect(records.size).toBe(1);
+
+      await queue.process();
+      expect(adapter.createIssue).toHaveBeenCalledWith(feedback);
+      expect(submitted).toHaveBeenCalledWith(expect.objectContaining({ response: issue }));
+      expect(queue.getPending()).toEqual([]);
+      expect(records.size).toBe(0);
+    });
+
+    it('rejects when the submission cannot be stored', async () => {
+      setGlobal('indexedDB', failingIndexedDB());
+      const queue = createQueue();
+      const enqueued = jest.fn();
+      queue.on('enqueued', enqueued);
+
+      await expect(queue.enqueue(feedback)).rejects.toThrow('IndexedDB is unavailable');
+      expect(queue.getPending()).toEqual([]);
+      expect(enqueued).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('backoff', () => {
+    it('doubles the delay after every failed attempt up to the maximum', async () => {
+      const queue = createQueue(createAdapter(jest.fn().mockRejectedValue(new NetworkError())));
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      await queue.enqueue(feedback);
+
+      const delays: number[] = [];
+      for (let i = 0; i < 5; i++) {
+        await queue.process();
+        const [submission] = queue.getPending();
+        delays.push(submission.nextAttemptAt - now);
+        now = submission.nextAttemptAt;
+      }
+
+      expect(delays).toEqual([1000, 2000, 4000, 5000, 5000]);
+      expect(records.get(queue.getPending()[0].id)).toMatchObject({ attempts: 5, lastError: 'Could not reach the issue tracker' });
+    });
+
+    it('waits for the rate limit reset when it is longer than the backoff', async () => {
+      const queue = createQueue(createAdapter(jest.fn().mockRejectedValue(new RateLimitError('Slow down', 30))));
+      await queue.enqueue(feedback);
+
+      await queue.process();
+
+      expect(queue.getPending()[0].nextAttemptAt - now).toBe(30000);
+    });
+
+    it('does not send submissions before they are due', async () => {
+      const adapter = createAdapter(jest.fn().mockRejectedValueOnce(new NetworkError()).mockResolvedValue(issue));
+      const queue = createQueue(adapter);
+      await queue.enqueue(feedback);
+      await queue.process();
+
+      now += 999;
+      await queue.process();
+      expect(adapter.createIssue).toHaveBeenCalledTimes(1);
+
+      now += 1;
+      await queue.process();
+      expect(adapter.createIssue).toHaveBeenCalledTimes(2);
+      expect(queue.getPending()).toEqual([]);
+    });
+
+    it('drops a submission after an error that needs a human', async () => {
+      const queue = createQueue(createAdapter(jest.fn().mockRejectedValue(new ValidationError())));
+      const failed = jest.fn();
+      queue.on('failed', failed);
+      await queue.enqueue(feedback);
+
+      await queue.process();
+
+      expect(failed).toHaveBeenCalledWith(expect.objectContaining({ error: expect.any(ValidationError) }));
+      expect(queue.getPending()).toEqual([]);
+      expect(records.size).toBe(0);
+    });
+
+    it('drops a submission after the maximum attempts', async () => {
+      const queue = createQueue(createAdapter(jest.fn().mockRejectedValue(new NetworkError())), { maxAttempts: 2 });
+      const failed = jest.fn();
+      queue.on('failed', failed);
+      await queue.enqueue(feedback);
+
+      await queue.process();
+      now += 1000;
+      await queue.process();
+
+      expect(failed).toHaveBeenCalledTimes(1);
+      expect(failed.mock.calls[0][0].submission.attempts).toBe(2);
+      expect(records.size).toBe(0);
+    });
+  });
+
+  describe('lifecycle', () => {
+    it('keeps running until every start was paired with a stop', async () => {
+      const queue = createQueue();
+
+      await queue.start();
+      await queue.start();
+      queue.stop();
+      expect(window.removeEventListener).not.toHaveBeenCalled();
+
+      queue.stop();
+      expect(window.removeEventListener).toHaveBeenCalledWith('online', expect.any(Function));
+      expect(window.addEventListener).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps the pending submissions when started again', async () => {
+      const queue = createQueue(createAdapter(jest.fn().mockRejectedValue(new NetworkError())));
+      setGlobal('navigator', { onLine: false });
+      await queue.start();
+      queue.stop();
+      await queue.enqueue(feedback);
+
+      await start(queue);
+
+      expect(queue.getPending()).toHaveLength(1);
+    });
+  });
+
+  describe('tabs', () => {
+    it('loads the submissions stored by another tab', async () => {
+      await createQueue().enqueue(feedback);
+      const queue = createQueue();
+      setGlobal('navigator', { onLine: false });
+
+      await start(queue);
+
+      expect(queue.getPending()).toHaveLength(1);
+    });
+
+    it('does not send a submission another tab already sent', async () => {
+      const first = createAdapter();
+      const second = createAdapter();
+      const tab = createQueue(first);
+      const otherTab = createQueue(second);
+      setGlobal('navigator', { onLine: false });
+      await tab.enqueue(feedback);
+      await start(otherTab);
+      expect(otherTab.getPending()).toHaveLength(1);
+
+      setGlobal('navigator', { onLine: true });
+      await tab.process();
+      await otherTab.process();
+
+      expect(first.createIssue).toHaveBeenCalledTimes(1);
+      expect(second.createIssue).not.toHaveBeenCalled();
+      expect(otherTab.getPending()).toEqual([]);
+    });
+
+    it('skips sending while another tab holds the lock', async () => {
+      const adapter = createAdapter();
+      const request = jest.fn((_name: string, _options: LockOptions, callback: (lock: Lock | null) => Promise<void>) => callback(null));
+      setGlobal('navigator', { onLine: true, locks: { request } });
+      const queue = createQueue(adapter);
+      await queue.enqueue(feedback);
+
+      await queue.process();
+
+      expect(request).toHaveBeenCalledWith('issue-reporter:issue-reporter', { ifAvailable: true }, expect.any(Function));
+      expect(adapter.createIssue).not.toHaveBeenCalled();
+      expect(queue.getPending()).toHaveLength(1);
+    });
+  });
+});
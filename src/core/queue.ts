@@ -0,0 +1,341 @@
+import { FeedbackData, IssueResponse, IssueTrackerAdapter } from '../types';
+import { EventEmitter } from './events';
+import { IssueReporterError, RateLimitError, toIssueReporterError } from './errors';
+
+export interface QueuedSubmission {
+  id: string;
+  feedback: FeedbackData;
+  attempts: number;
+  createdAt: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+export interface SubmissionQueueStatus {
+  pending: number;
+  processing: boolean;
+  online: boolean;
+}
+
+export interface SubmissionQueueOptions {
+  adapter: IssueTrackerAdapter;
+  /**
+   * IndexedDB database name (default: 'issue-reporter')
+   */
+  dbName?: string;
+  /**
+   * Attempts before a submission is dropped (default: 10)
+   */
+  maxAttempts?: number;
+  /**
+   * First retry delay in ms, doubled on every attempt (default: 2000)
+   */
+  baseDelay?: number;
+  /**
+   * Upper bound for the retry delay in ms (default: 5 minutes)
+   */
+  maxDelay?: number;
+}
+
+export type SubmissionQueueEvents = {
+  change: SubmissionQueueStatus;
+  enqueued: QueuedSubmission;
+  submitted: { submission: QueuedSubmission; response: IssueResponse };
+  failed: { submission: QueuedSubmission; error: IssueReporterError };
+};
+
+const STORE_NAME = 'submissions';
+
+/**
+ * Errors that may go away by themselves; everything else needs a human
+ */
+export function isRetryableError(error: IssueReporterError): boolean {
+  if (error.code === 'network' || error.code === 'rate-limited') {
+    return true;
+  }
+  return error.code === 'unknown' && (error.status === undefined || error.status >= 500);
+}
+
+/**
+ * Wraps an IndexedDB request in a promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Persistent submission queue
+ * Stores feedback (including the screenshot Blob) in IndexedDB and retries
+ * with exponential backoff once the browser is back online
+ *
+ * Tabs of the same origin share the database; a Web Lock lets only one of them send at a time,
+ * and every submission is read back from the database before it is sent, so a report that another
+ * tab already created is not created twice
+ */
+export class SubmissionQueue extends EventEmitter<SubmissionQueueEvents> {
+  private options: Required<Omit<SubmissionQueueOptions, 'adapter'>> & { adapter: IssueTrackerAdapter };
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private pending: QueuedSubmission[] = [];
+  private processing = false;
+  private users = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: SubmissionQueueOptions) {
+    super();
+    this.options = {
+      dbName: 'issue-reporter',
+      maxAttempts: 10,
+      baseDelay: 2000,
+      maxDelay: 5 * 60 * 1000,
+      ...options,
+    };
+  }
+
+  /**
+   * Loads persisted submissions and starts listening for connectivity changes
+   * Every call must be paired with stop(); a queue shared by several buttons or reporters
+   * keeps running until the last of them stops it
+   */
+  async start(): Promise<void> {
+    this.users += 1;
+    if (this.users > 1) return;
+
+    window.addEventListener('online', this.handleOnline);
+
+    await this.load();
+    this.process();
+  }
+
+  /**
+   * Releases the queue and stops retrying after the last user
+   * Persisted submissions are kept for the next start
+   */
+  stop(): void {
+    if (this.users === 0) return;
+    this.users -= 1;
+    if (this.users > 0) return;
+
+    window.removeEventListener('online', this.handleOnline);
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  /**
+   * Persists a submission and tries to send it right away
+   * @throws Error when the submission cannot be stored, e.g. IndexedDB is unavailable
+   */
+  async enqueue(feedback: FeedbackData): Promise<QueuedSubmission> {
+    const submission: QueuedSubmission = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+      feedback,
+      attempts: 0,
+      createdAt: Date.now(),
+      nextAttemptAt: Date.now(),
+    };
+
+    await this.save(submission);
+    this.pending.push(submission);
+
+    this.emit('enqueued', submission);
+    this.emitChange();
+
+    if (this.users > 0) {
+      this.process();
+    }
+
+    return submission;
+  }
+
+  /**
+   * Current queue status
+   */
+  getStatus(): SubmissionQueueStatus {
+    return {
+      pending: this.pending.length,
+      processing: this.processing,
+      online: navigator.onLine,
+    };
+  }
+
+  /**
+   * Submissions waiting to be sent
+   */
+  getPending(): QueuedSubmission[] {
+    return [...this.pending];
+  }
+
+  /**
+   * Sends every submission that is due, then schedules the next retry
+   * Skipped while another tab is sending; the retry timer tries again later
+   */
+  async process(): Promise<void> {
+    if (this.processing || !navigator.onLine) return;
+
+    this.processing = true;
+    this.emitChange();
+
+    await this.withLock(async () => {
+      // Pick up submissions stored by other tabs
+      await this.load();
+      const now = Date.now();
+      for (const submission of this.pending.filter((s) => s.nextAttemptAt <= now)) {
+        await this.attempt(submission);
+      }
+    });
+
+    this.processing = false;
+    this.emitChange();
+    this.scheduleRetry();
+  }
+
+  private handleOnline = () => {
+    // Connectivity is back, so don't wait for the backoff timers
+    this.pending.forEach((submission) => {
+      submission.nextAttemptAt = Date.now();
+    });
+    this.process();
+  };
+
+  /**
+   * Runs the callback while holding the queue's Web Lock, or skips it when another tab holds it
+   * Browsers without the Web Locks API run it right away
+   */
+  private async withLock(callback: () => Promise<void>): Promise<void> {
+    if (typeof navigator.locks?.request !== 'function') {
+      await callback();
+      return;
+    }
+    await navigator.locks.request(`issue-reporter:${this.options.dbName}`, { ifAvailable: true }, async (lock) => {
+      if (lock) await callback();
+    });
+  }
+
+  /**
+   * Merges the persisted submissions into the pending list; the stored copy wins, since another
+   * tab may have retried it in the meantime
+   */
+  private async load(): Promise<void> {
+    try {
+      const db = await this.openDb();
+      const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+      const stored = await promisify(store.getAll() as IDBRequest<QueuedSubmission[]>);
+      const storedIds = new Set(stored.map((submission) => submission.id));
+      this.pending = [...stored, ...this.pending.filter((submission) => !storedIds.has(submission.id))];
+      this.pending.sort((a, b) => a.createdAt - b.createdAt);
+    } catch (error) {
+      console.error('[issue-reporter] Error loading submission queue:', error);
+    }
+    this.emitChange();
+  }
+
+  private async attempt(submission: QueuedSubmission): Promise<void> {
+    // Another tab created the issue since this one loaded the submission
+    if (!(await this.isStored(submission))) {
+      this.pending = this.pending.filter((s) => s.id !== submission.id);
+      this.emitChange();
+      return;
+    }
+
+    try {
+      const response = await this.options.adapter.createIssue(submission.feedback);
+      if (!response) {
+        throw new IssueReporterError('Failed to create issue');
+      }
+
+      await this.remove(submission);
+      this.emit('submitted', { submission, response });
+    } catch (error) {
+      const err = toIssueReporterError(error);
+      submission.attempts += 1;
+      submission.lastError = err.message;
+
+      if (!isRetryableError(err) || submission.attempts >= this.options.maxAttempts) {
+        await this.remove(submission);
+        this.emit('failed', { submission, error: err });
+        return;
+      }
+
+      const backoff = Math.min(
+        this.options.baseDelay * Math.pow(2, submission.attempts - 1),
+        this.options.maxDelay
+      );
+      const retryAfter = err instanceof RateLimitError && err.retryAfter !== undefined
+        ? err.retryAfter * 1000
+        : 0;
+      submission.nextAttemptAt = Date.now() + Math.max(backoff, retryAfter);
+
+      try {
+        await this.save(submission);
+      } catch (saveError) {
+        // The stored copy keeps its earlier attempt count and is retried sooner
+        console.error('[issue-reporter] Error persisting submission:', saveError);
+      }
+    }
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.users === 0 || this.pending.length === 0) return;
+
+    const next = Math.min(...this.pending.map((s) => s.nextAttemptAt));
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.process();
+    }, Math.max(0, next - Date.now()));
+  }
+
+  private emitChange(): void {
+    this.emit('change', this.getStatus());
+  }
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      const request = indexedDB.open(this.options.dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      this.dbPromise = promisify(request);
+    }
+    return this.dbPromise;
+  }
+
+  private async save(submission: QueuedSubmission): Promise<void> {
+    const db = await this.openDb();
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await promisify(store.put(submission));
+  }
+
+  /**
+   * Whether the submission is still in the database; assumes it is when the database cannot be read
+   */
+  private async isStored(submission: QueuedSubmission): Promise<boolean> {
+    try {
+      const db = await this.openDb();
+      const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+      return (await promisify(store.getKey(submission.id))) !== undefined;
+    } catch (error) {
+      console.error('[issue-reporter] Error reading submission queue:', error);
+      return true;
+    }
+  }
+
+  private async remove(submission: QueuedSubmission): Promise<void> {
+    this.pending = this.pending.filter((s) => s.id !== submission.id);
+    try {
+      const db = await this.openDb();
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      await promisify(store.delete(submission.id));
+    } catch (error) {
+      console.error('[issue-reporter] Error removing submission:', error);
+    }
+    this.emitChange();
+  }
+}
@@ -0,0 +1,441 @@
+import { PrivacyOptions, getMaskSelectors, redactUrl } from './privacy';
+
+export type SerializedNode =
+  | {
+    id: number;
+    type: 'element';
+    tag: string;
+    ns?: string;
+    attrs: Record<string, string>;
+    children: SerializedNode[];
+  }
+  | { id: number; type: 'text'; text: string };
+
+export type ReplayEvent =
+  | { type: 'snapshot'; time: number; root: SerializedNode; width: number; height: number; scrollX: number; scrollY: number }
+  | { type: 'add'; time: number; parentId: number; nextId: number | null; node: SerializedNode }
+  | { type: 'remove'; time: number; id: number }
+  | { type: 'attr'; time: number; id: number; name: string; value: string | null }
+  | { type: 'text'; time: number; id: number; text: string }
+  | { type: 'input'; time: number; id: number; value: string; checked?: boolean }
+  | { type: 'click'; time: number; x: number; y: number }
+  | { type: 'move'; time: number; x: number; y: number }
+  | { type: 'scroll'; time: number; id: number; x: number; y: number }
+  | { type: 'viewport'; time: number; width: number; height: number };
+
+export interface SessionRecording {
+  version: 1;
+  url: string;
+  startedAt: string;
+  events: ReplayEvent[];
+}
+
+export interface SessionRecorderOptions {
+  /**
+   * Length of the rolling window in seconds (default: 30)
+   */
+  windowSeconds?: number;
+  /**
+   * Interval between full snapshots in seconds (default: 10)
+   */
+  checkpointSeconds?: number;
+  /**
+   * Mask the value of every input, not only passwords (default: true)
+   */
+  maskAllInputs?: boolean;
+  /**
+   * Elements whose text and values are masked, added to the privacy mask selectors
+   * (`[data-feedback-mask]`, `privacy.maskSelectors` and the masked input types)
+   */
+  maskSelectors?: string[];
+}
+
+/**
+ * Id used for the document in scroll events
+ */
+export const DOCUMENT_NODE_ID = 0;
+
+const SKIPPED_TAGS = ['SCRIPT', 'NOSCRIPT', 'TEMPLATE'];
+const IGNORED_SELECTOR = '[data-feedback-button], [data-feedback-modal], [data-feedback-indicator]';
+const HTML_NAMESPACE = 'http://www.w3.org/1999/xhtml';
+const MOVE_THROTTLE = 100;
+const SCROLL_THROTTLE = 100;
+
+/**
+ * Records DOM mutations and user interaction for a rolling time window
+ * The recording always starts with a full snapshot, so it can be replayed on its own
+ */
+export class SessionRecorder {
+  private options: Required<SessionRecorderOptions>;
+  private privacy: PrivacyOptions;
+  private events: ReplayEvent[] = [];
+  private ids = new WeakMap<Node, number>();
+  private nextId = 1;
+  private observer: MutationObserver | null = null;
+  private checkpointTimer: ReturnType<typeof setInterval> | null = null;
+  private lastMove = 0;
+  private lastScroll = new Map<number, number>();
+  private recording = false;
+
+  /**
+   * @param privacy Masking rules shared with the screenshot; the recording URL is redacted with them
+   */
+  constructor(options: SessionRecorderOptions = {}, privacy: PrivacyOptions = {}) {
+    this.privacy = privacy;
+    this.options = {
+      windowSeconds: options.windowSeconds || 30,
+      checkpointSeconds: options.checkpointSeconds || 10,
+      maskAllInputs: options.maskAllInputs !== false,
+      maskSelectors: [...getMaskSelectors(privacy), ...(options.maskSelectors || [])],
+    };
+  }
+
+  /**
+   * Takes the first snapshot and starts observing the page
+   */
+  start(): void {
+    if (this.recording) return;
+    this.recording = true;
+
+    this.takeSnapshot();
+
+    this.observer = new MutationObserver((mutations) => this.handleMutations(mutations));
+    this.observer.observe(document.documentElement, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+      characterData: true,
+    });
+
+    document.addEventListener('click', this.handleClick, true);
+    document.addEventListener('mousemove', this.handleMove, true);
+    document.addEventListener('scroll', this.handleScroll, true);
+    document.addEventListener('input', this.handleInput, true);
+    document.addEventListener('change', this.handleInput, true);
+    window.addEventListener('resize', this.handleResize);
+
+    this.checkpointTimer = setInterval(() => {
+      this.takeSnapshot();
+      this.trim();
+    }, this.options.checkpointSeconds * 1000);
+  }
+
+  /**
+   * Stops observing; the recorded events are kept
+   */
+  stop(): void {
+    if (!this.recording) return;
+    this.recording = false;
+
+    this.observer?.disconnect();
+    this.observer = null;
+
+    document.removeEventListener('click', this.handleClick, true);
+    document.removeEventListener('mousemove', this.handleMove, true);
+    document.removeEventListener('scroll', this.handleScroll, true);
+    document.removeEventListener('input', this.handleInput, true);
+    document.removeEventListener('change', this.handleInput, true);
+    window.removeEventListener('resize', this.handleResize);
+
+    if (this.checkpointTimer) {
+      clearInterval(this.checkpointTimer);
+      this.checkpointTimer = null;
+    }
+  }
+
+  /**
+   * Returns the events of the rolling window, starting with a snapshot
+   */
+  getRecording(): SessionRecording {
+    this.trim();
+    const first = this.events[0];
+    return {
+      version: 1,
+      url: redactUrl(window.location.href, this.privacy),
+      startedAt: new Date(first ? first.time : Date.now()).toISOString(),
+      events: [...this.events],
+    };
+  }
+
+  private push(event: ReplayEvent) {
+    this.events.push(event);
+  }
+
+  /**
+   * Drops everything before the last snapshot that precedes the window
+   */
+  private trim() {
+    const windowStart = Date.now() - this.options.windowSeconds * 1000;
+    let startIndex = 0;
+    this.events.forEach((event, index) => {
+      if (event.type === 'snapshot' && event.time <= windowStart) {
+        startIndex = index;
+      }
+    });
+    if (startIndex > 0) {
+      this.events = this.events.slice(startIndex);
+    }
+  }
+
+  private takeSnapshot() {
+    const root = this.serialize(document.documentElement);
+    if (!root) return;
+    this.push({
+      type: 'snapshot',
+      time: Date.now(),
+      root,
+      width: window.innerWidth,
+      height: window.innerHeight,
+      scrollX: window.scrollX,
+      scrollY: window.scrollY,
+    });
+  }
+
+  private getId(node: Node): number {
+    let id = this.ids.get(node);
+    if (id === undefined) {
+      id = this.nextId++;
+      this.ids.set(node, id);
+    }
+    return id;
+  }
+
+  private isIgnored(node: Node): boolean {
+    const element = node.nodeType === Node.ELEMENT_NODE ? node as Element : node.parentElement;
+    return !!element?.closest(IGNORED_SELECTOR);
+  }
+
+  private isMasked(node: Node): boolean {
+    const element = node.nodeType === Node.ELEMENT_NODE ? node as Element : node.parentElement;
+    if (!element) return false;
+    return this.options.maskSelectors.some((selector) => {
+      try {
+        return !!element.closest(selector);
+      } catch {
+        return false;
+      }
+    });
+  }
+
+  private shouldMaskValue(element: Element): boolean {
+    if (element instanceof HTMLInputElement) {
+      const type = element.type.toLowerCase();
+      if (type === 'password') return true;
+      if (['checkbox', 'radio', 'submit', 'button', 'reset', 'range', 'color'].includes(type)) {
+        return this.isMasked(element);
+      }
+    }
+    return this.options.maskAllInputs || this.isMasked(element);
+  }
+
+  private maskText(text: string): string {
+    return text.replace(/\S/g, '*');
+  }
+
+  /**
+   * Serializes a node and its subtree, assigning ids on the way
+   */
+  private serialize(node: Node): SerializedNode | null {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = node.textContent || '';
+      const parentTag = node.parentElement?.tagName;
+      return {
+        id: this.getId(node),
+        type: 'text',
+        text: this.isMasked(node) && parentTag !== 'STYLE' ? this.maskText(text) : text,
+      };
+    }
+
+    if (node.nodeType !== Node.ELEMENT_NODE) return null;
+
+    const element = node as Element;
+    if (SKIPPED_TAGS.includes(element.tagName) || element.matches(IGNORED_SELECTOR)) {
+      return null;
+    }
+
+    const attrs: Record<string, string> = {};
+    Array.from(element.attributes).forEach((attr) => {
+      // Event handler attributes are useless without scripts
+      if (attr.name.startsWith('on')) return;
+      attrs[attr.name] = attr.value;
+    });
+
+    // Resolve URLs so the player can load images and styles from another origin
+    if (element instanceof HTMLImageElement && element.currentSrc) {
+      attrs.src = element.currentSrc;
+      delete attrs.srcset;
+    }
+    if (element instanceof HTMLLinkElement && element.href) {
+      attrs.href = element.href;
+    }
+
+    // Current form values live in properties, not attributes
+    if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+      const value = this.shouldMaskValue(element) ? this.maskText(element.value) : element.value;
+      attrs.value = value;
+      if (element instanceof HTMLInputElement && (element.type === 'checkbox' || element.type === 'radio')) {
+        if (element.checked) attrs.checked = '';
+        else delete attrs.checked;
+      }
+    }
+
+    const children: SerializedNode[] = [];
+    if (element instanceof HTMLTextAreaElement) {
+      // The value attribute set above carries the content
+    } else {
+      element.childNodes.forEach((child) => {
+        const serialized = this.serialize(child);
+        if (serialized) children.push(serialized);
+      });
+    }
+
+    return {
+      id: this.getId(element),
+      type: 'element',
+      tag: element.tagName.toLowerCase(),
+      ...(element.namespaceURI && element.namespaceURI !== HTML_NAMESPACE ? { ns: element.namespaceURI } : {}),
+      attrs,
+      children,
+    };
+  }
+
+  private handleMutations(mutations: MutationRecord[]) {
+    const time = Date.now();
+
+    mutations.forEach((mutation) => {
+      if (this.isIgnored(mutation.target)) return;
+
+      switch (mutation.type) {
+        case 'childList': {
+          mutation.removedNodes.forEach((node) => {
+            const id = this.ids.get(node);
+            if (id !== undefined) {
+              this.push({ type: 'remove', time, id });
+            }
+          });
+
+          const parentId = this.ids.get(mutation.target);
+          if (parentId === undefined) return;
+
+          // Reverse order so next siblings already have ids
+          Array.from(mutation.addedNodes).reverse().forEach((node) => {
+            if (!node.isConnected || node.parentNode !== mutation.target) return;
+            const serialized = this.serialize(node);
+            if (!serialized) return;
+            const next = node.nextSibling ? this.ids.get(node.nextSibling) : undefined;
+            this.push({ type: 'add', time, parentId, nextId: next ?? null, node: serialized });
+          });
+          break;
+        }
+        case 'attributes': {
+          const id = this.ids.get(mutation.target);
+          const name = mutation.attributeName;
+          if (id === undefined || !name || name.startsWith('on')) return;
+          const element = mutation.target as Element;
+          let value = element.getAttribute(name);
+          if (name === 'value' && value !== null && this.shouldMaskValue(element)) {
+            value = this.maskText(value);
+          }
+          this.push({ type: 'attr', time, id, name, value });
+          break;
+        }
+        case 'characterData': {
+          const id = this.ids.get(mutation.target);
+          if (id === undefined) return;
+          const text = mutation.target.textContent || '';
+          this.push({ type: 'text', time, id, text: this.isMasked(mutation.target) ? this.maskText(text) : text });
+          break;
+        }
+      }
+    });
+  }
+
+  private handleClick = (event: MouseEvent) => {
+    if (event.target instanceof Node && this.isIgnored(event.target)) return;
+    this.push({ type: 'click', time: Date.now(), x: event.clientX, y: event.clientY });
+  };
+
+  private handleMove = (event: MouseEvent) => {
+    const now = Date.now();
+    if (now - this.lastMove < MOVE_THROTTLE) return;
+    this.lastMove = now;
+    this.push({ type: 'move', time: now, x: event.clientX, y: event.clientY });
+  };
+
+  private handleScroll = (event: Event) => {
+    const target = event.target;
+    const isDocument = target === document || target === document.documentElement;
+    const id = isDocument ? DOCUMENT_NODE_ID : this.ids.get(target as Node);
+    if (id === undefined) return;
+
+    const now = Date.now();
+    if (now - (this.lastScroll.get(id) || 0) < SCROLL_THROTTLE) return;
+    this.lastScroll.set(id, now);
+
+    if (isDocument) {
+      this.push({ type: 'scroll', time: now, id, x: window.scrollX, y: window.scrollY });
+    } else {
+      const element = target as Element;
+      this.push({ type: 'scroll', time: now, id, x: element.scrollLeft, y: element.scrollTop });
+    }
+  };
+
+  private handleInput = (event: Event) => {
+    const target = event.target;
+    if (!(target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement)) {
+      return;
+    }
+    const id = this.ids.get(target);
+    if (id === undefined || this.isIgnored(target)) return;
+
+    const masked = !(target instanceof HTMLSelectElement) && this.shouldMaskValue(target);
+    this.push({
+      type: 'input',
+      time: Date.now(),
+      id,
+      value: masked ? this.maskText(target.value) : target.value,
+      ...(target instanceof HTMLInputElement && (target.type === 'checkbox' || target.type === 'radio')
+        ? { checked: target.checked }
+        : {}),
+    });
+  };
+
+  private handleResize = () => {
+    this.push({ type: 'viewport', time: Date.now(), width: window.innerWidth, height: window.innerHeight });
+  };
+}
+
+let sharedRecorder: SessionRecorder | null = null;
+let sharedUsers = 0;
+
+/**
+ * Starts the shared recorder; every call must be paired with stopSessionRecorder
+ */
+export function startSessionRecorder(options?: SessionRecorderOptions, privacy?: PrivacyOptions): SessionRecorder {
+  if (!sharedRecorder) {
+    sharedRecorder = new SessionRecorder(options, privacy);
+    sharedRecorder.start();
+  }
+  sharedUsers += 1;
+  return sharedRecorder;
+}
+
+/**
+ * Releases the shared recorder after the last user
+ */
+export function stopSessionRecorder(): void {
+  if (!sharedRecorder) return;
+  sharedUsers -= 1;
+  if (sharedUsers <= 0) {
+    sharedRecorder.stop();
+    sharedRecorder = null;
+    sharedUsers = 0;
+  }
+}
+
+/**
+ * Recording of the shared recorder, or null when it is not running
+ */
+export function getSessionRecording(): SessionRecording | null {
+  return sharedRecorder ? sharedRecorder.getRecording() : null;
+}
@@ -1,108 +1,97 @@
-import domtoimage from 'dom-to-image-more';
+import { PrivacyOptions, applyPrivacyMasks, redactUrl } from './privacy';
+import { ScreenshotEngineOption, resolveScreenshotEngines } from './screenshotEngines';
+import type { Rect } from './annotations';
+import type { PickResult } from './picker';
 
 /**
- * Captures a screenshot of the current page using dom-to-image-more
+ * Captures a screenshot of the current page
  * @param element Optional element to capture (defaults to document.body)
+ * @param privacy Optional masking rules; `[data-feedback-mask]` and password inputs are always masked
+ * @param engine Engine(s) to try in order (defaults to 'dom'); falls back to the DOM engine
  * @returns Promise resolving to a Blob of the screenshot
  */
-export async function captureScreenshot(element?: HTMLElement): Promise<Blob | null> {
-  try {
-    console.log('[issue-reporter] Starting screenshot capture with dom-to-image-more...');
+export function captureScreenshot(
+  element?: HTMLElement,
+  privacy?: PrivacyOptions,
+  engine?: ScreenshotEngineOption | ScreenshotEngineOption[]
+): Promise<Blob | null> {
+  return capture(element || document.body, undefined, privacy, engine);
+}
 
-    // Hide feedback buttons during capture
-    const feedbackButtons = document.querySelectorAll('[data-feedback-button]');
-    feedbackButtons.forEach((btn) => {
-      (btn as HTMLElement).style.visibility = 'hidden';
-    });
+/**
+ * Captures the page cropped to a region
+ * @param rect Region in document coordinates
+ */
+export function captureRegion(
+  rect: Rect,
+  privacy?: PrivacyOptions,
+  engine?: ScreenshotEngineOption | ScreenshotEngineOption[]
+): Promise<Blob | null> {
+  return capture(document.body, rect, privacy, engine);
+}
 
-    const targetElement = element || document.body;
-
-    console.log('[issue-reporter] Capturing element:', targetElement);
-
-    // Use dom-to-image-more which handles modern CSS better
-    const blob = await domtoimage.toBlob(targetElement, {
-      quality: 0.95,
-      bgcolor: '#ffffff',
-      cacheBust: false, // Disable cache busting to prevent black boxes
-      imagePlaceholder: undefined, // Don't use placeholder for failed images
-      copyDefaultStyles: false, // Only copy inline styles to prevent rendering issues
-      skipFonts: false, // Include web fonts
-      skipAutoScale: false, // Keep proper scaling
-      preferredFontFormat: 'woff', // Prefer WOFF fonts for better compatibility
-      filter: (node: HTMLElement) => {
-        // Filter out feedback-related elements
-        if (node.hasAttribute && node.hasAttribute('data-feedback-button')) {
-          return false;
-        }
-        if (node.classList && (
-          node.classList.contains('feedback-modal') ||
-          node.classList.contains('feedback-button')
-        )) {
-          return false;
-        }
-        // Skip iframes as they can cause issues
-        if (node.tagName === 'IFRAME') {
-          return false;
-        }
-        // Skip video and canvas elements that might cause black boxes
-        if (node.tagName === 'VIDEO' || node.tagName === 'CANVAS') {
-          return false;
-        }
-        return true;
-      },
-      style: {
-        // Force remove problematic CSS properties
-        'animation': 'none',
-        'transition': 'none',
-        'transform': 'none',
-      },
-    });
+/**
+ * Captures what the user picked: the element itself or the dragged region
+ */
+export function captureSelection(
+  selection: PickResult,
+  privacy?: PrivacyOptions,
+  engine?: ScreenshotEngineOption | ScreenshotEngineOption[]
+): Promise<Blob | null> {
+  return selection.type === 'element' && selection.element instanceof HTMLElement
+    ? captureScreenshot(selection.element, privacy, engine)
+    : captureRegion(selection.rect, privacy, engine);
+}
 
-    // Show feedback buttons again
-    feedbackButtons.forEach((btn) => {
-      (btn as HTMLElement).style.visibility = '';
-    });
+async function capture(
+  element: HTMLElement,
+  rect: Rect | undefined,
+  privacy?: PrivacyOptions,
+  engine?: ScreenshotEngineOption | ScreenshotEngineOption[]
+): Promise<Blob | null> {
+  // Hide feedback buttons during capture
+  const feedbackButtons = document.querySelectorAll('[data-feedback-button]');
+  feedbackButtons.forEach((btn) => {
+    (btn as HTMLElement).style.visibility = 'hidden';
+  });
 
-    console.log('[issue-reporter] Screenshot blob created:', blob ? `${blob.size} bytes` : 'null');
-    return blob;
-  } catch (error) {
-    console.error('[issue-reporter] Error capturing screenshot:', error);
+  // Mask sensitive elements on the page while it is rendered
+  const restoreMasks = applyPrivacyMasks(privacy);
 
-    // Show feedback buttons again even on error
-    const feedbackButtons = document.querySelectorAll('[data-feedback-button]');
+  try {
+    for (const screenshotEngine of resolveScreenshotEngines(engine)) {
+      if (!screenshotEngine.isSupported()) continue;
+
+      try {
+        console.log(`[issue-reporter] Capturing screenshot with the ${screenshotEngine.name} engine:`, element);
+        const blob = await screenshotEngine.capture({ element, rect });
+        if (blob) {
+          console.log('[issue-reporter] Screenshot blob created:', `${blob.size} bytes`);
+          return blob;
+        }
+      } catch (error) {
+        // E.g. the user denied screen capture; try the next engine
+        console.warn(`[issue-reporter] ${screenshotEngine.name} engine failed:`, error);
+      }
+    }
+
+    console.error('[issue-reporter] Error capturing screenshot: no engine produced an image');
+    return null;
+  } finally {
+    // Show feedback buttons again
     feedbackButtons.forEach((btn) => {
       (btn as HTMLElement).style.visibility = '';
     });
-
-    return null;
+    restoreMasks();
   }
 }
 
-/**
- * Converts a Blob to a Base64 string
- * @param blob The blob to convert
- * @returns Promise resolving to a base64 string
- */
-export function blobToBase64(blob: Blob): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      if (typeof reader.result === 'string') {
-        resolve(reader.result);
-      } else {
-        reject(new Error('Failed to convert blob to base64'));
-      }
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
-  });
-}
-
 /**
  * Gets system metadata for debugging
+ * @param privacy Optional redaction rules applied to `url` and `referrer`
  * @returns Object containing system information
  */
-export function getSystemMetadata(): Record<string, unknown> {
+export function getSystemMetadata(privacy?: PrivacyOptions): Record<string, unknown> {
   // Parse user agent for browser info
   const ua = navigator.userAgent;
   let browserName = 'Unknown';
@@ -194,8 +183,8 @@ export function getSystemMetadata(): Record<string, unknown> {
     colorDepth: `${colorDepth}-bit`,
 
     // Page information
-    url: window.location.href,
-    referrer: document.referrer || 'Direct',
+    url: redactUrl(window.location.href, privacy),
+    referrer: document.referrer ? redactUrl(document.referrer, privacy) : 'Direct',
     pageTitle: document.title,
 
     // Connection and Performance
@@ -0,0 +1,243 @@
+import domtoimage from 'dom-to-image-more';
+import type { Rect } from './annotations';
+
+/**
+ * What to capture: an element, optionally cropped to a region of the page
+ */
+export interface ScreenshotTarget {
+  element: HTMLElement;
+  /**
+   * Region in document coordinates to crop the capture to
+   */
+  rect?: Rect;
+}
+
+/**
+ * Renders a screenshot of the page. Engines are tried in order until one returns an image.
+ */
+export interface ScreenshotEngine {
+  /**
+   * Name used in logs
+   */
+  name: string;
+  /**
+   * Whether the engine can run in the current browser
+   */
+  isSupported(): boolean;
+  /**
+   * @returns The screenshot, or null if the engine could not capture the target
+   */
+  capture(target: ScreenshotTarget): Promise<Blob | null>;
+}
+
+/**
+ * Built-in engine name or a custom engine
+ */
+export type ScreenshotEngineOption = 'dom' | 'display-media' | ScreenshotEngine;
+
+const REPORTER_UI_SELECTOR = '[data-feedback-button], [data-feedback-modal], [data-feedback-picker]';
+
+/**
+ * Renders the DOM with dom-to-image-more. Works without permissions, but iframes, videos
+ * and canvases are left out.
+ */
+export const domEngine: ScreenshotEngine = {
+  name: 'dom',
+
+  isSupported() {
+    return typeof document !== 'undefined';
+  },
+
+  async capture({ element, rect }) {
+    // Use dom-to-image-more which handles modern CSS better
+    const blob: Blob | null = await domtoimage.toBlob(element, {
+      quality: 0.95,
+      bgcolor: '#ffffff',
+      cacheBust: false, // Disable cache busting to prevent black boxes
+      imagePlaceholder: undefined, // Don't use placeholder for failed images
+      copyDefaultStyles: false, // Only copy inline styles to prevent rendering issues
+      skipFonts: false, // Include web fonts
+      skipAutoScale: false, // Keep proper scaling
+      preferredFontFormat: 'woff', // Prefer WOFF fonts for better compatibility
+      filter: (node: HTMLElement) => {
+        // Filter out feedback-related elements
+        if (node.hasAttribute && (
+          node.hasAttribute('data-feedback-button') ||
+          node.hasAttribute('data-feedback-modal') ||
+          node.hasAttribute('data-feedback-picker')
+        )) {
+          return false;
+        }
+        if (node.classList && (
+          node.classList.contains('feedback-modal') ||
+          node.classList.contains('feedback-button')
+        )) {
+          return false;
+        }
+        // Skip iframes as they can cause issues
+        if (node.tagName === 'IFRAME') {
+          return false;
+        }
+        // Skip video and canvas elements that might cause black boxes
+        if (node.tagName === 'VIDEO' || node.tagName === 'CANVAS') {
+          return false;
+        }
+        return true;
+      },
+      style: {
+        // Force remove problematic CSS properties
+        'animation': 'none',
+        'transition': 'none',
+        'transform': 'none',
+      },
+    });
+
+    if (!blob || !rect) return blob;
+
+    const image = await loadImage(blob);
+
+    // The capture may be scaled (e.g. by devicePixelRatio) relative to the element
+    const elementRect = element.getBoundingClientRect();
+    const ratio = elementRect.width ? image.width / elementRect.width : 1;
+
+    return cropToBlob(image, {
+      x: (rect.x - elementRect.left - window.scrollX) * ratio,
+      y: (rect.y - elementRect.top - window.scrollY) * ratio,
+      width: rect.width * ratio,
+      height: rect.height * ratio,
+    });
+  },
+};
+
+/**
+ * Grabs a frame of the tab with getDisplayMedia. Renders everything the user sees, including
+ * iframes, videos and canvases, but asks for permission on every capture and only covers the
+ * visible part of the page.
+ */
+export const displayMediaEngine: ScreenshotEngine = {
+  name: 'display-media',
+
+  isSupported() {
+    return typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getDisplayMedia;
+  },
+
+  async capture({ element, rect }) {
+    const stream = await navigator.mediaDevices.getDisplayMedia({
+      video: { displaySurface: 'browser' },
+      audio: false,
+      // Chromium: offer the current tab first
+      preferCurrentTab: true,
+      selfBrowserSurface: 'include',
+    } as DisplayMediaStreamOptions);
+
+    const hidden: HTMLElement[] = [];
+
+    try {
+      const video = document.createElement('video');
+      video.muted = true;
+      video.playsInline = true;
+      video.srcObject = stream;
+      await video.play();
+
+      // Hide the reporter UI and give the browser time to remove its permission prompt
+      document.querySelectorAll<HTMLElement>(REPORTER_UI_SELECTOR).forEach((node) => {
+        if (node.style.visibility !== 'hidden') {
+          node.style.visibility = 'hidden';
+          hidden.push(node);
+        }
+      });
+      await waitForFrames(300);
+
+      const frame = document.createElement('canvas');
+      frame.width = video.videoWidth;
+      frame.height = video.videoHeight;
+      frame.getContext('2d')?.drawImage(video, 0, 0);
+
+      // Another tab, window or screen was shared: page coordinates don't apply
+      const { displaySurface } = stream.getVideoTracks()[0]?.getSettings() as { displaySurface?: string };
+      if (displaySurface && displaySurface !== 'browser') {
+        return await cropToBlob(frame, { x: 0, y: 0, width: frame.width, height: frame.height });
+      }
+
+      const viewport = rect
+        ? { x: rect.x - window.scrollX, y: rect.y - window.scrollY, width: rect.width, height: rect.height }
+        : element === document.body || element === document.documentElement
+          ? { x: 0, y: 0, width: window.innerWidth, height: window.innerHeight }
+          : toRect(element.getBoundingClientRect());
+
+      // Only the visible part of the page is in the frame
+      const left = Math.max(0, viewport.x);
+      const top = Math.max(0, viewport.y);
+      const right = Math.min(window.innerWidth, viewport.x + viewport.width);
+      const bottom = Math.min(window.innerHeight, viewport.y + viewport.height);
+      if (right <= left || bottom <= top) return null;
+
+      const ratio = frame.width / window.innerWidth;
+      return await cropToBlob(frame, {
+        x: left * ratio,
+        y: top * ratio,
+        width: (right - left) * ratio,
+        height: (bottom - top) * ratio,
+      });
+    } finally {
+      hidden.forEach((node) => {
+        node.style.visibility = '';
+      });
+      stream.getTracks().forEach((track) => track.stop());
+    }
+  },
+};
+
+/**
+ * Turns the configured engines into the list to try. The DOM engine is always the last fallback.
+ */
+export function resolveScreenshotEngines(
+  option?: ScreenshotEngineOption | ScreenshotEngineOption[]
+): ScreenshotEngine[] {
+  const options = option === undefined ? [] : Array.isArray(option) ? option : [option];
+  const engines = options.map((engine) =>
+    engine === 'dom' ? domEngine : engine === 'display-media' ? displayMediaEngine : engine
+  );
+
+  if (!engines.includes(domEngine)) {
+    engines.push(domEngine);
+  }
+  return engines;
+}
+
+function toRect(rect: DOMRect): Rect {
+  return { x: rect.left, y: rect.top, width: rect.width, height: rect.height };
+}
+
+function waitForFrames(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(() => requestAnimationFrame(() => resolve()), ms));
+}
+
+function cropToBlob(source: CanvasImageSource, area: Rect): Promise<Blob | null> {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(area.width));
+  canvas.height = Math.max(1, Math.round(area.height));
+  canvas.getContext('2d')?.drawImage(
+    source,
+    area.x, area.y, area.width, area.height,
+    0, 0, canvas.width, canvas.height
+  );
+
+  return new Promise((resolve) => canvas.toBlob(resolve, 'image/png'));
+}
+
+function loadImage(blob: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not decode screenshot'));
+    };
+    image.src = url;
+  });
+}
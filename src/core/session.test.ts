@@ -0,0 +1,279 @@
+import type { IssueTrackerAdapter } from '../types';
+import { FeedbackSession, FeedbackSessionConfig } from './session';
+import { NetworkError, ValidationError } from './errors';
+import { SubmissionQueue } from './queue';
+
+// The page capture needs a DOM; the tests inject their own
+jest.mock('./screenshot', () => ({ captureScreenshot: jest.fn(), getSystemMetadata: jest.fn() }));
+
+const screenshot = new Blob(['png'], { type: 'image/png' });
+const issue = { id: 7, url: 'https://tracker.example/issues/7', title: 'Checkout fails' };
+const draft = { title: ' Checkout fails ', description: 'The pay button does nothing' };
+
+function createAdapter(overrides: Partial<IssueTrackerAdapter> = {}): IssueTrackerAdapter {
+  return {
+    createIssue: jest.fn().mockResolvedValue(issue),
+    addComment: jest.fn().mockResolvedValue({ id: 1 }),
+    ...overrides,
+  };
+}
+
+function createQueue(enqueue = jest.fn().mockResolvedValue({})): SubmissionQueue {
+  return { enqueue } as unknown as SubmissionQueue;
+}
+
+function createSession(config: Partial<FeedbackSessionConfig> = {}) {
+  return new FeedbackSession({
+    adapter: createAdapter(),
+    captureScreenshot: jest.fn().mockResolvedValue(screenshot),
+    getSystemMetadata: () => ({ browser: 'Test' }),
+    isOnline: () => true,
+    ...config,
+  });
+}
+
+async function startedSession(config: Partial<FeedbackSessionConfig> = {}) {
+  const session = createSession(config);
+  await session.start();
+  return session;
+}
+
+describe('FeedbackSession', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('transitions', () => {
+    it('captures a screenshot on start and goes to editing', async () => {
+      const captureScreenshot = jest.fn().mockResolvedValue(screenshot);
+      const session = createSession({ captureScreenshot });
+      const statuses: string[] = [];
+      session.on('change', (state) => statuses.push(state.status));
+
+      await session.start();
+
+      expect(captureScreenshot).toHaveBeenCalledTimes(1);
+      expect(statuses).toEqual(['capturing', 'editing']);
+      expect(session.getState().screenshot).toBe(screenshot);
+    });
+
+    it('uses the screenshot from the prefill instead of capturing', async () => {
+      const captureScreenshot = jest.fn();
+      const session = createSession({ captureScreenshot });
+
+      await session.start({ screenshot: null });
+
+      expect(captureScreenshot).not.toHaveBeenCalled();
+      expect(session.getState()).toMatchObject({ status: 'editing', screenshot: null });
+    });
+
+    it('rejects submitting before the session was started', async () => {
+      const session = createSession();
+
+      await expect(session.submit(draft)).rejects.toThrow('Cannot go from "idle" to "submitting"');
+      expect(session.getState().status).toBe('idle');
+    });
+
+    it('rejects going back to the form while editing', async () => {
+      const session = await startedSession();
+
+      expect(() => session.edit()).toThrow('Cannot go from "editing" to "editing"');
+    });
+
+    it('ignores start while a report is open', async () => {
+      const captureScreenshot = jest.fn().mockResolvedValue(screenshot);
+      const session = await startedSession({ captureScreenshot });
+
+      await session.start();
+
+      expect(captureScreenshot).toHaveBeenCalledTimes(1);
+      expect(session.getState().status).toBe('editing');
+    });
+  });
+
+  describe('reset while capturing', () => {
+    it('discards the screenshot that arrives after the reset', async () => {
+      let resolveCapture: (blob: Blob) => void = () => undefined;
+      const captureScreenshot = jest.fn(() => new Promise<Blob | null>((resolve) => { resolveCapture = resolve; }));
+      const session = createSession({ captureScreenshot });
+      const captured = jest.fn();
+      session.on('captured', captured);
+
+      const starting = session.start();
+      expect(session.getState().status).toBe('capturing');
+      session.reset();
+      resolveCapture(screenshot);
+      await starting;
+
+      expect(captured).not.toHaveBeenCalled();
+      expect(session.getState()).toMatchObject({ status: 'idle', screenshot: null });
+    });
+
+    it('keeps the capture of a start that follows the reset', async () => {
+      const resolvers: ((blob: Blob) => void)[] = [];
+      const captureScreenshot = jest.fn(() => new Promise<Blob | null>((resolve) => { resolvers.push(resolve); }));
+      const session = createSession({ captureScreenshot });
+      const second = new Blob(['second'], { type: 'image/png' });
+
+      const first = session.start();
+      session.reset();
+      const restart = session.start();
+      resolvers[0](screenshot);
+      await first;
+      expect(session.getState().status).toBe('capturing');
+
+      resolvers[1](second);
+      await restart;
+      expect(session.getState()).toMatchObject({ status: 'editing', screenshot: second });
+    });
+
+    it('goes to editing without a screenshot when the capture fails', async () => {
+      const captureScreenshot = jest.fn().mockRejectedValue(new Error('Tainted canvas'));
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const session = createSession({ captureScreenshot });
+
+      await session.start();
+
+      expect(session.getState()).toMatchObject({ status: 'editing', screenshot: null });
+      expect(warn).toHaveBeenCalledWith('[issue-reporter] Failed to capture the screenshot:', expect.any(Error));
+    });
+  });
+
+  describe('submit', () => {
+    it('creates the issue with the trimmed draft and the system metadata', async () => {
+      const adapter = createAdapter();
+      const onSuccess = jest.fn();
+      const session = await startedSession({ adapter, onSuccess });
+
+      const result = await session.submit({ ...draft, includeMetadata: true });
+
+      expect(result).toEqual({ status: 'created', response: issue });
+      expect(adapter.createIssue).toHaveBeenCalledWith(expect.objectContaining({
+        title: 'Checkout fails',
+        screenshot,
+        metadata: { browser: 'Test' },
+      }));
+      expect(onSuccess).toHaveBeenCalledWith(issue);
+      expect(session.getState().status).toBe('success');
+    });
+
+    it('sends the labels of the custom fields with their values', async () => {
+      const adapter = createAdapter();
+      const fields = [{ name: 'severity', type: 'select' as const, label: 'Severity', options: ['low', 'high'] }];
+      const session = await startedSession({ adapter, fields });
+
+      await session.submit({ ...draft, fields: { severity: 'high' } });
+
+      expect(adapter.createIssue).toHaveBeenCalledWith(expect.objectContaining({
+        fields: { severity: 'high' },
+        fieldLabels: { severity: 'Severity' },
+      }));
+    });
+
+    it('queues the report while offline without calling the tracker', async () => {
+      const adapter = createAdapter();
+      const queue = createQueue();
+      const session = await startedSession({ adapter, queue, isOnline: () => false });
+      const queued = jest.fn();
+      session.on('queued', queued);
+
+      const result = await session.submit(draft);
+
+      expect(result).toEqual({ status: 'queued' });
+      expect(adapter.createIssue).not.toHaveBeenCalled();
+      expect(queue.enqueue).toHaveBeenCalledTimes(1);
+      expect(queued).toHaveBeenCalledTimes(1);
+      expect(session.getState()).toMatchObject({ status: 'success', result: { status: 'queued' } });
+    });
+
+    it('queues the report when the tracker is unreachable', async () => {
+      const adapter = createAdapter({ createIssue: jest.fn().mockRejectedValue(new NetworkError()) });
+      const queue = createQueue();
+      const session = await startedSession({ adapter, queue });
+
+      await expect(session.submit(draft)).resolves.toEqual({ status: 'queued' });
+      expect(queue.enqueue).toHaveBeenCalledTimes(1);
+    });
+
+    it('fails when the offline queue cannot store the report', async () => {
+      const indexedDB = {
+        open: () => {
+          throw new Error('IndexedDB is unavailable');
+        },
+      };
+      Object.defineProperty(globalThis, 'indexedDB', { value: indexedDB, configurable: true });
+      const adapter = createAdapter();
+      const queue = new SubmissionQueue({ adapter });
+      const onError = jest.fn();
+      const session = await startedSession({ adapter, queue, onError, isOnline: () => false });
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      await expect(session.submit(draft)).rejects.toMatchObject({ code: 'network' });
+      expect(adapter.createIssue).not.toHaveBeenCalled();
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(session.getState().status).toBe('error');
+    });
+
+    it('can be submitted again after an error', async () => {
+      const createIssue = jest.fn()
+        .mockRejectedValueOnce(new ValidationError())
+        .mockResolvedValueOnce(issue);
+      const onError = jest.fn();
+      const session = await startedSession({ adapter: createAdapter({ createIssue }), onError });
+
+      await expect(session.submit(draft)).rejects.toBeInstanceOf(ValidationError);
+      expect(session.getState()).toMatchObject({ status: 'error', error: expect.any(ValidationError) });
+
+      await expect(session.submit(draft)).resolves.toEqual({ status: 'created', response: issue });
+      expect(session.getState()).toMatchObject({ status: 'success', error: null });
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not settle a submission that finishes after a reset', async () => {
+      let resolveIssue: (value: typeof issue) => void = () => undefined;
+      const createIssue = jest.fn(() => new Promise<typeof issue>((resolve) => { resolveIssue = resolve; }));
+      const session = await startedSession({ adapter: createAdapter({ createIssue }) });
+
+      const submitting = session.submit(draft);
+      session.reset();
+      resolveIssue(issue);
+      await submitting;
+
+      expect(session.getState().status).toBe('idle');
+    });
+  });
+
+  describe('comment', () => {
+    it('adds the draft as a comment to an existing issue', async () => {
+      const adapter = createAdapter();
+      const session = await startedSession({ adapter });
+      const commented = jest.fn();
+      session.on('commented', commented);
+
+      const result = await session.comment(7, draft);
+
+      expect(result).toEqual({ status: 'commented', issueId: 7, response: { id: 1 } });
+      expect(adapter.addComment).toHaveBeenCalledWith(7, expect.objectContaining({ description: draft.description }));
+      expect(adapter.createIssue).not.toHaveBeenCalled();
+      expect(commented).toHaveBeenCalledTimes(1);
+      expect(session.getState().status).toBe('success');
+    });
+
+    it('adds details after the issue was created', async () => {
+      const session = await startedSession();
+      await session.submit(draft);
+
+      session.edit();
+      await session.comment(issue.id, { title: issue.title, description: 'It also happens on mobile' });
+
+      expect(session.getState()).toMatchObject({ status: 'success', result: { status: 'commented' } });
+    });
+
+    it('throws when the adapter cannot comment', async () => {
+      const session = await startedSession({ adapter: { createIssue: jest.fn() } });
+
+      await expect(session.comment(7, draft)).rejects.toThrow('cannot add comments');
+      expect(session.getState().status).toBe('editing');
+    });
+  });
+});
@@ -0,0 +1,402 @@
+import type { CommentResponse, FeedbackAttachment, FeedbackData, FeedbackReporterConfig, IssueResponse } from '../types';
+import { FieldValue, collectFieldValues, getFieldLabels } from './fields';
+import { captureScreenshot, getSystemMetadata } from './screenshot';
+import { ConsoleLogEntry, getConsoleEntries } from './console';
+import { NetworkEntry, getNetworkEntries } from './network';
+import { SessionRecording, getSessionRecording } from './replay';
+import { EventEmitter } from './events';
+import { IssueReporterError, NetworkError, toIssueReporterError } from './errors';
+import { SubmissionQueue, isRetryableError } from './queue';
+
+/**
+ * Values the modal is opened with, e.g. from an error boundary or a "Something went wrong" toast
+ */
+export interface FeedbackPrefill {
+  title?: string;
+  description?: string;
+  /**
+   * Preselected labels
+   */
+  labels?: string[];
+  /**
+   * Extra metadata, sent with the report even when the system information toggle is off
+   */
+  metadata?: Record<string, unknown>;
+  /**
+   * Screenshot to use instead of capturing the page; `null` opens the modal without one
+   */
+  screenshot?: Blob | null;
+  /**
+   * Values of the custom fields, keyed by name
+   */
+  fields?: Record<string, FieldValue>;
+}
+
+/**
+ * idle → capturing → editing → submitting → success or error
+ * From error the report can be submitted again; `reset()` returns to idle from anywhere
+ */
+export type FeedbackSessionStatus = 'idle' | 'capturing' | 'editing' | 'submitting' | 'success' | 'error';
+
+export interface FeedbackSessionState {
+  status: FeedbackSessionStatus;
+  prefill: FeedbackPrefill;
+  /**
+   * Screenshot captured on start, or the one from the prefill
+   */
+  screenshot: Blob | null;
+  /**
+   * Console output, network requests and session replay recorded up to the start
+   */
+  logs: ConsoleLogEntry[];
+  networkRequests: NetworkEntry[];
+  sessionRecording: SessionRecording | null;
+  /**
+   * Outcome of the last submission, set in the success state
+   */
+  result: SubmitResult | CommentResult | null;
+  /**
+   * Why the last submission failed, set in the error state
+   */
+  error: IssueReporterError | null;
+}
+
+export type SubmitResult =
+  | { status: 'created'; response: IssueResponse }
+  | { status: 'queued' };
+
+export interface CommentResult {
+  status: 'commented';
+  issueId: string | number;
+  response: CommentResponse;
+}
+
+/**
+ * What the user entered in the form; everything else comes from the session and its configuration
+ */
+export interface FeedbackDraft {
+  title: string;
+  description: string;
+  labels?: string[];
+  /**
+   * Raw values of the custom fields, keyed by name
+   */
+  fields?: Record<string, FieldValue>;
+  includeMetadata?: boolean;
+  /**
+   * Screenshot to attach instead of the captured one, e.g. after editing; `null` leaves it out
+   */
+  screenshot?: Blob | null;
+  /**
+   * Element or region the screenshot was limited to
+   */
+  selection?: Record<string, unknown> | null;
+  /**
+   * Attach the recorded console output, network requests and replay (default: true)
+   */
+  includeLogs?: boolean;
+  includeNetwork?: boolean;
+  includeSession?: boolean;
+  video?: Blob | null;
+  attachments?: FeedbackAttachment[];
+}
+
+export type FeedbackSessionEvents = {
+  change: FeedbackSessionState;
+  captured: Blob | null;
+  submitted: FeedbackData;
+  succeeded: { feedback: FeedbackData; response: IssueResponse };
+  /**
+   * The report was stored in the offline queue and will be sent later
+   */
+  queued: FeedbackData;
+  /**
+   * The report was added as a comment to an existing issue
+   */
+  commented: { feedback: FeedbackData; issueId: string | number; response: CommentResponse };
+  failed: { feedback: FeedbackData; error: IssueReporterError };
+};
+
+/**
+ * Browser APIs the session uses, replaceable e.g. to run it without a DOM in tests
+ */
+export interface FeedbackSessionDependencies {
+  /**
+   * Captures the page on start (default: `captureScreenshot`)
+   */
+  captureScreenshot?: typeof captureScreenshot;
+  /**
+   * Browser, OS, screen and page information for the system information toggle (default: `getSystemMetadata`)
+   */
+  getSystemMetadata?: typeof getSystemMetadata;
+  /**
+   * Whether the browser is online; while it is not, reports go straight to the queue (default: `navigator.onLine`)
+   */
+  isOnline?: () => boolean;
+}
+
+export type FeedbackSessionConfig = FeedbackSessionDependencies & Pick<
+  FeedbackReporterConfig,
+  | 'adapter'
+  | 'queue'
+  | 'privacy'
+  | 'screenshotEngine'
+  | 'captureConsole'
+  | 'captureNetwork'
+  | 'captureSession'
+  | 'fields'
+  | 'reporter'
+  | 'onSuccess'
+  | 'onError'
+>;
+
+const TRANSITIONS: Record<FeedbackSessionStatus, FeedbackSessionStatus[]> = {
+  idle: ['capturing'],
+  capturing: ['editing'],
+  editing: ['submitting'],
+  submitting: ['success', 'error'],
+  success: ['editing'],
+  error: ['submitting', 'editing'],
+};
+
+const INITIAL_STATE: FeedbackSessionState = {
+  status: 'idle',
+  prefill: {},
+  screenshot: null,
+  logs: [],
+  networkRequests: [],
+  sessionRecording: null,
+  result: null,
+  error: null,
+};
+
+/**
+ * Framework-independent state machine for a single report: captures the page, builds
+ * `FeedbackData` from the form and submits it. The React and vanilla modals render its state;
+ * other renderers can drive it the same way.
+ *
+ * @example
+ * const session = new FeedbackSession({ adapter });
+ * session.on('change', render);
+ * await session.start();
+ * await session.submit({ title, description, includeMetadata: true });
+ */
+export class FeedbackSession extends EventEmitter<FeedbackSessionEvents> {
+  private config: FeedbackSessionConfig;
+  private state: FeedbackSessionState = INITIAL_STATE;
+  // Incremented by reset(), so a capture that finishes after a reset is discarded
+  private generation = 0;
+
+  constructor(config: FeedbackSessionConfig) {
+    super();
+    this.config = config;
+  }
+
+  /**
+   * Replaces the configuration, e.g. when React props change
+   */
+  configure(config: FeedbackSessionConfig): void {
+    this.config = config;
+  }
+
+  getState(): FeedbackSessionState {
+    return this.state;
+  }
+
+  /**
+   * Captures a screenshot (unless the prefill supplies one) and snapshots the recorders
+   * A failed capture goes to editing without a screenshot
+   * Does nothing unless the session is idle
+   */
+  async start(prefill: FeedbackPrefill = {}): Promise<void> {
+    if (this.state.status !== 'idle') return;
+
+    const generation = this.generation;
+    this.transition('capturing', { prefill });
+    const capture = this.config.captureScreenshot || captureScreenshot;
+    let screenshot: Blob | null = null;
+    if (prefill.screenshot !== undefined) {
+      screenshot = prefill.screenshot;
+    } else {
+      try {
+        screenshot = await capture(undefined, this.config.privacy, this.config.screenshotEngine);
+      } catch (error) {
+        // The form still works without a screenshot; the user can upload or paste one
+        console.warn('[issue-reporter] Failed to capture the screenshot:', error);
+      }
+    }
+
+    // Reset while capturing, possibly followed by another start
+    if (generation !== this.generation) return;
+
+    this.emit('captured', screenshot);
+    const { captureConsole, captureNetwork, captureSession } = this.config;
+    this.transition('editing', {
+      screenshot,
+      logs: captureConsole ? getConsoleEntries() : [],
+      networkRequests: captureNetwork ? getNetworkEntries() : [],
+      sessionRecording: captureSession ? getSessionRecording() : null,
+    });
+  }
+
+  /**
+   * Goes back to the form after a submission, e.g. to correct it after an error
+   */
+  edit(): void {
+    this.transition('editing', { result: null, error: null });
+  }
+
+  /**
+   * Builds the report from the draft, the captured data and the configuration
+   */
+  buildFeedbackData(draft: FeedbackDraft): FeedbackData {
+    const { prefill, logs, networkRequests, sessionRecording } = this.state;
+    const screenshot = draft.screenshot !== undefined ? draft.screenshot : this.state.screenshot;
+    const getMetadata = this.config.getSystemMetadata || getSystemMetadata;
+    const systemMetadata = draft.includeMetadata ? getMetadata(this.config.privacy) : undefined;
+    const metadata = prefill.metadata ? { ...systemMetadata, ...prefill.metadata } : systemMetadata;
+    const fields = collectFieldValues(this.config.fields || [], draft.fields || {});
+
+    return {
+      title: draft.title.trim(),
+      description: draft.description.trim(),
+      screenshot: screenshot || undefined,
+      metadata: draft.selection && screenshot ? { ...metadata, selection: draft.selection } : metadata,
+      labels: draft.labels && draft.labels.length > 0 ? draft.labels : undefined,
+      logs: draft.includeLogs !== false && logs.length > 0 ? logs : undefined,
+      networkRequests: draft.includeNetwork !== false && networkRequests.length > 0 ? networkRequests : undefined,
+      sessionRecording: draft.includeSession !== false && sessionRecording ? sessionRecording : undefined,
+      video: draft.video || undefined,
+      attachments: draft.attachments && draft.attachments.length > 0 ? draft.attachments : undefined,
+      fields,
+      fieldLabels: fields ? getFieldLabels(this.config.fields) : undefined,
+      reporter: this.config.reporter,
+    };
+  }
+
+  /**
+   * Builds the report from the draft and submits it
+   * @throws IssueReporterError when the report was neither created nor queued
+   */
+  submit(draft: FeedbackDraft): Promise<SubmitResult> {
+    return this.send(this.buildFeedbackData(draft));
+  }
+
+  /**
+   * Creates the issue, or stores the report in the offline queue when the tracker is unreachable
+   * @throws IssueReporterError when the report was neither created nor queued
+   */
+  async send(feedback: FeedbackData): Promise<SubmitResult> {
+    const { adapter, queue, onSuccess, isOnline = () => navigator.onLine } = this.config;
+    this.transition('submitting', { result: null, error: null });
+    this.emit('submitted', feedback);
+
+    // Offline: store the report and let the queue send it later
+    if (queue && !isOnline()) {
+      const queued = await this.enqueue(queue, feedback);
+      return queued || this.fail(feedback, new NetworkError('Offline and the report could not be queued'));
+    }
+
+    try {
+      const response = await adapter.createIssue(feedback);
+      if (!response) {
+        throw new IssueReporterError('Failed to create issue');
+      }
+
+      const result: SubmitResult = { status: 'created', response };
+      this.settle('success', { result });
+      onSuccess?.(response);
+      this.emit('succeeded', { feedback, response });
+      return result;
+    } catch (error) {
+      const err = toIssueReporterError(error);
+      const queued = queue && isRetryableError(err) ? await this.enqueue(queue, feedback) : null;
+      return queued || this.fail(feedback, err);
+    }
+  }
+
+  /**
+   * Adds the report as a comment to an existing issue instead of creating one,
+   * e.g. to a similar issue or to add details to the issue just created
+   * Comments are not queued while offline
+   * @throws IssueReporterError when the adapter cannot comment or the comment was not added
+   */
+  async comment(issueId: string | number, draft: FeedbackDraft): Promise<CommentResult> {
+    const { adapter } = this.config;
+    if (!adapter.addComment) {
+      throw new IssueReporterError('The adapter cannot add comments to issues');
+    }
+
+    const feedback = this.buildFeedbackData(draft);
+    this.transition('submitting', { result: null, error: null });
+
+    try {
+      const response = await adapter.addComment(issueId, feedback);
+      if (!response) {
+        throw new IssueReporterError('Failed to add comment');
+      }
+
+      const result: CommentResult = { status: 'commented', issueId, response };
+      this.settle('success', { result });
+      this.emit('commented', { feedback, issueId, response });
+      return result;
+    } catch (error) {
+      return this.fail(feedback, toIssueReporterError(error));
+    }
+  }
+
+  /**
+   * Discards the report and returns to idle
+   */
+  reset(): void {
+    if (this.state.status === 'idle') return;
+    this.generation++;
+    this.setState(INITIAL_STATE);
+  }
+
+  /**
+   * Stores the report in the offline queue
+   * @returns null when it could not be stored, e.g. because IndexedDB is unavailable
+   */
+  private async enqueue(queue: SubmissionQueue, feedback: FeedbackData): Promise<SubmitResult | null> {
+    try {
+      await queue.enqueue(feedback);
+    } catch (error) {
+      console.warn('[issue-reporter] Failed to store the report in the offline queue:', error);
+      return null;
+    }
+
+    const result: SubmitResult = { status: 'queued' };
+    this.settle('success', { result });
+    this.emit('queued', feedback);
+    return result;
+  }
+
+  private fail(feedback: FeedbackData, error: IssueReporterError): never {
+    this.settle('error', { error });
+    this.config.onError?.(error);
+    this.emit('failed', { feedback, error });
+    throw error;
+  }
+
+  /**
+   * Ends a submission, unless the session was reset in the meantime
+   */
+  private settle(status: 'success' | 'error', next: Partial<FeedbackSessionState>) {
+    if (this.state.status === 'submitting') {
+      this.transition(status, next);
+    }
+  }
+
+  private transition(status: FeedbackSessionStatus, next: Partial<FeedbackSessionState> = {}) {
+    if (!TRANSITIONS[this.state.status].includes(status)) {
+      throw new Error(`[issue-reporter] Cannot go from "${this.state.status}" to "${status}"`);
+    }
+    this.setState({ ...next, status });
+  }
+
+  private setState(next: Partial<FeedbackSessionState>) {
+    this.state = { ...this.state, ...next };
+    this.emit('change', this.state);
+  }
+}
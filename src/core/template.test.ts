@@ -0,0 +1,90 @@
+import { DEFAULT_TEMPLATE, TemplateValues, buildTemplateValues, formatTable, renderTemplate } from './template';
+
+const feedback = { title: 'Checkout fails', description: 'The pay button does nothing' };
+
+function values(overrides: Partial<TemplateValues> = {}): TemplateValues {
+  return buildTemplateValues(feedback, 'markdown', overrides);
+}
+
+describe('renderTemplate', () => {
+  it('uses the default template and leaves out empty sections', () => {
+    const body = renderTemplate(undefined, values({ logs: '## Console Logs\nerror' }), feedback);
+
+    expect(body).toBe('The pay button does nothing\n\n## Console Logs\nerror');
+  });
+
+  it('fills placeholders with surrounding whitespace', () => {
+    const body = renderTemplate('**{{ title }}**\n{{description}}', values(), feedback);
+
+    expect(body).toBe('**Checkout fails**\nThe pay button does nothing');
+  });
+
+  it('collapses the blank lines left by empty sections', () => {
+    const body = renderTemplate('{{description}}\n\n{{fields}}\n\n\n{{logs}}\n\nThanks!', values(), feedback);
+
+    expect(body).toBe('The pay button does nothing\n\nThanks!');
+  });
+
+  it('keeps blank lines inside the values', () => {
+    const logs = '## Console Logs\nfirst\n\n\n\nsecond';
+    const body = renderTemplate('{{description}}\n\n{{logs}}', values({ logs }), feedback);
+
+    expect(body).toBe(`The pay button does nothing\n\n${logs}`);
+  });
+
+  it('does not fill placeholders that appear inside the values', () => {
+    const body = renderTemplate(undefined, values({ description: 'Shows {{screenshot}} literally' }), feedback);
+
+    expect(body).toBe('Shows {{screenshot}} literally');
+  });
+
+  it('removes unknown placeholders', () => {
+    expect(renderTemplate('{{description}} {{unknown}}', values(), feedback)).toBe('The pay button does nothing');
+  });
+
+  it('passes the values and feedback to a template function', () => {
+    const template = jest.fn((sections: TemplateValues) => `  ${sections.title}: ${sections.description}\n`);
+
+    expect(renderTemplate(template, values(), feedback)).toBe('Checkout fails: The pay button does nothing');
+    expect(template).toHaveBeenCalledWith(expect.objectContaining({ title: 'Checkout fails' }), feedback);
+  });
+
+  it('lists every section in the default template', () => {
+    Object.keys(values()).filter((name) => name !== 'title').forEach((name) => {
+      expect(DEFAULT_TEMPLATE).toContain(`{{${name}}}`);
+    });
+  });
+});
+
+describe('buildTemplateValues', () => {
+  it('shows the field labels in the details table', () => {
+    const { fields } = buildTemplateValues({
+      ...feedback,
+      fields: { severity: 'high', browserVersion: '125' },
+      fieldLabels: { severity: 'How bad is it?' },
+    }, 'text');
+
+    expect(fields).toBe('Details\n-------\nHow bad is it?: high\nBrowser version: 125');
+  });
+});
+
+describe('formatTable', () => {
+  const rows: [string, string][] = [['Browser', 'Firefox | 125'], ['Notes', 'line one\nline two']];
+
+  it('escapes pipes and newlines in Markdown cells', () => {
+    expect(formatTable(rows, ['Property', 'Value'], 'markdown')).toBe([
+      '| Property | Value |',
+      '| --- | --- |',
+      '| Browser | Firefox \\| 125 |',
+      '| Notes | line one line two |',
+    ].join('\n'));
+  });
+
+  it('renders Jira tables', () => {
+    expect(formatTable([['Browser', 'Firefox'], ['Notes', '']], ['Property', 'Value'], 'jira')).toBe([
+      '||Property||Value||',
+      '|Browser|Firefox|',
+      '|Notes| |',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,191 @@
+import type { FeedbackData, ReporterInfo } from '../types';
+
+/**
+ * Markup the issue body is written in
+ */
+export type TemplateFormat = 'markdown' | 'jira' | 'text';
+
+/**
+ * Rendered sections available as `{{placeholders}}` in a template.
+ * Each section includes its heading and is empty when the report has no such data.
+ */
+export interface TemplateValues {
+  title: string;
+  description: string;
+  fields: string;
+  reporter: string;
+  metadata: string;
+  logs: string;
+  network: string;
+  replay: string;
+  video: string;
+  attachments: string;
+  screenshot: string;
+  [name: string]: string;
+}
+
+/**
+ * A template string with `{{placeholders}}`, or a function building the body from the rendered sections
+ */
+export type IssueTemplate = string | ((values: TemplateValues, feedback: FeedbackData) => string);
+
+/**
+ * Default layout; sections without data are left out
+ */
+export const DEFAULT_TEMPLATE = [
+  '{{description}}',
+  '{{fields}}',
+  '{{reporter}}',
+  '{{metadata}}',
+  '{{logs}}',
+  '{{network}}',
+  '{{replay}}',
+  '{{video}}',
+  '{{attachments}}',
+  '{{screenshot}}',
+].join('\n\n');
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Fills a template with the rendered sections
+ */
+export function renderTemplate(
+  template: IssueTemplate | undefined,
+  values: TemplateValues,
+  feedback: FeedbackData
+): string {
+  if (typeof template === 'function') {
+    return template(values, feedback).trim();
+  }
+
+  // Drop empty sections and the blank lines around them before filling in the
+  // values, so blank lines inside the values (e.g. in logs) stay untouched
+  return (template || DEFAULT_TEMPLATE)
+    .replace(PLACEHOLDER, (match, name: string) => (values[name] ? match : ''))
+    .replace(/\n[ \t]*\n(?:[ \t]*\n)+/g, '\n\n')
+    .trim()
+    .replace(PLACEHOLDER, (_, name: string) => values[name]);
+}
+
+/**
+ * Section heading in the given format
+ */
+export function formatHeading(text: string, format: TemplateFormat): string {
+  switch (format) {
+    case 'markdown':
+      return `## ${text}`;
+    case 'jira':
+      return `h2. ${text}`;
+    default:
+      return `${text}\n${'-'.repeat(text.length)}`;
+  }
+}
+
+/**
+ * Two-column table in the given format; plain text uses `Key: value` lines
+ */
+export function formatTable(rows: [string, string][], headers: [string, string], format: TemplateFormat): string {
+  const cell = (value: string) => value.replace(/\r?\n/g, ' ').replace(/\|/g, '\\|');
+
+  switch (format) {
+    case 'markdown':
+      return [
+        `| ${headers[0]} | ${headers[1]} |`,
+        '| --- | --- |',
+        ...rows.map(([key, value]) => `| ${cell(key)} | ${cell(value)} |`),
+      ].join('\n');
+    case 'jira':
+      return [
+        `||${headers[0]}||${headers[1]}||`,
+        ...rows.map(([key, value]) => `|${cell(key)}|${cell(value) || ' '}|`),
+      ].join('\n');
+    default:
+      return rows.map(([key, value]) => `${key}: ${value}`).join('\n');
+  }
+}
+
+/**
+ * Turns a camelCase key into a label, e.g. `browserVersion` → `Browser version`
+ */
+export function humanizeKey(key: string): string {
+  const words = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Readable cell value for metadata and field values
+ */
+export function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '-';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.map(formatValue).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * System information as a table
+ */
+export function buildMetadataSection(metadata: Record<string, unknown> | undefined, format: TemplateFormat): string {
+  if (!metadata || Object.keys(metadata).length === 0) return '';
+
+  const rows = Object.keys(metadata).map((key): [string, string] => [humanizeKey(key), formatValue(metadata[key])]);
+  return `${formatHeading('System Information', format)}\n${formatTable(rows, ['Property', 'Value'], format)}`;
+}
+
+/**
+ * Custom form field values as a table
+ * @param labels Display names by field name; unknown fields are humanized
+ */
+export function buildFieldsSection(
+  fields: Record<string, unknown> | undefined,
+  format: TemplateFormat,
+  labels: Record<string, string> = {}
+): string {
+  if (!fields || Object.keys(fields).length === 0) return '';
+
+  const rows = Object.keys(fields).map((name): [string, string] => [
+    labels[name] || humanizeKey(name),
+    formatValue(fields[name]),
+  ]);
+  return `${formatHeading('Details', format)}\n${formatTable(rows, ['Field', 'Value'], format)}`;
+}
+
+/**
+ * Who filed the report
+ */
+export function buildReporterSection(reporter: ReporterInfo | undefined, format: TemplateFormat): string {
+  if (!reporter) return '';
+
+  const rows = Object.keys(reporter)
+    .filter((key) => reporter[key] !== undefined && reporter[key] !== '')
+    .map((key): [string, string] => [humanizeKey(key), formatValue(reporter[key])]);
+  if (rows.length === 0) return '';
+
+  return `${formatHeading('Reporter', format)}\n${formatTable(rows, ['Property', 'Value'], format)}`;
+}
+
+/**
+ * Sections every adapter renders the same way; adapters add their upload-dependent sections
+ */
+export function buildTemplateValues(
+  feedback: FeedbackData,
+  format: TemplateFormat,
+  sections: Partial<TemplateValues> = {}
+): TemplateValues {
+  return {
+    title: feedback.title,
+    description: feedback.description,
+    fields: buildFieldsSection(feedback.fields, format, feedback.fieldLabels),
+    reporter: buildReporterSection(feedback.reporter, format),
+    metadata: buildMetadataSection(feedback.metadata, format),
+    logs: '',
+    network: '',
+    replay: '',
+    video: '',
+    attachments: '',
+    screenshot: '',
+    ...sections,
+  } as TemplateValues;
+}
@@ -0,0 +1,155 @@
+export interface ScreenRecorderOptions {
+  /**
+   * Recording stops automatically after this many seconds (default: 30)
+   */
+  maxDuration?: number;
+  /**
+   * Frames per second requested from the browser (default: 15)
+   */
+  frameRate?: number;
+  /**
+   * Text next to the timer in the recording indicator (default: 'Recording')
+   */
+  recordingLabel?: string;
+  /**
+   * Text of the stop button in the recording indicator (default: 'Stop')
+   */
+  stopButtonText?: string;
+}
+
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+/**
+ * Whether the browser can record the screen
+ */
+export function isScreenRecordingSupported(): boolean {
+  return typeof navigator !== 'undefined' &&
+    !!navigator.mediaDevices?.getDisplayMedia &&
+    typeof MediaRecorder !== 'undefined';
+}
+
+/**
+ * Records the screen until the user presses stop, stops sharing, or the maximum duration is reached.
+ * A recording indicator with a stop button is shown on the page meanwhile.
+ * @returns The WebM clip, or null when recording is unsupported or the user denied permission
+ */
+export async function recordScreen(options: ScreenRecorderOptions = {}): Promise<Blob | null> {
+  if (!isScreenRecordingSupported()) {
+    console.warn('[issue-reporter] Screen recording is not supported in this browser');
+    return null;
+  }
+
+  const maxDuration = options.maxDuration || 30;
+
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getDisplayMedia({
+      video: { displaySurface: 'browser', frameRate: options.frameRate || 15 },
+      audio: false,
+      // Chromium: offer the current tab first
+      preferCurrentTab: true,
+      selfBrowserSurface: 'include',
+    } as DisplayMediaStreamOptions);
+  } catch (error) {
+    console.warn('[issue-reporter] Screen recording was not started:', error);
+    return null;
+  }
+
+  const mimeType = MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+
+  return new Promise((resolve) => {
+    const indicator = createIndicator(options, maxDuration, () => stop());
+    const timeout = setTimeout(() => stop(), maxDuration * 1000);
+
+    function stop() {
+      if (recorder.state !== 'inactive') {
+        recorder.stop();
+      }
+    }
+
+    recorder.addEventListener('dataavailable', (e) => {
+      if (e.data.size > 0) {
+        chunks.push(e.data);
+      }
+    });
+
+    recorder.addEventListener('stop', () => {
+      clearTimeout(timeout);
+      indicator.destroy();
+      stream.getTracks().forEach((track) => track.stop());
+      resolve(chunks.length > 0 ? new Blob(chunks, { type: 'video/webm' }) : null);
+    });
+
+    // The user stopped sharing from the browser UI
+    stream.getVideoTracks()[0]?.addEventListener('ended', stop);
+
+    recorder.start(1000);
+  });
+}
+
+/**
+ * Floating indicator with elapsed time and a stop button, shown outside the modal
+ */
+function createIndicator(options: ScreenRecorderOptions, maxDuration: number, onStop: () => void) {
+  const indicator = document.createElement('div');
+  indicator.setAttribute('data-feedback-indicator', '');
+  indicator.style.cssText = `
+    position: fixed;
+    bottom: 20px;
+    left: 50%;
+    transform: translateX(-50%);
+    z-index: 2147483646;
+    display: flex;
+    align-items: center;
+    gap: 12px;
+    padding: 8px 8px 8px 16px;
+    background: rgba(0, 0, 0, 0.85);
+    color: white;
+    border-radius: 24px;
+    font: 14px system-ui, -apple-system, sans-serif;
+    box-shadow: 0 4px 12px rgba(0, 0, 0, 0.3);
+  `;
+
+  const dot = document.createElement('span');
+  dot.style.cssText = 'width: 10px; height: 10px; border-radius: 50%; background: #f44336;';
+
+  const label = document.createElement('span');
+
+  const stopButton = document.createElement('button');
+  stopButton.type = 'button';
+  stopButton.textContent = options.stopButtonText || 'Stop';
+  stopButton.style.cssText = `
+    padding: 6px 14px;
+    border: none;
+    border-radius: 16px;
+    background: #f44336;
+    color: white;
+    font-weight: 600;
+    cursor: pointer;
+  `;
+  stopButton.addEventListener('click', onStop);
+
+  indicator.appendChild(dot);
+  indicator.appendChild(label);
+  indicator.appendChild(stopButton);
+  document.body.appendChild(indicator);
+
+  const startedAt = Date.now();
+  const format = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  const update = () => {
+    const elapsed = Math.min(maxDuration, Math.floor((Date.now() - startedAt) / 1000));
+    label.textContent = `${options.recordingLabel || 'Recording'} ${format(elapsed)} / ${format(maxDuration)}`;
+    dot.style.visibility = elapsed % 2 === 0 ? 'visible' : 'hidden';
+  };
+  update();
+  const interval = setInterval(update, 500);
+
+  return {
+    destroy() {
+      clearInterval(interval);
+      indicator.remove();
+    },
+  };
+}
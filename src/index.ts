@@ -1,22 +1,141 @@
 // Core functionality
-export { captureScreenshot, getSystemMetadata, blobToBase64 } from './core/screenshot';
+export { captureScreenshot, captureRegion, captureSelection, getSystemMetadata } from './core/screenshot';
+export { pickTarget, getCssSelector, describeSelection } from './core/picker';
+export type { PickResult, PickerOptions } from './core/picker';
+export { domEngine, displayMediaEngine } from './core/screenshotEngines';
+export type { ScreenshotEngine, ScreenshotEngineOption, ScreenshotTarget } from './core/screenshotEngines';
+export { recordScreen, isScreenRecordingSupported } from './core/video';
+export type { ScreenRecorderOptions } from './core/video';
+export { addAttachments, toAttachment, formatFileSize } from './core/attachments';
+export type { AttachmentOptions, RejectedFile } from './core/attachments';
+export {
+  renderTemplate,
+  buildTemplateValues,
+  buildMetadataSection,
+  buildFieldsSection,
+  buildReporterSection,
+  formatHeading,
+  formatTable,
+  DEFAULT_TEMPLATE,
+} from './core/template';
+export type { IssueTemplate, TemplateFormat, TemplateValues } from './core/template';
+export { validateField, validateFields, collectFieldValues, getFieldLabels, getInitialFieldValues } from './core/fields';
+export type {
+  FieldDefinition,
+  FieldType,
+  FieldOption,
+  FieldValue,
+  FieldValidationMessages,
+} from './core/fields';
+export { FeedbackController } from './core/controller';
+export type {
+  FeedbackPrefill,
+  FeedbackControllerState,
+  FeedbackControllerEvents,
+  FeedbackControllerConfig,
+} from './core/controller';
+export { FeedbackSession } from './core/session';
+export type {
+  FeedbackSessionState,
+  FeedbackSessionStatus,
+  FeedbackSessionEvents,
+  FeedbackSessionConfig,
+  FeedbackSessionDependencies,
+  FeedbackDraft,
+  SubmitResult,
+  CommentResult,
+} from './core/session';
+export { ErrorPrompt, buildErrorPrefill } from './core/errorPrompt';
+export type { ErrorPromptOptions, CaughtError, ErrorSource } from './core/errorPrompt';
+export { blobToBase64 } from './core/blob';
+export { applyPrivacyMasks, findMaskedElements, redactUrl, MASK_ATTRIBUTE } from './core/privacy';
+export type { PrivacyOptions } from './core/privacy';
+export {
+  IssueReporterError,
+  AuthenticationError,
+  PermissionDeniedError,
+  RateLimitError,
+  ValidationError,
+  PayloadTooLargeError,
+  NetworkError,
+  createErrorFromResponse,
+  toIssueReporterError,
+  getErrorMessage,
+} from './core/errors';
+export type { IssueReporterErrorCode } from './core/errors';
+export { SubmissionQueue, isRetryableError } from './core/queue';
+export {
+  ConsoleRecorder,
+  startConsoleRecorder,
+  stopConsoleRecorder,
+  getConsoleEntries,
+  formatConsoleLogs,
+} from './core/console';
+export type { ConsoleLogEntry, ConsoleLogLevel, ConsoleRecorderOptions } from './core/console';
+export {
+  NetworkRecorder,
+  startNetworkRecorder,
+  stopNetworkRecorder,
+  getNetworkEntries,
+  createHar,
+} from './core/network';
+export type { NetworkEntry, NetworkRecorderOptions } from './core/network';
+export {
+  SessionRecorder,
+  startSessionRecorder,
+  stopSessionRecorder,
+  getSessionRecording,
+} from './core/replay';
+export type { SessionRecording, SessionRecorderOptions, ReplayEvent, SerializedNode } from './core/replay';
+export type {
+  QueuedSubmission,
+  SubmissionQueueStatus,
+  SubmissionQueueOptions,
+  SubmissionQueueEvents,
+} from './core/queue';
 
 // Types
 export type {
   IssueTrackerConfig,
   FeedbackData,
+  FeedbackAttachment,
+  ReporterInfo,
+  FieldMapper,
   IssueResponse,
+  IssueSearchResult,
+  CommentResponse,
   IssueTrackerAdapter,
   FeedbackReporterConfig,
 } from './types';
 
 // Adapters
-export { GitLabAdapter, GitHubAdapter } from './adapters';
-export type { GitLabConfig, GitHubConfig } from './adapters';
+export { GitLabAdapter, GitHubAdapter, JiraAdapter, ProxyAdapter } from './adapters';
+export type { GitLabConfig, GitHubConfig, JiraConfig, ProxyConfig } from './adapters';
 
 // React components
-export { FeedbackButton, FeedbackModal } from './react';
-export type { FeedbackButtonProps, FeedbackModalProps } from './react';
+export {
+  FeedbackButton,
+  FeedbackModal,
+  ReplayPlayer,
+  FeedbackReporterProvider,
+  useFeedbackReporter,
+  FeedbackErrorBoundary,
+} from './react';
+export type {
+  FeedbackButtonProps,
+  FeedbackModalProps,
+  ReplayPlayerProps,
+  FeedbackReporterProviderProps,
+  FeedbackErrorBoundaryProps,
+  FeedbackErrorFallbackProps,
+} from './react';
 
 // Vanilla JS
 export { createFeedbackReporter } from './vanilla';
+export type { FeedbackReporterMountOptions } from './vanilla';
+export { defineIssueReporterElement } from './vanilla/element';
+export type { IssueReporterElement, IssueErrorEventDetail } from './vanilla/element';
+export { createReplayPlayer } from './vanilla/replayPlayer';
+export type { ReplayPlayerInstance, ReplayPlayerOptions } from './vanilla/replayPlayer';
+export { createScreenshotEditor } from './vanilla/editor';
+export type { ScreenshotEditorInstance, ScreenshotEditorOptions } from './vanilla/editor';
@@ -1,7 +1,8 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { FeedbackReporterConfig } from '../types';
 import { FeedbackModal } from './FeedbackModal';
 import { captureScreenshot } from '../core/screenshot';
+import { useRecorders } from './useRecorders';
 
 export interface FeedbackButtonProps extends FeedbackReporterConfig {
   buttonClassName?: string;
@@ -23,15 +24,46 @@ export const FeedbackButton: React.FC<FeedbackButtonProps> = ({
   textLabels,
   buttonClassName,
   position = 'bottom-right',
+  queue,
+  captureConsole,
+  captureNetwork,
+  captureSession,
+  privacy,
+  screenshotEngine,
+  recordVideo,
+  attachments,
+  reporter,
+  fields,
+  detectDuplicates,
 }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [capturedScreenshot, setCapturedScreenshot] = useState<Blob | null>(null);
   const [isCapturing, setIsCapturing] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+
+  // Record console output, network traffic and the session while the button is mounted
+  useRecorders({ captureConsole, captureNetwork, captureSession, privacy });
+
+  // Start the offline queue and track pending submissions for the badge
+  useEffect(() => {
+    if (!queue) return;
+
+    setPendingCount(queue.getStatus().pending);
+    const unsubscribe = queue.on('change', (status) => setPendingCount(status.pending));
+    queue.start();
+
+    return () => {
+      unsubscribe();
+      queue.stop();
+    };
+  }, [queue]);
 
   // Default text labels
   const defaultLabels = {
     buttonText: 'Report Issue',
+    buttonAriaLabel: 'Report an issue',
     capturingButtonText: 'Capturing...',
+    pendingBadgeLabel: 'reports waiting to be sent',
     ...textLabels,
   };
 
@@ -39,7 +71,7 @@ export const FeedbackButton: React.FC<FeedbackButtonProps> = ({
     setIsCapturing(true);
 
     // Capture screenshot BEFORE opening modal
-    const screenshot = await captureScreenshot();
+    const screenshot = await captureScreenshot(undefined, privacy, screenshotEngine);
     setCapturedScreenshot(screenshot);
 
     setIsCapturing(false);
@@ -78,7 +110,7 @@ export const FeedbackButton: React.FC<FeedbackButtonProps> = ({
         onClick={handleOpenModal}
         className={buttonClassName}
         style={position !== 'none' ? { ...defaultButtonStyle, ...positionStyles[position] } : undefined}
-        aria-label="Report an issue"
+        aria-label={defaultLabels.buttonAriaLabel}
         data-feedback-button
         disabled={isCapturing}
         onMouseEnter={(e) => {
@@ -99,6 +131,26 @@ export const FeedbackButton: React.FC<FeedbackButtonProps> = ({
         }}
       >
         {isCapturing ? defaultLabels.capturingButtonText : defaultLabels.buttonText}
+        {pendingCount > 0 && (
+          <span
+            title={`${pendingCount} ${defaultLabels.pendingBadgeLabel}`}
+            aria-label={`${pendingCount} ${defaultLabels.pendingBadgeLabel}`}
+            style={{
+              display: 'inline-block',
+              minWidth: '18px',
+              marginLeft: '8px',
+              padding: '0 5px',
+              borderRadius: '9px',
+              backgroundColor: '#f44336',
+              color: 'white',
+              fontSize: '12px',
+              lineHeight: '18px',
+              textAlign: 'center',
+            }}
+          >
+            {pendingCount}
+          </span>
+        )}
       </button>
 
       {isModalOpen && (
@@ -112,6 +164,17 @@ export const FeedbackButton: React.FC<FeedbackButtonProps> = ({
           initialScreenshot={capturedScreenshot}
           modalStyles={modalStyles}
           textLabels={textLabels}
+          queue={queue}
+          captureConsole={captureConsole}
+          captureNetwork={captureNetwork}
+          captureSession={captureSession}
+          privacy={privacy}
+          screenshotEngine={screenshotEngine}
+          recordVideo={recordVideo}
+          attachments={attachments}
+          reporter={reporter}
+          fields={fields}
+          detectDuplicates={detectDuplicates}
         />
       )}
     </>
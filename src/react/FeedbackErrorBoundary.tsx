@@ -0,0 +1,142 @@
+import React from 'react';
+import { TextLabels } from '../types';
+import { FeedbackController } from '../core/controller';
+import { ErrorPrompt, ErrorPromptOptions, CaughtError, buildErrorPrefill, toError } from '../core/errorPrompt';
+import { FeedbackReporterContext } from './FeedbackReporterProvider';
+
+export interface FeedbackErrorFallbackProps {
+  error: Error;
+  /**
+   * Opens the reporter prefilled with the error, without rate limiting
+   */
+  report: () => void;
+  /**
+   * Renders the children again
+   */
+  reset: () => void;
+}
+
+export interface FeedbackErrorBoundaryProps {
+  children?: React.ReactNode;
+  /**
+   * Shown instead of the children after an error (default: a message with report and retry buttons)
+   */
+  fallback?: React.ReactNode | ((props: FeedbackErrorFallbackProps) => React.ReactNode);
+  /**
+   * Opens the reporter as soon as an error is caught (default: true)
+   */
+  promptOnError?: boolean | ErrorPromptOptions;
+  onError?: (error: Error, info: React.ErrorInfo) => void;
+  textLabels?: TextLabels;
+}
+
+interface FeedbackErrorBoundaryState {
+  caught: CaughtError | null;
+}
+
+/**
+ * Error boundary that opens the reporter of the surrounding FeedbackReporterProvider,
+ * prefilled with the error message, stack trace and component stack
+ */
+export class FeedbackErrorBoundary extends React.Component<FeedbackErrorBoundaryProps, FeedbackErrorBoundaryState> {
+  static contextType = FeedbackReporterContext;
+  declare context: FeedbackController | null;
+
+  state: FeedbackErrorBoundaryState = { caught: null };
+  private prompt: ErrorPrompt | null = null;
+
+  static getDerivedStateFromError(error: unknown): Partial<FeedbackErrorBoundaryState> {
+    return { caught: { error: toError(error), source: 'error-boundary' } };
+  }
+
+  componentDidCatch(error: Error, info: React.ErrorInfo) {
+    const caught: CaughtError = {
+      error: this.state.caught?.error || error,
+      source: 'error-boundary',
+      componentStack: info.componentStack || undefined,
+    };
+    this.setState({ caught });
+    this.props.onError?.(error, info);
+
+    const { promptOnError = true } = this.props;
+    if (!promptOnError) return;
+
+    if (!this.context) {
+      console.warn('[issue-reporter] FeedbackErrorBoundary must be used inside a FeedbackReporterProvider');
+      return;
+    }
+
+    const options = typeof promptOnError === 'object' ? promptOnError : undefined;
+    if (!this.prompt) {
+      this.prompt = new ErrorPrompt(this.context, options);
+    } else {
+      this.prompt.configure(options);
+    }
+    this.prompt.report(caught);
+  }
+
+  private report = () => {
+    const { caught } = this.state;
+    if (!caught || !this.context) return;
+
+    const { promptOnError } = this.props;
+    this.context
+      .open(buildErrorPrefill(caught, typeof promptOnError === 'object' ? promptOnError.prefill : undefined))
+      .catch((error) => console.warn('[issue-reporter] Failed to open the reporter:', error));
+  };
+
+  private reset = () => {
+    this.setState({ caught: null });
+  };
+
+  render() {
+    const { caught } = this.state;
+    if (!caught) return this.props.children;
+
+    const { fallback } = this.props;
+    if (typeof fallback === 'function') {
+      return fallback({ error: caught.error, report: this.report, reset: this.reset });
+    }
+    if (fallback !== undefined) return fallback;
+
+    const labels = {
+      errorFallbackMessage: 'Something went wrong.',
+      reportErrorButtonText: 'Report this problem',
+      retryButtonText: 'Try again',
+      ...this.props.textLabels,
+    };
+
+    const buttonStyle: React.CSSProperties = {
+      padding: '10px 20px',
+      border: 'none',
+      borderRadius: '6px',
+      cursor: 'pointer',
+      fontSize: '14px',
+      fontWeight: 600,
+    };
+
+    return (
+      <div role="alert" style={{ padding: '24px', textAlign: 'center' }}>
+        <p style={{ marginTop: 0, fontWeight: 600 }}>{labels.errorFallbackMessage}</p>
+        <div style={{ display: 'flex', gap: '12px', justifyContent: 'center' }}>
+          {this.context && (
+            <button
+              type="button"
+              onClick={this.report}
+              style={{ ...buttonStyle, backgroundColor: '#4CAF50', color: 'white' }}
+            >
+              {labels.reportErrorButtonText}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={this.reset}
+            style={{ ...buttonStyle, backgroundColor: '#f0f0f0', color: '#333' }}
+          >
+            {labels.retryButtonText}
+          </button>
+        </div>
+      </div>
+    );
+  }
+}
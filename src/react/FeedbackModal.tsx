@@ -1,13 +1,42 @@
 import React, { useState, useEffect } from 'react';
-import { FeedbackReporterConfig, FeedbackData, ModalStyles, TextLabels } from '../types';
-import { captureScreenshot, getSystemMetadata } from '../core/screenshot';
+import {
+  FeedbackReporterConfig,
+  FeedbackAttachment,
+  IssueResponse,
+  IssueSearchResult,
+  ModalStyles,
+  TextLabels,
+} from '../types';
+import { captureSelection } from '../core/screenshot';
+import { pickTarget, describeSelection } from '../core/picker';
+import { recordScreen, isScreenRecordingSupported } from '../core/video';
+import {
+  addAttachments,
+  getTransferFiles,
+  formatFileSize,
+  DEFAULT_MAX_FILE_SIZE,
+  DEFAULT_MAX_FILES,
+} from '../core/attachments';
+import { FieldValue, getInitialFieldValues, validateField, validateFields } from '../core/fields';
 import { ScreenshotEditor } from './ScreenshotEditor';
+import { FormField } from './FormField';
+import { getErrorMessage, toIssueReporterError } from '../core/errors';
+import { FeedbackController, FeedbackPrefill } from '../core/controller';
+import { FeedbackSessionState, FeedbackDraft } from '../core/session';
 
 export interface FeedbackModalProps extends FeedbackReporterConfig {
   onClose: () => void;
   initialScreenshot?: Blob | null;
   modalStyles?: ModalStyles;
   textLabels?: TextLabels;
+  /**
+   * Initial values of the form
+   */
+  prefill?: FeedbackPrefill;
+  /**
+   * Controller to submit through, e.g. the one of a FeedbackReporterProvider
+   */
+  controller?: FeedbackController;
 }
 
 /**
@@ -24,16 +53,53 @@ export const FeedbackModal: React.FC<FeedbackModalProps> = ({
   initialScreenshot,
   modalStyles,
   textLabels,
+  queue,
+  captureConsole,
+  captureNetwork,
+  captureSession,
+  privacy,
+  screenshotEngine,
+  recordVideo,
+  attachments: attachmentOptions,
+  reporter,
+  fields = [],
+  detectDuplicates = true,
+  prefill,
+  controller: controllerProp,
 }) => {
-  const [title, setTitle] = useState('');
-  const [description, setDescription] = useState('');
+  const [title, setTitle] = useState(prefill?.title || '');
+  const [description, setDescription] = useState(prefill?.description || '');
   const [screenshot, setScreenshot] = useState<Blob | null>(initialScreenshot || null);
   const [screenshotPreview, setScreenshotPreview] = useState<string | null>(null);
-  const [isSubmitting, setIsSubmitting] = useState(false);
   const [includeScreenshot, setIncludeScreenshot] = useState(true);
   const [isEditingScreenshot, setIsEditingScreenshot] = useState(false);
   const [includeMetadataState, setIncludeMetadataState] = useState(false);
-  const [selectedLabels, setSelectedLabels] = useState<string[]>([]);
+  const [selectedLabels, setSelectedLabels] = useState<string[]>(prefill?.labels || []);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [includeLogs, setIncludeLogs] = useState(true);
+  const [includeNetwork, setIncludeNetwork] = useState(true);
+  const [includeSession, setIncludeSession] = useState(true);
+  // Element or region the screenshot was limited to
+  const [selection, setSelection] = useState<Record<string, unknown> | null>(null);
+  const [isPicking, setIsPicking] = useState(false);
+  const [video, setVideo] = useState<Blob | null>(null);
+  const [videoPreview, setVideoPreview] = useState<string | null>(null);
+  const [includeVideo, setIncludeVideo] = useState(true);
+  const [isRecording, setIsRecording] = useState(false);
+  const [attachments, setAttachments] = useState<FeedbackAttachment[]>([]);
+  const [attachmentErrors, setAttachmentErrors] = useState<string[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [fieldValues, setFieldValues] = useState<Record<string, FieldValue>>(() => ({
+    ...getInitialFieldValues(fields),
+    ...prefill?.fields,
+  }));
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [duplicates, setDuplicates] = useState<IssueSearchResult[]>([]);
+  const [commentingOn, setCommentingOn] = useState<string | number | null>(null);
+  // Issue the form adds a comment to instead of creating a new one
+  const [commentTarget, setCommentTarget] = useState<IssueResponse | null>(null);
+  // Success state: the issue that was created or commented on
+  const [result, setResult] = useState<{ issue: IssueResponse; commented: boolean } | null>(null);
 
   // Default text labels
   const defaultLabels = {
@@ -44,59 +110,131 @@ export const FeedbackModal: React.FC<FeedbackModalProps> = ({
     descriptionPlaceholder: 'Detailed description of the issue...',
     screenshotLabel: 'Screenshot (optional)',
     screenshotHint: 'Upload a screenshot or press your print screen key and paste',
+    screenshotPreviewAlt: 'Screenshot preview',
     includeScreenshotLabel: 'Include screenshot',
     includeMetadataLabel: 'Include system information',
+    includeMetadataHint: 'Browser, OS, screen resolution, and page URL information',
+    includeLogsLabel: 'Include console logs',
+    includeNetworkLabel: 'Include network requests',
+    includeSessionLabel: 'Include session replay',
     labelsLabel: 'Category',
+    duplicatesLabel: 'Similar issues already exist:',
+    addToIssueButtonText: 'Add to this issue',
+    addingToIssueButtonText: 'Adding...',
+    commentAddedMessage: 'Thank you! Your report was added to the existing issue.',
+    issueCreatedMessage: 'Thank you! Your issue was created.',
+    viewIssueLinkText: 'View issue',
+    addDetailsButtonText: 'Add more details',
+    addingDetailsLabel: 'Adding details to',
+    addCommentButtonText: 'Add comment',
+    closeButtonText: 'Close',
     editButtonText: 'Edit',
     removeButtonText: 'Remove',
+    selectAreaButtonText: 'Select area',
+    selectAreaHint: 'Click an element or drag to select an area. Press Esc to cancel.',
+    recordVideoButtonText: 'Record video',
+    stopRecordingButtonText: 'Stop',
+    recordingLabel: 'Recording',
+    includeVideoLabel: 'Include video',
+    attachmentsLabel: 'Attachments (optional)',
+    attachmentsHint: 'You can also drag and drop or paste files anywhere in this dialog',
+    errorFileTooLarge: 'File is too large (max. {size})',
+    errorTooManyFiles: 'Too many files (max. {count})',
+    errorFileType: 'File type is not allowed',
+    fieldRequiredMessage: 'This field is required',
+    fieldEmailMessage: 'Please enter a valid email address',
+    fieldMinLengthMessage: 'Please enter at least {min} characters',
+    fieldMaxLengthMessage: 'Please enter at most {max} characters',
+    fieldPatternMessage: 'Please match the requested format',
+    errorRequiredFields: 'Please fill in both title and description',
+    errorDescriptionRequired: 'Please fill in the description',
     cancelButtonText: 'Cancel',
     submitButtonText: 'Submit Issue',
     submittingButtonText: 'Submitting...',
+    queuedMessage: 'You are offline. Your report was saved and will be sent automatically once the connection is restored.',
     ...textLabels,
   };
 
-  // Use initial screenshot or capture on mount
+  const sessionConfig = {
+    adapter,
+    queue,
+    privacy,
+    screenshotEngine,
+    captureConsole,
+    captureNetwork,
+    captureSession,
+    fields,
+    reporter,
+    onSuccess,
+    onError,
+  };
+  // A modal either drives the controller it was given or its own, for as long as it is mounted
+  const [{ controller, ownController }] = useState(() => {
+    if (controllerProp) {
+      return { controller: controllerProp, ownController: null };
+    }
+    const own = new FeedbackController(sessionConfig);
+    return { controller: own, ownController: own };
+  });
+  const { session } = controller;
+  const [sessionState, setSessionState] = useState<FeedbackSessionState>(session.getState());
+  const { logs, networkRequests, sessionRecording } = sessionState;
+  const isSubmitting = sessionState.status === 'submitting';
+  // Saved to the offline queue instead of being sent
+  const isQueued = sessionState.status === 'success' && sessionState.result?.status === 'queued';
+
+  useEffect(() => {
+    ownController?.configure(sessionConfig);
+  });
+
+  useEffect(() => {
+    setSessionState(session.getState());
+    return session.on('change', setSessionState);
+  }, [session]);
+
+  // Without a controller from the outside, open our own with the initial screenshot or capture one
+  useEffect(() => {
+    if (!ownController) return;
+    ownController.open({ ...prefill, screenshot: initialScreenshot !== undefined ? initialScreenshot : prefill?.screenshot });
+    return () => ownController.close();
+  }, [ownController]);
+
+  // Show the screenshot the session was opened with
   useEffect(() => {
-    if (initialScreenshot) {
-      // Use provided screenshot
-      const url = URL.createObjectURL(initialScreenshot);
-      setScreenshotPreview(url);
-      setScreenshot(initialScreenshot);
-    } else {
-      // Fallback: capture screenshot
-      const capture = async () => {
-        const blob = await captureScreenshot();
-        if (blob) {
-          setScreenshot(blob);
-          const url = URL.createObjectURL(blob);
-          setScreenshotPreview(url);
-        }
-      };
-      capture();
+    if (!sessionState.screenshot) return;
+
+    setScreenshot(sessionState.screenshot);
+  }, [sessionState.screenshot]);
+
+  // Preview URLs follow the blobs and are released when they change or the modal unmounts
+  useEffect(() => {
+    if (!screenshot) {
+      setScreenshotPreview(null);
+      return;
     }
 
-    // Cleanup
-    return () => {
-      if (screenshotPreview) {
-        URL.revokeObjectURL(screenshotPreview);
-      }
-    };
-  }, [initialScreenshot]);
+    const url = URL.createObjectURL(screenshot);
+    setScreenshotPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [screenshot]);
+
+  useEffect(() => {
+    if (!video) {
+      setVideoPreview(null);
+      return;
+    }
+
+    const url = URL.createObjectURL(video);
+    setVideoPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [video]);
 
   const handleEditScreenshot = () => {
     setIsEditingScreenshot(true);
   };
 
   const handleSaveEditedScreenshot = (editedBlob: Blob) => {
-    // Clean up old preview
-    if (screenshotPreview) {
-      URL.revokeObjectURL(screenshotPreview);
-    }
-
-    // Set new screenshot
     setScreenshot(editedBlob);
-    const url = URL.createObjectURL(editedBlob);
-    setScreenshotPreview(url);
     setIsEditingScreenshot(false);
   };
 
@@ -104,40 +242,271 @@ export const FeedbackModal: React.FC<FeedbackModalProps> = ({
     setIsEditingScreenshot(false);
   };
 
+  const handleSelectArea = async () => {
+    // The modal is hidden while the user picks on the page
+    setIsPicking(true);
+    const result = await pickTarget({ hint: defaultLabels.selectAreaHint });
+
+    if (result) {
+      const blob = await captureSelection(result, privacy, screenshotEngine);
+      if (blob) {
+        setScreenshot(blob);
+        setIncludeScreenshot(true);
+        setSelection(describeSelection(result));
+      }
+    }
+
+    setIsPicking(false);
+  };
+
+  const handleRecordVideo = async () => {
+    // The modal is hidden while the user reproduces the issue
+    setIsRecording(true);
+    const clip = await recordScreen({
+      ...(typeof recordVideo === 'object' ? recordVideo : {}),
+      recordingLabel: defaultLabels.recordingLabel,
+      stopButtonText: defaultLabels.stopRecordingButtonText,
+    });
+
+    if (clip) {
+      setVideo(clip);
+      setIncludeVideo(true);
+    }
+
+    setIsRecording(false);
+  };
+
+  const clearVideo = () => {
+    setVideo(null);
+  };
+
+  const setScreenshotFile = (file: Blob) => {
+    setScreenshot(file);
+    setIncludeScreenshot(true);
+    setSelection(null);
+  };
+
+  /**
+   * Attaches files from the file picker, drag and drop or paste
+   * @param preferScreenshot Use the first image as the screenshot if there is none yet
+   */
+  const handleFiles = (files: Blob[], preferScreenshot = false) => {
+    let remaining = files;
+    if (preferScreenshot && !screenshot) {
+      const image = files.find((file) => file.type.startsWith('image/'));
+      if (image) {
+        setScreenshotFile(image);
+        remaining = files.filter((file) => file !== image);
+      }
+    }
+    if (remaining.length === 0) return;
+
+    const result = addAttachments(attachments, remaining, attachmentOptions);
+    setAttachments(result.attachments);
+    setAttachmentErrors(result.rejected.map(({ filename, reason }) => {
+      const message = reason === 'size'
+        ? defaultLabels.errorFileTooLarge.replace('{size}', formatFileSize(attachmentOptions?.maxFileSize || DEFAULT_MAX_FILE_SIZE))
+        : reason === 'count'
+          ? defaultLabels.errorTooManyFiles.replace('{count}', String(attachmentOptions?.maxFiles || DEFAULT_MAX_FILES))
+          : defaultLabels.errorFileType;
+      return `${filename}: ${message}`;
+    }));
+  };
+
+  // Paste anywhere while the modal is open, e.g. after pressing the print screen key
+  useEffect(() => {
+    if (isEditingScreenshot) return;
+
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = getTransferFiles(e.clipboardData);
+      if (files.length === 0) return;
+
+      e.preventDefault();
+      handleFiles(files, true);
+    };
+
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [isEditingScreenshot, screenshot, attachments]);
+
+  // Look for similar issues once the user stops typing the title
+  useEffect(() => {
+    const query = title.trim();
+    const { searchIssues } = adapter;
+    if (!detectDuplicates || !searchIssues || query.length < 4) {
+      setDuplicates([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchIssues.call(adapter, query)
+        .then((results) => {
+          if (!cancelled) setDuplicates(results);
+        })
+        .catch((error) => {
+          console.warn('[issue-reporter] Failed to search for similar issues:', error);
+        });
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [title, adapter, detectDuplicates]);
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!Array.from(e.dataTransfer.types).includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsDragging(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFiles(getTransferFiles(e.dataTransfer), true);
+  };
+
+  const removeAttachment = (index: number) => {
+    setAttachments(attachments.filter((_, i) => i !== index));
+  };
+
+  const validationMessages = {
+    required: defaultLabels.fieldRequiredMessage,
+    email: defaultLabels.fieldEmailMessage,
+    minLength: defaultLabels.fieldMinLengthMessage,
+    maxLength: defaultLabels.fieldMaxLengthMessage,
+    pattern: defaultLabels.fieldPatternMessage,
+  };
+
+  const handleFieldChange = (name: string, value: FieldValue) => {
+    const values = { ...fieldValues, [name]: value };
+    setFieldValues(values);
+
+    // Re-validate fields that already show an error
+    if (fieldErrors[name]) {
+      const field = fields.find((f) => f.name === name);
+      const error = field ? validateField(field, value, values, validationMessages) : null;
+      const { [name]: _, ...rest } = fieldErrors;
+      setFieldErrors(error ? { ...rest, [name]: error } : rest);
+    }
+  };
+
+  const clearScreenshot = () => {
+    setScreenshot(null);
+    setIncludeScreenshot(false);
+    setSelection(null);
+  };
+
+  /**
+   * Collects the report from the form
+   */
+  const draft: FeedbackDraft = {
+    title,
+    description,
+    labels: selectedLabels,
+    fields: fieldValues,
+    includeMetadata: includeMetadataState,
+    screenshot: includeScreenshot ? screenshot : null,
+    selection,
+    includeLogs,
+    includeNetwork,
+    includeSession,
+    video: includeVideo ? video : null,
+    attachments,
+  };
+
+  const handleAddToIssue = async (issue: IssueSearchResult) => {
+    if (!adapter.addComment) return;
+
+    setCommentingOn(issue.id);
+    setSubmitError(null);
+
+    try {
+      await session.comment(issue.id, { ...draft, description: description.trim() || '+1' });
+      setResult({ issue, commented: true });
+    } catch (error) {
+      setSubmitError(getErrorMessage(toIssueReporterError(error), textLabels));
+    } finally {
+      setCommentingOn(null);
+    }
+  };
+
+  /**
+   * Switches from the success state to a form that comments on the issue
+   */
+  const handleAddDetails = () => {
+    if (!result) return;
+
+    clearScreenshot();
+    clearVideo();
+    setDescription('');
+    setAttachments([]);
+    setAttachmentErrors([]);
+    setSubmitError(null);
+    setCommentTarget(result.issue);
+    setResult(null);
+    if (session.getState().status === 'success') {
+      session.edit();
+    }
+  };
+
+  const handleSubmitComment = async () => {
+    if (!commentTarget || !adapter.addComment) return;
+
+    if (!description.trim()) {
+      setSubmitError(defaultLabels.errorDescriptionRequired);
+      return;
+    }
+
+    setSubmitError(null);
+
+    try {
+      await session.comment(commentTarget.id, { ...draft, title: commentTarget.title });
+      setResult({ issue: commentTarget, commented: true });
+      setCommentTarget(null);
+    } catch (error) {
+      setSubmitError(getErrorMessage(toIssueReporterError(error), textLabels));
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    if (commentTarget) {
+      await handleSubmitComment();
+      return;
+    }
+
     if (!title.trim() || !description.trim()) {
-      alert('Please fill in both title and description');
+      setSubmitError(defaultLabels.errorRequiredFields);
       return;
     }
 
-    setIsSubmitting(true);
+    const errors = validateFields(fields, fieldValues, validationMessages);
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      document.getElementById(`feedback-field-${Object.keys(errors)[0]}`)?.focus();
+      return;
+    }
+
+    setSubmitError(null);
 
     try {
-      const feedbackData: FeedbackData = {
-        title: title.trim(),
-        description: description.trim(),
-        screenshot: includeScreenshot && screenshot ? screenshot : undefined,
-        metadata: includeMetadataState ? getSystemMetadata() : undefined,
-        labels: selectedLabels.length > 0 ? selectedLabels : undefined,
-      };
-
-      const response = await adapter.createIssue(feedbackData);
-
-      if (response) {
-        onSuccess?.(response);
-        alert(`Issue created successfully! View it at: ${response.url}`);
-        onClose();
-      } else {
-        throw new Error('Failed to create issue');
+      const submitResult = await session.submit(draft);
+
+      // A queued report is shown from the session state below
+      if (submitResult.status === 'created') {
+        setResult({ issue: submitResult.response, commented: false });
       }
     } catch (error) {
-      const err = error instanceof Error ? error : new Error('Unknown error');
-      onError?.(err);
-      alert('Failed to submit feedback. Please try again.');
-    } finally {
-      setIsSubmitting(false);
+      setSubmitError(getErrorMessage(toIssueReporterError(error), textLabels));
     }
   };
 
@@ -186,10 +555,14 @@ export const FeedbackModal: React.FC<FeedbackModalProps> = ({
     marginRight: '10px',
   };
 
+  if (isPicking || isRecording) {
+    return null;
+  }
+
   // Show screenshot editor
   if (isEditingScreenshot && screenshot) {
     return (
-      <div style={modalStyle} onClick={(e) => e.stopPropagation()}>
+      <div style={modalStyle} onClick={(e) => e.stopPropagation()} data-feedback-modal>
         <div style={contentStyle}>
           <ScreenshotEditor
             screenshot={screenshot}
@@ -201,28 +574,177 @@ export const FeedbackModal: React.FC<FeedbackModalProps> = ({
     );
   }
 
+  // Show queued state
+  if (isQueued) {
+    return (
+      <div style={modalStyle} onClick={onClose} data-feedback-modal>
+        <div style={contentStyle} onClick={(e) => e.stopPropagation()} role="status">
+          <h2 style={{ marginTop: 0, marginBottom: '12px', color: modalStyles?.headerColor }}>
+            {defaultLabels.modalTitle}
+          </h2>
+          <p style={{ margin: 0, fontSize: '14px' }}>{defaultLabels.queuedMessage}</p>
+
+          <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: '20px' }}>
+            <button
+              type="button"
+              onClick={onClose}
+              style={{
+                ...buttonStyle,
+                backgroundColor: modalStyles?.primaryButtonColor || '#4CAF50',
+                color: 'white'
+              }}
+            >
+              {defaultLabels.closeButtonText}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Show success state
+  if (result) {
+    return (
+      <div style={modalStyle} onClick={onClose} data-feedback-modal>
+        <div style={contentStyle} onClick={(e) => e.stopPropagation()} role="status">
+          <h2 style={{ marginTop: 0, marginBottom: '12px', color: modalStyles?.headerColor }}>
+            {defaultLabels.modalTitle}
+          </h2>
+          <p style={{ margin: '0 0 8px', fontSize: '14px' }}>
+            {result.commented ? defaultLabels.commentAddedMessage : defaultLabels.issueCreatedMessage}
+          </p>
+          <a
+            href={result.issue.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            style={{ fontSize: '14px', color: '#1565c0' }}
+          >
+            {defaultLabels.viewIssueLinkText}: #{result.issue.id} {result.issue.title}
+          </a>
+
+          <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: '20px' }}>
+            {adapter.addComment && (
+              <button
+                type="button"
+                onClick={handleAddDetails}
+                style={{
+                  ...buttonStyle,
+                  backgroundColor: modalStyles?.secondaryButtonColor || '#f0f0f0',
+                  color: '#333'
+                }}
+              >
+                {defaultLabels.addDetailsButtonText}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={onClose}
+              style={{
+                ...buttonStyle,
+                backgroundColor: modalStyles?.primaryButtonColor || '#4CAF50',
+                color: 'white'
+              }}
+            >
+              {defaultLabels.closeButtonText}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
-    <div style={modalStyle} onClick={onClose}>
-      <div style={contentStyle} onClick={(e) => e.stopPropagation()}>
+    <div style={modalStyle} onClick={onClose} data-feedback-modal>
+      <div
+        style={isDragging ? { ...contentStyle, outline: '3px dashed #2196F3', outlineOffset: '-8px' } : contentStyle}
+        onClick={(e) => e.stopPropagation()}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
         <h2 style={{ marginTop: 0, marginBottom: '20px', color: modalStyles?.headerColor }}>
           {defaultLabels.modalTitle}
         </h2>
 
         <form onSubmit={handleSubmit}>
-          <div>
-            <label style={{ display: 'block', marginBottom: '8px', fontWeight: '600', color: modalStyles?.labelColor }}>
-              {defaultLabels.titleLabel} *
-            </label>
-            <input
-              type="text"
-              value={title}
-              onChange={(e) => setTitle(e.target.value)}
-              placeholder={defaultLabels.titlePlaceholder}
-              style={inputStyle}
-              required
-              disabled={isSubmitting}
-            />
-          </div>
+          {commentTarget ? (
+            <p style={{ marginTop: 0, marginBottom: '16px', fontSize: '14px' }}>
+              {defaultLabels.addingDetailsLabel}{' '}
+              <a href={commentTarget.url} target="_blank" rel="noopener noreferrer" style={{ color: '#1565c0' }}>
+                #{commentTarget.id} {commentTarget.title}
+              </a>
+            </p>
+          ) : (
+            <>
+              <div>
+                <label style={{ display: 'block', marginBottom: '8px', fontWeight: '600', color: modalStyles?.labelColor }}>
+                  {defaultLabels.titleLabel} *
+                </label>
+                <input
+                  type="text"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  placeholder={defaultLabels.titlePlaceholder}
+                  style={inputStyle}
+                  required
+                  disabled={isSubmitting}
+                />
+              </div>
+
+              {/* Similar Issues */}
+              {duplicates.length > 0 && (
+                <div
+                  style={{
+                    marginTop: '-8px',
+                    marginBottom: '16px',
+                    padding: '10px 12px',
+                    backgroundColor: '#fff8e1',
+                    border: '1px solid #ffe082',
+                    borderRadius: '6px',
+                    fontSize: '13px',
+                  }}
+                >
+                  <p style={{ margin: '0 0 6px', fontWeight: '600' }}>{defaultLabels.duplicatesLabel}</p>
+                  <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+                    {duplicates.map((issue) => (
+                      <li
+                        key={issue.id}
+                        style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px', padding: '4px 0' }}
+                      >
+                        <a
+                          href={issue.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', color: '#1565c0' }}
+                        >
+                          #{issue.id} {issue.title}
+                          {issue.state === 'closed' && ' (closed)'}
+                        </a>
+                        {adapter.addComment && (
+                          <button
+                            type="button"
+                            onClick={() => handleAddToIssue(issue)}
+                            disabled={isSubmitting || commentingOn !== null}
+                            style={{
+                              ...buttonStyle,
+                              marginRight: 0,
+                              padding: '4px 10px',
+                              fontSize: '12px',
+                              flexShrink: 0,
+                              backgroundColor: modalStyles?.secondaryButtonColor || '#f5f5f5',
+                              color: '#333',
+                            }}
+                          >
+                            {commentingOn === issue.id ? defaultLabels.addingToIssueButtonText : defaultLabels.addToIssueButtonText}
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
 
           <div>
             <label style={{ display: 'block', marginBottom: '8px', fontWeight: '600', color: modalStyles?.labelColor }}>
@@ -239,8 +761,21 @@ export const FeedbackModal: React.FC<FeedbackModalProps> = ({
             />
           </div>
 
+          {/* Custom Fields */}
+          {!commentTarget && fields.map((field) => (
+            <FormField
+              key={field.name}
+              field={field}
+              value={fieldValues[field.name]}
+              error={fieldErrors[field.name]}
+              onChange={(value) => handleFieldChange(field.name, value)}
+              disabled={isSubmitting}
+              modalStyles={modalStyles}
+            />
+          ))}
+
           {/* Label Selection */}
-          {labels && labels.length > 0 && (
+          {!commentTarget && labels && labels.length > 0 && (
             <div style={{ marginBottom: '16px' }}>
               <label style={{ display: 'block', marginBottom: '8px', fontWeight: '600', color: modalStyles?.labelColor }}>
                 {defaultLabels.labelsLabel}
@@ -295,10 +830,64 @@ export const FeedbackModal: React.FC<FeedbackModalProps> = ({
               </span>
             </label>
             <p style={{ fontSize: '12px', color: '#666', marginTop: '4px', marginLeft: '24px' }}>
-              Browser, OS, screen resolution, and page URL information
+              {defaultLabels.includeMetadataHint}
             </p>
           </div>
 
+          {/* Console Logs Toggle */}
+          {logs.length > 0 && (
+            <div style={{ marginBottom: '16px' }}>
+              <label style={{ display: 'flex', alignItems: 'center' }}>
+                <input
+                  type="checkbox"
+                  checked={includeLogs}
+                  onChange={(e) => setIncludeLogs(e.target.checked)}
+                  style={{ marginRight: '8px' }}
+                  disabled={isSubmitting}
+                />
+                <span style={{ fontWeight: '600', fontSize: '14px', color: modalStyles?.labelColor }}>
+                  {defaultLabels.includeLogsLabel} ({logs.length})
+                </span>
+              </label>
+            </div>
+          )}
+
+          {/* Network Requests Toggle */}
+          {networkRequests.length > 0 && (
+            <div style={{ marginBottom: '16px' }}>
+              <label style={{ display: 'flex', alignItems: 'center' }}>
+                <input
+                  type="checkbox"
+                  checked={includeNetwork}
+                  onChange={(e) => setIncludeNetwork(e.target.checked)}
+                  style={{ marginRight: '8px' }}
+                  disabled={isSubmitting}
+                />
+                <span style={{ fontWeight: '600', fontSize: '14px', color: modalStyles?.labelColor }}>
+                  {defaultLabels.includeNetworkLabel} ({networkRequests.length})
+                </span>
+              </label>
+            </div>
+          )}
+
+          {/* Session Replay Toggle */}
+          {sessionRecording && (
+            <div style={{ marginBottom: '16px' }}>
+              <label style={{ display: 'flex', alignItems: 'center' }}>
+                <input
+                  type="checkbox"
+                  checked={includeSession}
+                  onChange={(e) => setIncludeSession(e.target.checked)}
+                  style={{ marginRight: '8px' }}
+                  disabled={isSubmitting}
+                />
+                <span style={{ fontWeight: '600', fontSize: '14px', color: modalStyles?.labelColor }}>
+                  {defaultLabels.includeSessionLabel}
+                </span>
+              </label>
+            </div>
+          )}
+
           <div style={{ marginBottom: '16px' }}>
             <label style={{ display: 'block', marginBottom: '8px', fontWeight: '600', color: modalStyles?.labelColor }}>
               {defaultLabels.screenshotLabel}
@@ -312,10 +901,7 @@ export const FeedbackModal: React.FC<FeedbackModalProps> = ({
                   onChange={(e) => {
                     const file = e.target.files?.[0];
                     if (file) {
-                      setScreenshot(file);
-                      const url = URL.createObjectURL(file);
-                      setScreenshotPreview(url);
-                      setIncludeScreenshot(true);
+                      setScreenshotFile(file);
                     }
                   }}
                   style={{
@@ -330,6 +916,23 @@ export const FeedbackModal: React.FC<FeedbackModalProps> = ({
                 <p style={{ fontSize: '12px', color: '#666', marginTop: '4px' }}>
                   {defaultLabels.screenshotHint}
                 </p>
+                <button
+                  type="button"
+                  onClick={handleSelectArea}
+                  disabled={isSubmitting}
+                  style={{
+                    padding: '8px 16px',
+                    backgroundColor: modalStyles?.secondaryButtonColor || '#f0f0f0',
+                    color: '#333',
+                    border: 'none',
+                    borderRadius: '6px',
+                    cursor: 'pointer',
+                    fontSize: '13px',
+                    fontWeight: '600',
+                  }}
+                >
+                  {defaultLabels.selectAreaButtonText}
+                </button>
               </div>
             )}
 
@@ -351,7 +954,7 @@ export const FeedbackModal: React.FC<FeedbackModalProps> = ({
                   <div>
                     <img
                       src={screenshotPreview}
-                      alt="Screenshot preview"
+                      alt={defaultLabels.screenshotPreviewAlt}
                       style={{
                         width: '100%',
                         border: '1px solid #ddd',
@@ -381,14 +984,24 @@ export const FeedbackModal: React.FC<FeedbackModalProps> = ({
                       </button>
                       <button
                         type="button"
-                        onClick={() => {
-                          if (screenshotPreview) {
-                            URL.revokeObjectURL(screenshotPreview);
-                          }
-                          setScreenshot(null);
-                          setScreenshotPreview(null);
-                          setIncludeScreenshot(false);
+                        onClick={handleSelectArea}
+                        disabled={isSubmitting}
+                        style={{
+                          padding: '8px 16px',
+                          backgroundColor: modalStyles?.secondaryButtonColor || '#f0f0f0',
+                          color: '#333',
+                          border: 'none',
+                          borderRadius: '6px',
+                          cursor: 'pointer',
+                          fontSize: '13px',
+                          fontWeight: '600',
                         }}
+                      >
+                        {defaultLabels.selectAreaButtonText}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={clearScreenshot}
                         disabled={isSubmitting}
                         style={{
                           padding: '8px 16px',
@@ -410,6 +1023,167 @@ export const FeedbackModal: React.FC<FeedbackModalProps> = ({
             )}
           </div>
 
+          {/* Screen Recording */}
+          {recordVideo && isScreenRecordingSupported() && (
+            <div style={{ marginBottom: '16px' }}>
+              {video && videoPreview ? (
+                <>
+                  <label style={{ display: 'flex', alignItems: 'center', marginBottom: '8px' }}>
+                    <input
+                      type="checkbox"
+                      checked={includeVideo}
+                      onChange={(e) => setIncludeVideo(e.target.checked)}
+                      style={{ marginRight: '8px' }}
+                      disabled={isSubmitting}
+                    />
+                    <span style={{ fontWeight: '600', fontSize: '14px', color: modalStyles?.labelColor }}>
+                      {defaultLabels.includeVideoLabel}
+                    </span>
+                  </label>
+                  {includeVideo && (
+                    <video
+                      src={videoPreview}
+                      controls
+                      style={{
+                        width: '100%',
+                        border: '1px solid #ddd',
+                        borderRadius: '6px',
+                        backgroundColor: '#000',
+                      }}
+                    />
+                  )}
+                  <button
+                    type="button"
+                    onClick={clearVideo}
+                    disabled={isSubmitting}
+                    style={{
+                      padding: '8px 16px',
+                      marginTop: '8px',
+                      backgroundColor: modalStyles?.dangerButtonColor || '#f44336',
+                      color: 'white',
+                      border: 'none',
+                      borderRadius: '6px',
+                      cursor: 'pointer',
+                      fontSize: '13px',
+                      fontWeight: '600',
+                    }}
+                  >
+                    {defaultLabels.removeButtonText}
+                  </button>
+                </>
+              ) : (
+                <button
+                  type="button"
+                  onClick={handleRecordVideo}
+                  disabled={isSubmitting}
+                  style={{
+                    padding: '8px 16px',
+                    backgroundColor: modalStyles?.secondaryButtonColor || '#f0f0f0',
+                    color: '#333',
+                    border: 'none',
+                    borderRadius: '6px',
+                    cursor: 'pointer',
+                    fontSize: '13px',
+                    fontWeight: '600',
+                  }}
+                >
+                  {defaultLabels.recordVideoButtonText}
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Attachments */}
+          <div style={{ marginBottom: '16px' }}>
+            <label style={{ display: 'block', marginBottom: '8px', fontWeight: '600', color: modalStyles?.labelColor }}>
+              {defaultLabels.attachmentsLabel}
+            </label>
+            <input
+              type="file"
+              multiple
+              accept={attachmentOptions?.accept}
+              onChange={(e) => {
+                handleFiles(Array.from(e.target.files || []));
+                // Allow picking the same file again after removing it
+                e.target.value = '';
+              }}
+              style={{
+                width: '100%',
+                padding: '10px',
+                border: '1px solid #ddd',
+                borderRadius: '6px',
+                fontSize: '14px',
+              }}
+              disabled={isSubmitting}
+            />
+            <p style={{ fontSize: '12px', color: '#666', marginTop: '4px' }}>
+              {defaultLabels.attachmentsHint}
+            </p>
+            {attachmentErrors.length > 0 && (
+              <div role="alert" style={{ fontSize: '13px', color: modalStyles?.dangerButtonColor || '#f44336', marginBottom: '8px' }}>
+                {attachmentErrors.map((error, index) => (
+                  <div key={index}>{error}</div>
+                ))}
+              </div>
+            )}
+            {attachments.length > 0 && (
+              <ul style={{ listStyle: 'none', padding: 0, margin: 0 }}>
+                {attachments.map((attachment, index) => (
+                  <li
+                    key={index}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      justifyContent: 'space-between',
+                      gap: '8px',
+                      padding: '6px 0',
+                      borderBottom: '1px solid #eee',
+                      fontSize: '13px',
+                    }}
+                  >
+                    <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                      {attachment.filename}{' '}
+                      <span style={{ color: '#666' }}>({formatFileSize(attachment.data.size)})</span>
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => removeAttachment(index)}
+                      disabled={isSubmitting}
+                      style={{
+                        padding: '4px 10px',
+                        backgroundColor: 'transparent',
+                        color: modalStyles?.dangerButtonColor || '#f44336',
+                        border: `1px solid ${modalStyles?.dangerButtonColor || '#f44336'}`,
+                        borderRadius: '4px',
+                        cursor: 'pointer',
+                        fontSize: '12px',
+                      }}
+                    >
+                      {defaultLabels.removeButtonText}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {submitError && (
+            <div
+              role="alert"
+              style={{
+                padding: '10px 12px',
+                marginTop: '16px',
+                backgroundColor: '#fdecea',
+                color: modalStyles?.dangerButtonColor || '#f44336',
+                border: `1px solid ${modalStyles?.dangerButtonColor || '#f44336'}`,
+                borderRadius: '6px',
+                fontSize: '14px',
+              }}
+            >
+              {submitError}
+            </div>
+          )}
+
           <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: '20px' }}>
             <button
               type="button"
@@ -432,7 +1206,9 @@ export const FeedbackModal: React.FC<FeedbackModalProps> = ({
               }}
               disabled={isSubmitting}
             >
-              {isSubmitting ? defaultLabels.submittingButtonText : defaultLabels.submitButtonText}
+              {isSubmitting
+                ? defaultLabels.submittingButtonText
+                : commentTarget ? defaultLabels.addCommentButtonText : defaultLabels.submitButtonText}
             </button>
           </div>
         </form>
@@ -0,0 +1,109 @@
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { FeedbackReporterConfig } from '../types';
+import { FeedbackController, FeedbackControllerState, FeedbackPrefill } from '../core/controller';
+import { ErrorPrompt, ErrorPromptOptions } from '../core/errorPrompt';
+import { FeedbackModal } from './FeedbackModal';
+import { useRecorders } from './useRecorders';
+
+export interface FeedbackReporterProviderProps extends FeedbackReporterConfig {
+  children?: React.ReactNode;
+  /**
+   * Opens the modal prefilled with uncaught errors and unhandled rejections on the page
+   */
+  promptOnError?: boolean | ErrorPromptOptions;
+}
+
+export const FeedbackReporterContext = createContext<FeedbackController | null>(null);
+
+/**
+ * Provides a feedback controller to the app and renders the modal when it is opened
+ * Open it from anywhere below with `useFeedbackReporter().open()`
+ */
+export const FeedbackReporterProvider: React.FC<FeedbackReporterProviderProps> = ({ children, promptOnError, ...config }) => {
+  const { queue } = config;
+  const [controller] = useState(() => new FeedbackController(config));
+  const [state, setState] = useState<FeedbackControllerState>(controller.getState());
+
+  // Keep the controller in sync with the latest props
+  useEffect(() => {
+    controller.configure(config);
+  });
+
+  useEffect(() => controller.on('change', setState), [controller]);
+
+  // Record console output, network traffic and the session while the provider is mounted
+  useRecorders(config);
+
+  const errorPromptOptions = typeof promptOnError === 'object' ? promptOnError : undefined;
+  const errorPrompt = useRef<ErrorPrompt | null>(null);
+  useEffect(() => {
+    if (!promptOnError) return;
+
+    const prompt = new ErrorPrompt(controller, errorPromptOptions);
+    errorPrompt.current = prompt;
+    const unwatch = prompt.watch();
+    return () => {
+      unwatch();
+      errorPrompt.current = null;
+    };
+  }, [controller, !!promptOnError]);
+
+  // Keep the prompt's filter, limits and prefill in sync with the latest props
+  useEffect(() => {
+    errorPrompt.current?.configure(errorPromptOptions);
+  });
+
+  // Start the offline queue
+  useEffect(() => {
+    if (!queue) return;
+
+    queue.start();
+    return () => queue.stop();
+  }, [queue]);
+
+  return (
+    <FeedbackReporterContext.Provider value={controller}>
+      {children}
+      {state.isOpen && (
+        <FeedbackModal
+          {...config}
+          controller={controller}
+          initialScreenshot={state.screenshot}
+          prefill={state.prefill}
+          onClose={() => controller.close()}
+        />
+      )}
+    </FeedbackReporterContext.Provider>
+  );
+};
+
+/**
+ * Opens the reporter of the nearest FeedbackReporterProvider and tracks its state
+ *
+ * @example
+ * const { open } = useFeedbackReporter();
+ * open({ title: 'Checkout failed', metadata: { orderId }, labels: ['bug'] });
+ */
+export function useFeedbackReporter() {
+  const controller = useContext(FeedbackReporterContext);
+  if (!controller) {
+    throw new Error('useFeedbackReporter must be used inside a FeedbackReporterProvider');
+  }
+
+  const [state, setState] = useState<FeedbackControllerState>(controller.getState());
+  useEffect(() => {
+    setState(controller.getState());
+    return controller.on('change', setState);
+  }, [controller]);
+
+  return {
+    isOpen: state.isOpen,
+    isCapturing: state.isCapturing,
+    open: (prefill?: FeedbackPrefill) => controller.open(prefill),
+    close: () => controller.close(),
+    /**
+     * For lifecycle events: `controller.on('succeeded', ...)`
+     */
+    controller,
+  };
+}
@@ -0,0 +1,154 @@
+import React from 'react';
+import { ModalStyles } from '../types';
+import { FieldDefinition, FieldValue, getFieldOptions } from '../core/fields';
+
+export interface FormFieldProps {
+  field: FieldDefinition;
+  value: FieldValue;
+  error?: string;
+  onChange: (value: FieldValue) => void;
+  disabled?: boolean;
+  modalStyles?: ModalStyles;
+}
+
+/**
+ * Renders a custom field from the field schema
+ */
+export const FormField: React.FC<FormFieldProps> = ({ field, value, error, onChange, disabled, modalStyles }) => {
+  const id = `feedback-field-${field.name}`;
+  const options = getFieldOptions(field);
+  const errorColor = modalStyles?.dangerButtonColor || '#f44336';
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '10px',
+    border: `1px solid ${error ? errorColor : modalStyles?.inputBorderColor || '#ddd'}`,
+    borderRadius: '6px',
+    fontSize: '14px',
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: 'block',
+    marginBottom: '8px',
+    fontWeight: '600',
+    color: modalStyles?.labelColor,
+  };
+
+  const label = `${field.label}${field.required ? ' *' : ''}`;
+  const describedBy = error ? `${id}-error` : undefined;
+
+  let control: React.ReactNode;
+  switch (field.type) {
+    case 'textarea':
+      control = (
+        <textarea
+          id={id}
+          value={value as string}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={field.placeholder}
+          rows={4}
+          style={{ ...inputStyle, resize: 'vertical' }}
+          disabled={disabled}
+          aria-invalid={!!error}
+          aria-describedby={describedBy}
+        />
+      );
+      break;
+
+    case 'select':
+      control = (
+        <select
+          id={id}
+          multiple={field.multiple}
+          value={field.multiple ? (value as string[]) : (value as string)}
+          onChange={(e) => onChange(
+            field.multiple
+              ? Array.from(e.target.selectedOptions).map((option) => option.value)
+              : e.target.value
+          )}
+          style={inputStyle}
+          disabled={disabled}
+          aria-invalid={!!error}
+          aria-describedby={describedBy}
+        >
+          {!field.multiple && <option value="">{field.placeholder || ''}</option>}
+          {options.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      );
+      break;
+
+    case 'radio':
+      control = (
+        <div role="radiogroup" aria-labelledby={`${id}-label`} aria-describedby={describedBy}>
+          {options.map((option) => (
+            <label key={option.value} style={{ display: 'flex', alignItems: 'center', marginBottom: '4px', fontSize: '14px' }}>
+              <input
+                type="radio"
+                name={id}
+                value={option.value}
+                checked={value === option.value}
+                onChange={() => onChange(option.value)}
+                style={{ marginRight: '8px' }}
+                disabled={disabled}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+      );
+      break;
+
+    case 'checkbox':
+      return (
+        <div style={{ marginBottom: '16px' }}>
+          <label style={{ display: 'flex', alignItems: 'center' }}>
+            <input
+              id={id}
+              type="checkbox"
+              checked={value === true}
+              onChange={(e) => onChange(e.target.checked)}
+              style={{ marginRight: '8px' }}
+              disabled={disabled}
+              aria-invalid={!!error}
+              aria-describedby={describedBy}
+            />
+            <span style={{ fontWeight: '600', fontSize: '14px', color: modalStyles?.labelColor }}>{label}</span>
+          </label>
+          {field.hint && <p style={{ fontSize: '12px', color: '#666', margin: '4px 0 0' }}>{field.hint}</p>}
+          {error && <p id={`${id}-error`} style={{ fontSize: '12px', color: errorColor, margin: '4px 0 0' }}>{error}</p>}
+        </div>
+      );
+
+    default:
+      control = (
+        <input
+          id={id}
+          type={field.type === 'email' ? 'email' : 'text'}
+          value={value as string}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={field.placeholder}
+          style={inputStyle}
+          disabled={disabled}
+          aria-invalid={!!error}
+          aria-describedby={describedBy}
+        />
+      );
+  }
+
+  return (
+    <div style={{ marginBottom: '16px' }}>
+      {field.type === 'radio' ? (
+        <span id={`${id}-label`} style={labelStyle}>{label}</span>
+      ) : (
+        <label htmlFor={id} style={labelStyle}>{label}</label>
+      )}
+      {control}
+      {field.hint && <p style={{ fontSize: '12px', color: '#666', margin: '4px 0 0' }}>{field.hint}</p>}
+      {error && <p id={`${id}-error`} style={{ fontSize: '12px', color: errorColor, margin: '4px 0 0' }}>{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,32 @@
+import React, { useEffect, useRef } from 'react';
+import { SessionRecording } from '../core/replay';
+import { createReplayPlayer, ReplayPlayerOptions } from '../vanilla/replayPlayer';
+
+export interface ReplayPlayerProps extends ReplayPlayerOptions {
+  recording: SessionRecording;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+/**
+ * React Replay Player Component
+ * Plays back a session-replay.json attached to a report
+ */
+export const ReplayPlayer: React.FC<ReplayPlayerProps> = ({
+  recording,
+  autoPlay,
+  speed,
+  className,
+  style,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const player = createReplayPlayer(containerRef.current, recording, { autoPlay, speed });
+    return () => player.destroy();
+  }, [recording, autoPlay, speed]);
+
+  return <div ref={containerRef} className={className} style={style} />;
+};
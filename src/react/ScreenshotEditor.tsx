@@ -1,4 +1,23 @@
 import React, { useRef, useState, useEffect } from 'react';
+import {
+  Annotation,
+  AnnotationType,
+  EditorHistory,
+  EditorState,
+  HandleName,
+  Point,
+  Rect,
+  StrokePoint,
+  createAnnotationId,
+  getTextFont,
+  hitHandle,
+  hitTest,
+  isMeaningful,
+  moveAnnotation,
+  rectFromPoints,
+  renderAnnotations,
+  resizeAnnotation,
+} from '../core/annotations';
 
 export interface ScreenshotEditorProps {
   screenshot: Blob;
@@ -6,17 +25,49 @@ export interface ScreenshotEditorProps {
   onCancel: () => void;
 }
 
-type DrawingTool = 'arrow' | 'rectangle' | 'circle' | 'pen' | 'text';
+type DrawingTool = 'select' | 'crop' | AnnotationType;
 type DrawingColor = 'red' | 'blue' | 'green' | 'yellow' | 'black';
 
-interface Point {
-  x: number;
-  y: number;
+type Interaction =
+  | { mode: 'draw'; start: Point }
+  | { mode: 'crop'; start: Point }
+  | { mode: 'move'; start: Point; original: Annotation }
+  | { mode: 'resize'; handle: HandleName; original: Annotation };
+
+interface ViewTransform {
+  zoom: number;
+  panX: number;
+  panY: number;
+}
+
+interface PinchGesture {
+  distance: number;
+  midpoint: Point;
+  view: ViewTransform;
+  // Client position of the canvas without the view transform
+  origin: Point;
+}
+
+interface TextEdit {
+  id: string;
+  position: Point;
+  text: string;
+  fontSize: number;
+  color: string;
 }
 
+const LINE_WIDTH = 3;
+const HIGHLIGHT_WIDTH = 24;
+const FONT_SIZES = [16, 24, 32, 48, 64];
+const MIN_CROP_SIZE = 10;
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 5;
+const COMPACT_QUERY = '(max-width: 600px)';
+
 /**
  * Screenshot Editor Component
  * Allows users to annotate screenshots with arrows, shapes, and text
+ * Annotations stay editable objects until they are flattened on save
  */
 export const ScreenshotEditor: React.FC<ScreenshotEditorProps> = ({
   screenshot,
@@ -24,13 +75,30 @@ export const ScreenshotEditor: React.FC<ScreenshotEditorProps> = ({
   onCancel,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const historyRef = useRef(new EditorHistory<EditorState>({ annotations: [], crop: null }));
+  const interactionRef = useRef<Interaction | null>(null);
+  // Guards against finishing the same text edit from both blur and mousedown
+  const textEditOpenRef = useRef(false);
+  // Active touch pointers, used to detect pinch and two-finger pan
+  const pointersRef = useRef(new Map<number, Point>());
+  const gestureRef = useRef<PinchGesture | null>(null);
   const [ctx, setCtx] = useState<CanvasRenderingContext2D | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
   const [tool, setTool] = useState<DrawingTool>('arrow');
   const [color, setColor] = useState<DrawingColor>('red');
-  const [isDrawing, setIsDrawing] = useState(false);
-  const [startPoint, setStartPoint] = useState<Point | null>(null);
-  const [imageData, setImageData] = useState<ImageData | null>(null);
-  const [penPath, setPenPath] = useState<Point[]>([]);
+  const [fontSize, setFontSize] = useState(32);
+  const [editorState, setEditorState] = useState<EditorState>(historyRef.current.current);
+  // Annotation being drawn, moved or resized; replaces its committed version while dragging
+  const [draft, setDraft] = useState<Annotation | null>(null);
+  const [cropDraft, setCropDraft] = useState<Rect | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [textEdit, setTextEdit] = useState<TextEdit | null>(null);
+  const [view, setView] = useState<ViewTransform>({ zoom: 1, panX: 0, panY: 0 });
+  const [isCompact, setIsCompact] = useState(
+    () => typeof window !== 'undefined' && !!window.matchMedia && window.matchMedia(COMPACT_QUERY).matches
+  );
+
+  const { annotations, crop } = editorState;
 
   // Load screenshot onto canvas
   useEffect(() => {
@@ -48,14 +116,97 @@ export const ScreenshotEditor: React.FC<ScreenshotEditorProps> = ({
     img.onload = () => {
       canvas.width = img.width;
       canvas.height = img.height;
-      context.drawImage(img, 0, 0);
+      setImage(img);
       URL.revokeObjectURL(url);
     };
 
     img.src = url;
   }, [screenshot]);
 
-  const getMousePos = (e: React.MouseEvent<HTMLCanvasElement>): Point => {
+  // Switch to the icon-only toolbar on narrow viewports
+  useEffect(() => {
+    if (!window.matchMedia) return;
+    const query = window.matchMedia(COMPACT_QUERY);
+    const update = () => setIsCompact(query.matches);
+    query.addEventListener('change', update);
+    return () => query.removeEventListener('change', update);
+  }, []);
+
+  const getScale = (): number => {
+    const canvas = canvasRef.current;
+    if (!canvas) return 1;
+    const rect = canvas.getBoundingClientRect();
+    return rect.width ? canvas.width / rect.width : 1;
+  };
+
+  const getVisibleAnnotations = (): Annotation[] => {
+    // The text being edited is shown in the overlay instead
+    const visible = textEdit ? annotations.filter((a) => a.id !== textEdit.id) : annotations;
+    if (!draft) return visible;
+    return visible.some((a) => a.id === draft.id)
+      ? visible.map((a) => (a.id === draft.id ? draft : a))
+      : [...visible, draft];
+  };
+
+  // Redraw whenever the annotations or the selection change
+  useEffect(() => {
+    if (!ctx || !image) return;
+    renderAnnotations(ctx, image, getVisibleAnnotations(), {
+      selectedId,
+      handleSize: 10 * getScale(),
+      crop: cropDraft || crop,
+    });
+  }, [ctx, image, editorState, draft, cropDraft, selectedId, textEdit]);
+
+  const commit = (next: Partial<EditorState>) => {
+    setEditorState(historyRef.current.push({ ...historyRef.current.current, ...next }));
+  };
+
+  const undo = () => {
+    setEditorState(historyRef.current.undo());
+    setSelectedId(null);
+  };
+
+  const redo = () => {
+    setEditorState(historyRef.current.redo());
+    setSelectedId(null);
+  };
+
+  const deleteSelected = () => {
+    if (!selectedId) return;
+    commit({ annotations: annotations.filter((a) => a.id !== selectedId) });
+    setSelectedId(null);
+  };
+
+  // Keyboard shortcuts: Ctrl+Z, Ctrl+Shift+Z / Ctrl+Y, Delete
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+        return;
+      }
+
+      const modifier = e.ctrlKey || e.metaKey;
+      if (modifier && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if (modifier && e.key.toLowerCase() === 'y') {
+        e.preventDefault();
+        redo();
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && selectedId) {
+        e.preventDefault();
+        deleteSelected();
+      } else if (e.key === 'Escape' && selectedId) {
+        setSelectedId(null);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [editorState, selectedId]);
+
+  const getMousePos = (e: { clientX: number; clientY: number }): Point => {
     const canvas = canvasRef.current;
     if (!canvas) return { x: 0, y: 0 };
 
@@ -80,205 +231,550 @@ export const ScreenshotEditor: React.FC<ScreenshotEditorProps> = ({
     return colors[c];
   };
 
-  const drawArrow = (from: Point, to: Point, ctx: CanvasRenderingContext2D) => {
-    const headLength = 20;
-    const angle = Math.atan2(to.y - from.y, to.x - from.x);
-
-    ctx.beginPath();
-    ctx.moveTo(from.x, from.y);
-    ctx.lineTo(to.x, to.y);
-    ctx.stroke();
-
-    ctx.beginPath();
-    ctx.moveTo(to.x, to.y);
-    ctx.lineTo(
-      to.x - headLength * Math.cos(angle - Math.PI / 6),
-      to.y - headLength * Math.sin(angle - Math.PI / 6)
-    );
-    ctx.lineTo(
-      to.x - headLength * Math.cos(angle + Math.PI / 6),
-      to.y - headLength * Math.sin(angle + Math.PI / 6)
-    );
-    ctx.lineTo(to.x, to.y);
-    ctx.fill();
+  /**
+   * Creates the annotation for a drag from start to point with the current tool
+   */
+  const createShape = (type: Exclude<AnnotationType, 'text' | 'step'>, id: string, start: Point, point: Point): Annotation => {
+    const base = { id, color: getColorValue(color), lineWidth: LINE_WIDTH };
+    switch (type) {
+      case 'arrow':
+        return { ...base, type, from: start, to: point };
+      case 'rectangle':
+        return { ...base, type, rect: { x: start.x, y: start.y, width: point.x - start.x, height: point.y - start.y } };
+      case 'circle':
+        return { ...base, type, center: start, radius: Math.hypot(point.x - start.x, point.y - start.y) };
+      case 'pen':
+        return { ...base, type, points: [start, point] };
+      case 'highlight':
+        return { ...base, type, lineWidth: HIGHLIGHT_WIDTH, points: [start, point] };
+      case 'pixelate': {
+        // Blocks scale with the screenshot so text stays unreadable
+        const blockSize = Math.max(8, Math.round((canvasRef.current?.width || 0) / 150));
+        return { ...base, type, blockSize, rect: { x: start.x, y: start.y, width: point.x - start.x, height: point.y - start.y } };
+      }
+    }
   };
 
-  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!ctx) return;
+  const startTextEdit = (position: Point, existing?: Annotation) => {
+    if (existing && existing.type === 'text') {
+      setTextEdit({
+        id: existing.id,
+        position: existing.position,
+        text: existing.text,
+        fontSize: existing.fontSize,
+        color: existing.color,
+      });
+    } else {
+      setTextEdit({ id: createAnnotationId(), position, text: '', fontSize, color: getColorValue(color) });
+    }
+    textEditOpenRef.current = true;
+    setSelectedId(null);
+  };
 
-    const point = getMousePos(e);
-    setIsDrawing(true);
-    setStartPoint(point);
-    setImageData(ctx.getImageData(0, 0, canvasRef.current!.width, canvasRef.current!.height));
+  const cancelTextEdit = () => {
+    textEditOpenRef.current = false;
+    setTextEdit(null);
+  };
 
-    if (tool === 'pen') {
-      setPenPath([point]);
+  const finishTextEdit = () => {
+    if (!textEdit || !textEditOpenRef.current) return;
+    textEditOpenRef.current = false;
+
+    const annotation: Annotation = {
+      id: textEdit.id,
+      type: 'text',
+      color: textEdit.color,
+      lineWidth: LINE_WIDTH,
+      position: textEdit.position,
+      text: textEdit.text,
+      fontSize: textEdit.fontSize,
+    };
+    const exists = annotations.some((a) => a.id === annotation.id);
+
+    if (!isMeaningful(annotation)) {
+      // Emptying an existing text removes it
+      if (exists) commit({ annotations: annotations.filter((a) => a.id !== annotation.id) });
+    } else if (exists) {
+      commit({ annotations: annotations.map((a) => (a.id === annotation.id ? annotation : a)) });
+    } else {
+      commit({ annotations: [...annotations, annotation] });
     }
+    setTextEdit(null);
   };
 
-  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!ctx || !isDrawing || !startPoint || !imageData) return;
+  const handleFontSizeChange = (size: number) => {
+    setFontSize(size);
+    const selected = annotations.find((a) => a.id === selectedId);
+    if (selected && selected.type === 'text') {
+      commit({ annotations: annotations.map((a) => (a.id === selected.id ? { ...selected, fontSize: size } : a)) });
+    }
+  };
 
-    const point = getMousePos(e);
+  const startPinch = () => {
+    const canvas = canvasRef.current;
+    const [a, b] = Array.from(pointersRef.current.values());
+    if (!canvas || !a || !b) return;
 
-    if (tool === 'pen') {
-      setPenPath((prev) => [...prev, point]);
-      ctx.strokeStyle = getColorValue(color);
-      ctx.lineWidth = 3;
-      ctx.lineCap = 'round';
-      ctx.lineJoin = 'round';
-      ctx.beginPath();
-      ctx.moveTo(penPath[penPath.length - 1].x, penPath[penPath.length - 1].y);
-      ctx.lineTo(point.x, point.y);
-      ctx.stroke();
+    const rect = canvas.getBoundingClientRect();
+    gestureRef.current = {
+      distance: Math.hypot(b.x - a.x, b.y - a.y) || 1,
+      midpoint: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+      view,
+      origin: { x: rect.left - view.panX, y: rect.top - view.panY },
+    };
+  };
+
+  const updatePinch = () => {
+    const gesture = gestureRef.current;
+    const [a, b] = Array.from(pointersRef.current.values());
+    if (!gesture || !a || !b) return;
+
+    const distance = Math.hypot(b.x - a.x, b.y - a.y);
+    const midpoint = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, gesture.view.zoom * (distance / gesture.distance)));
+    const ratio = zoom / gesture.view.zoom;
+
+    // Keep the point under the fingers in place while zooming, and follow the midpoint to pan
+    setView({
+      zoom,
+      panX: midpoint.x - gesture.origin.x - ratio * (gesture.midpoint.x - gesture.origin.x - gesture.view.panX),
+      panY: midpoint.y - gesture.origin.y - ratio * (gesture.midpoint.y - gesture.origin.y - gesture.view.panY),
+    });
+  };
+
+  const resetView = () => setView({ zoom: 1, panX: 0, panY: 0 });
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!ctx) return;
+
+    if (e.pointerType === 'touch') {
+      pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (pointersRef.current.size === 2) {
+        // A second finger turns the gesture into zoom/pan and drops the stroke
+        interactionRef.current = null;
+        setDraft(null);
+        setCropDraft(null);
+        startPinch();
+        return;
+      }
+      if (pointersRef.current.size > 2) return;
+    } else if (e.button !== 0) {
       return;
     }
 
-    // Restore image for preview
-    ctx.putImageData(imageData, 0, 0);
+    e.currentTarget.setPointerCapture(e.pointerId);
 
-    ctx.strokeStyle = getColorValue(color);
-    ctx.fillStyle = getColorValue(color);
-    ctx.lineWidth = 3;
+    // The first click outside an open text input only closes it
+    if (textEdit) {
+      e.preventDefault();
+      finishTextEdit();
+      return;
+    }
+
+    const point = getMousePos(e);
+    const handleSize = 10 * getScale();
 
     switch (tool) {
-      case 'arrow':
-        drawArrow(startPoint, point, ctx);
+      case 'select': {
+        const selected = annotations.find((a) => a.id === selectedId);
+        const handle = selected ? hitHandle(selected, point, handleSize) : null;
+        if (selected && handle) {
+          interactionRef.current = { mode: 'resize', handle, original: selected };
+          return;
+        }
+
+        const hit = hitTest(annotations, point, handleSize / 2);
+        setSelectedId(hit ? hit.id : null);
+        if (hit) {
+          interactionRef.current = { mode: 'move', start: point, original: hit };
+        }
+        return;
+      }
+      case 'text': {
+        const hit = hitTest(annotations.filter((a) => a.type === 'text'), point, handleSize / 2);
+        startTextEdit(point, hit || undefined);
+        return;
+      }
+      case 'step': {
+        const radius = Math.max(16, Math.round((canvasRef.current?.width || 0) / 60));
+        commit({
+          annotations: [
+            ...annotations,
+            { id: createAnnotationId(), type: 'step', color: getColorValue(color), lineWidth: LINE_WIDTH, center: point, radius },
+          ],
+        });
+        return;
+      }
+      case 'crop':
+        setSelectedId(null);
+        interactionRef.current = { mode: 'crop', start: point };
+        setCropDraft(rectFromPoints(point, point));
+        return;
+      default: {
+        setSelectedId(null);
+        interactionRef.current = { mode: 'draw', start: point };
+        const start: StrokePoint = e.pointerType === 'pen' ? { ...point, pressure: e.pressure } : point;
+        setDraft(createShape(tool, createAnnotationId(), start, start));
+      }
+    }
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (tool !== 'select') return;
+    const point = getMousePos(e);
+    const hit = hitTest(annotations, point, 5 * getScale());
+    if (hit && hit.type === 'text') {
+      startTextEdit(point, hit);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (pointersRef.current.has(e.pointerId)) {
+      pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    }
+    if (gestureRef.current) {
+      updatePinch();
+      return;
+    }
+
+    const interaction = interactionRef.current;
+    if (!interaction) return;
+
+    // Only styluses report meaningful pressure
+    const position = getMousePos(e);
+    const point: StrokePoint = e.pointerType === 'pen' ? { ...position, pressure: e.pressure } : position;
+
+    switch (interaction.mode) {
+      case 'draw':
+        setDraft((prev) => {
+          if (!prev) return prev;
+          if (prev.type === 'pen' || prev.type === 'highlight') {
+            return { ...prev, points: [...prev.points, point] };
+          }
+          if (prev.type === 'text' || prev.type === 'step') return prev;
+          return createShape(prev.type, prev.id, interaction.start, point);
+        });
         break;
-      case 'rectangle':
-        ctx.strokeRect(
-          startPoint.x,
-          startPoint.y,
-          point.x - startPoint.x,
-          point.y - startPoint.y
-        );
+      case 'crop':
+        setCropDraft(rectFromPoints(interaction.start, point));
         break;
-      case 'circle':
-        const radius = Math.sqrt(
-          Math.pow(point.x - startPoint.x, 2) + Math.pow(point.y - startPoint.y, 2)
-        );
-        ctx.beginPath();
-        ctx.arc(startPoint.x, startPoint.y, radius, 0, 2 * Math.PI);
-        ctx.stroke();
+      case 'move':
+        setDraft(moveAnnotation(
+          interaction.original,
+          point.x - interaction.start.x,
+          point.y - interaction.start.y
+        ));
+        break;
+      case 'resize':
+        setDraft(resizeAnnotation(interaction.original, interaction.handle, point));
         break;
     }
   };
 
-  const handleMouseUp = () => {
-    setIsDrawing(false);
-    setStartPoint(null);
-    setImageData(null);
-    setPenPath([]);
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    pointersRef.current.delete(e.pointerId);
+    if (gestureRef.current) {
+      if (pointersRef.current.size < 2) gestureRef.current = null;
+      return;
+    }
+
+    const interaction = interactionRef.current;
+    interactionRef.current = null;
+
+    if (interaction?.mode === 'crop') {
+      if (cropDraft && cropDraft.width >= MIN_CROP_SIZE && cropDraft.height >= MIN_CROP_SIZE) {
+        commit({ crop: cropDraft });
+      }
+      setCropDraft(null);
+      return;
+    }
+
+    if (!interaction || !draft) {
+      setDraft(null);
+      return;
+    }
+
+    if (interaction.mode === 'draw') {
+      if (isMeaningful(draft)) {
+        commit({ annotations: [...annotations, draft] });
+      }
+    } else {
+      commit({ annotations: annotations.map((a) => (a.id === draft.id ? draft : a)) });
+    }
+    setDraft(null);
   };
 
   const handleSave = () => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
+    if (!canvas || !ctx || !image) return;
+
+    // Flatten without the selection and crop frames
+    renderAnnotations(ctx, image, annotations);
+
+    let output = canvas;
+    if (crop) {
+      output = document.createElement('canvas');
+      output.width = Math.round(crop.width);
+      output.height = Math.round(crop.height);
+      output.getContext('2d')?.drawImage(
+        canvas,
+        crop.x, crop.y, crop.width, crop.height,
+        0, 0, output.width, output.height
+      );
+    }
 
-    canvas.toBlob((blob) => {
+    output.toBlob((blob) => {
       if (blob) {
         onSave(blob);
       }
     }, 'image/png');
   };
 
+  /**
+   * Screen position of the text overlay, which sits above the canvas
+   */
+  const getTextEditStyle = (edit: TextEdit): React.CSSProperties => {
+    const canvas = canvasRef.current;
+    const rect = canvas?.getBoundingClientRect();
+    const scale = getScale();
+    return {
+      position: 'fixed',
+      left: `${(rect?.left || 0) + edit.position.x / scale}px`,
+      top: `${(rect?.top || 0) + edit.position.y / scale}px`,
+      minWidth: '120px',
+      font: getTextFont(edit.fontSize / scale),
+      lineHeight: 1.25,
+      color: edit.color,
+      background: 'rgba(255, 255, 255, 0.8)',
+      border: '1px dashed #2196F3',
+      padding: 0,
+      margin: 0,
+      resize: 'both',
+      outline: 'none',
+      zIndex: 10001,
+    };
+  };
+
   const toolButtons: { tool: DrawingTool; label: string; icon: string }[] = [
+    { tool: 'select', label: 'Auswählen', icon: '🖱️' },
     { tool: 'arrow', label: 'Pfeil', icon: '➡️' },
     { tool: 'rectangle', label: 'Rechteck', icon: '⬜' },
     { tool: 'circle', label: 'Kreis', icon: '⭕' },
     { tool: 'pen', label: 'Stift', icon: '✏️' },
+    { tool: 'highlight', label: 'Marker', icon: '🖍️' },
+    { tool: 'text', label: 'Text', icon: '🔤' },
+    { tool: 'step', label: 'Schritt', icon: '①' },
+    { tool: 'pixelate', label: 'Verpixeln', icon: '▦' },
+    { tool: 'crop', label: 'Zuschneiden', icon: '✂️' },
   ];
 
   const colorButtons: DrawingColor[] = ['red', 'blue', 'green', 'yellow', 'black'];
 
+  const selectedAnnotation = annotations.find((a) => a.id === selectedId);
+  const showFontSize = tool === 'text' || selectedAnnotation?.type === 'text';
+
+  const historyActions = [
+    { label: 'Rückgängig', icon: '↶', shortcut: 'Strg+Z', onClick: undo, disabled: !historyRef.current.canUndo },
+    { label: 'Wiederholen', icon: '↷', shortcut: 'Strg+Umschalt+Z', onClick: redo, disabled: !historyRef.current.canRedo },
+    { label: 'Löschen', icon: '🗑️', shortcut: 'Entf', onClick: deleteSelected, disabled: !selectedId },
+  ];
+
   return (
     <div style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
       {/* Toolbar */}
+      {/* On narrow viewports the toolbar scrolls horizontally and shows icons only */}
       <div
         style={{
-          padding: '12px',
+          padding: isCompact ? '8px' : '12px',
           backgroundColor: '#f5f5f5',
           borderBottom: '1px solid #ddd',
           display: 'flex',
-          gap: '12px',
+          gap: isCompact ? '8px' : '12px',
           alignItems: 'center',
-          flexWrap: 'wrap',
+          flexWrap: isCompact ? 'nowrap' : 'wrap',
+          overflowX: isCompact ? 'auto' : 'visible',
         }}
       >
-        <div style={{ display: 'flex', gap: '8px' }}>
+        <div style={{ display: 'flex', gap: '8px', flexWrap: isCompact ? 'nowrap' : 'wrap', flexShrink: 0 }}>
           {toolButtons.map((t) => (
             <button
               key={t.tool}
               onClick={() => setTool(t.tool)}
               style={{
-                padding: '8px 12px',
+                padding: isCompact ? '0' : '8px 12px',
+                minWidth: isCompact ? '40px' : undefined,
+                minHeight: isCompact ? '40px' : undefined,
                 backgroundColor: tool === t.tool ? '#4CAF50' : 'white',
                 color: tool === t.tool ? 'white' : 'black',
                 border: '1px solid #ddd',
                 borderRadius: '6px',
                 cursor: 'pointer',
-                fontSize: '14px',
+                fontSize: isCompact ? '18px' : '14px',
               }}
               title={t.label}
+              aria-label={t.label}
             >
-              {t.icon} {t.label}
+              {isCompact ? t.icon : `${t.icon} ${t.label}`}
             </button>
           ))}
         </div>
 
-        <div
-          style={{
-            width: '1px',
-            height: '32px',
-            backgroundColor: '#ddd',
-          }}
-        />
-
-        <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
-          <span style={{ fontSize: '14px', fontWeight: '600' }}>Farbe:</span>
+        {!isCompact && (
+          <div
+            style={{
+              width: '1px',
+              height: '32px',
+              backgroundColor: '#ddd',
+            }}
+          />
+        )}
+
+        <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexShrink: 0 }}>
+          {!isCompact && <span style={{ fontSize: '14px', fontWeight: '600' }}>Farbe:</span>}
           {colorButtons.map((c) => (
             <button
               key={c}
               onClick={() => setColor(c)}
               style={{
-                width: '32px',
-                height: '32px',
+                width: isCompact ? '28px' : '32px',
+                height: isCompact ? '28px' : '32px',
+                flexShrink: 0,
                 backgroundColor: getColorValue(c),
                 border: color === c ? '3px solid #333' : '1px solid #ddd',
                 borderRadius: '50%',
                 cursor: 'pointer',
               }}
               title={c}
+              aria-label={c}
             />
           ))}
         </div>
+
+        {showFontSize && (
+          <label style={{ display: 'flex', gap: '8px', alignItems: 'center', flexShrink: 0 }}>
+            {!isCompact && <span style={{ fontSize: '14px', fontWeight: '600' }}>Schriftgröße:</span>}
+            <select
+              value={selectedAnnotation?.type === 'text' ? selectedAnnotation.fontSize : fontSize}
+              onChange={(e) => handleFontSizeChange(Number(e.target.value))}
+              style={{ padding: '6px', border: '1px solid #ddd', borderRadius: '6px', fontSize: '14px' }}
+            >
+              {FONT_SIZES.map((size) => (
+                <option key={size} value={size}>{size}px</option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {!isCompact && (
+          <div
+            style={{
+              width: '1px',
+              height: '32px',
+              backgroundColor: '#ddd',
+            }}
+          />
+        )}
+
+        <div style={{ display: 'flex', gap: '8px', flexShrink: 0 }}>
+          {historyActions.map((action) => (
+            <button
+              key={action.label}
+              onClick={action.onClick}
+              disabled={action.disabled}
+              style={{
+                padding: isCompact ? '0' : '8px 12px',
+                minWidth: isCompact ? '40px' : undefined,
+                minHeight: isCompact ? '40px' : undefined,
+                backgroundColor: 'white',
+                color: 'black',
+                border: '1px solid #ddd',
+                borderRadius: '6px',
+                cursor: action.disabled ? 'not-allowed' : 'pointer',
+                opacity: action.disabled ? 0.5 : 1,
+                fontSize: '14px',
+              }}
+              title={`${action.label} (${action.shortcut})`}
+              aria-label={action.label}
+            >
+              {isCompact ? action.icon : `${action.icon} ${action.label}`}
+            </button>
+          ))}
+        </div>
       </div>
 
       {/* Canvas */}
       <div
         style={{
           flex: 1,
-          overflow: 'auto',
+          position: 'relative',
+          overflow: 'hidden',
           backgroundColor: '#e0e0e0',
           display: 'flex',
           alignItems: 'center',
           justifyContent: 'center',
-          padding: '20px',
+          padding: isCompact ? '8px' : '20px',
         }}
       >
         <canvas
           ref={canvasRef}
-          onMouseDown={handleMouseDown}
-          onMouseMove={handleMouseMove}
-          onMouseUp={handleMouseUp}
-          onMouseLeave={handleMouseUp}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onDoubleClick={handleDoubleClick}
           style={{
             maxWidth: '100%',
             maxHeight: '100%',
-            cursor: 'crosshair',
+            cursor: tool === 'select' ? 'default' : tool === 'text' ? 'text' : 'crosshair',
             boxShadow: '0 2px 8px rgba(0,0,0,0.2)',
+            // The editor handles touch gestures itself instead of scrolling the page
+            touchAction: 'none',
+            transform: `translate(${view.panX}px, ${view.panY}px) scale(${view.zoom})`,
+            transformOrigin: '0 0',
           }}
         />
+
+        {view.zoom !== 1 && (
+          <button
+            onClick={resetView}
+            style={{
+              position: 'absolute',
+              right: '12px',
+              bottom: '12px',
+              padding: '8px 12px',
+              backgroundColor: 'white',
+              border: '1px solid #ddd',
+              borderRadius: '6px',
+              cursor: 'pointer',
+              fontSize: '14px',
+              boxShadow: '0 2px 8px rgba(0,0,0,0.2)',
+            }}
+            title="Ansicht zurücksetzen"
+          >
+            {Math.round(view.zoom * 100)}% ✕
+          </button>
+        )}
+
+        {/* Text input placed over the canvas while a text annotation is edited */}
+        {textEdit && (
+          <textarea
+            autoFocus
+            value={textEdit.text}
+            onChange={(e) => setTextEdit({ ...textEdit, text: e.target.value })}
+            onBlur={finishTextEdit}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                finishTextEdit();
+              } else if (e.key === 'Escape') {
+                e.stopPropagation();
+                cancelTextEdit();
+              }
+            }}
+            rows={Math.max(1, textEdit.text.split('\n').length)}
+            style={getTextEditStyle(textEdit)}
+          />
+        )}
       </div>
 
       {/* Action Buttons */}
@@ -1,6 +1,12 @@
 export { FeedbackButton } from './FeedbackButton';
 export { FeedbackModal } from './FeedbackModal';
 export { ScreenshotEditor } from './ScreenshotEditor';
+export { ReplayPlayer } from './ReplayPlayer';
+export { FeedbackReporterProvider, useFeedbackReporter } from './FeedbackReporterProvider';
+export { FeedbackErrorBoundary } from './FeedbackErrorBoundary';
 export type { FeedbackButtonProps } from './FeedbackButton';
 export type { FeedbackModalProps } from './FeedbackModal';
 export type { ScreenshotEditorProps } from './ScreenshotEditor';
+export type { ReplayPlayerProps } from './ReplayPlayer';
+export type { FeedbackReporterProviderProps } from './FeedbackReporterProvider';
+export type { FeedbackErrorBoundaryProps, FeedbackErrorFallbackProps } from './FeedbackErrorBoundary';
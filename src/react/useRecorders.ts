@@ -0,0 +1,40 @@
+import { useEffect } from 'react';
+import { FeedbackReporterConfig } from '../types';
+import { startConsoleRecorder, stopConsoleRecorder } from '../core/console';
+import { startNetworkRecorder, stopNetworkRecorder } from '../core/network';
+import { startSessionRecorder, stopSessionRecorder } from '../core/replay';
+
+/**
+ * Records console output, fetch/XHR traffic and a rolling session replay while the component is mounted
+ * The privacy rules mask the replay and redact the recorded URLs
+ */
+export function useRecorders({
+  captureConsole,
+  captureNetwork,
+  captureSession,
+  privacy,
+}: Pick<FeedbackReporterConfig, 'captureConsole' | 'captureNetwork' | 'captureSession' | 'privacy'>) {
+  const consoleOptions = typeof captureConsole === 'object' ? captureConsole : undefined;
+  useEffect(() => {
+    if (!captureConsole) return;
+
+    startConsoleRecorder(consoleOptions);
+    return () => stopConsoleRecorder();
+  }, [!!captureConsole]);
+
+  const networkOptions = typeof captureNetwork === 'object' ? captureNetwork : undefined;
+  useEffect(() => {
+    if (!captureNetwork) return;
+
+    startNetworkRecorder(networkOptions, privacy);
+    return () => stopNetworkRecorder();
+  }, [!!captureNetwork]);
+
+  const sessionOptions = typeof captureSession === 'object' ? captureSession : undefined;
+  useEffect(() => {
+    if (!captureSession) return;
+
+    startSessionRecorder(sessionOptions, privacy);
+    return () => stopSessionRecorder();
+  }, [!!captureSession]);
+}
@@ -0,0 +1,247 @@
+import type { IssueTrackerAdapter } from '../types';
+import { handleFeedbackRequest, FeedbackHandlerOptions } from './handler';
+
+const issue = { id: 7, url: 'https://tracker.example/issues/7', title: 'Checkout fails' };
+
+function createAdapter(): IssueTrackerAdapter {
+  return { createIssue: jest.fn().mockResolvedValue(issue) };
+}
+
+function createForm(fields: Record<string, string | Blob> = {}): FormData {
+  const formData = new FormData();
+  formData.set('title', ' Checkout fails ');
+  formData.set('description', 'The pay button does nothing');
+  Object.entries(fields).forEach(([name, value]) => formData.set(name, value));
+  return formData;
+}
+
+function post(body: BodyInit, init: RequestInit = {}) {
+  return new Request('https://app.example/api/feedback', { method: 'POST', body, ...init });
+}
+
+async function submit(formData: FormData, options: Partial<FeedbackHandlerOptions> = {}) {
+  const adapter = options.adapter || createAdapter();
+  const response = await handleFeedbackRequest(post(formData), { ...options, adapter });
+  return { response, body: await response.json(), adapter };
+}
+
+describe('handleFeedbackRequest', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('validation', () => {
+    it('creates the issue from the trimmed title and description', async () => {
+      const { response, body, adapter } = await submit(createForm());
+
+      expect(response.status).toBe(201);
+      expect(body).toEqual(issue);
+      expect(adapter.createIssue).toHaveBeenCalledWith({
+        title: 'Checkout fails',
+        description: 'The pay button does nothing',
+      });
+    });
+
+    it('requires a title that is not only whitespace', async () => {
+      const { response, body, adapter } = await submit(createForm({ title: '   ' }));
+
+      expect(response.status).toBe(400);
+      expect(body).toEqual({ error: 'Title is required', code: 'validation' });
+      expect(adapter.createIssue).not.toHaveBeenCalled();
+    });
+
+    it('rejects a description over the configured length', async () => {
+      const { response, body } = await submit(createForm({ description: 'x'.repeat(11) }), { maxDescriptionLength: 10 });
+
+      expect(response.status).toBe(400);
+      expect(body.error).toBe('Description is too long');
+    });
+
+    it('drops labels that are not allowed', async () => {
+      const { adapter } = await submit(createForm({ labels: JSON.stringify(['bug', 'urgent']) }), { allowedLabels: ['bug'] });
+
+      expect(adapter.createIssue).toHaveBeenCalledWith(expect.objectContaining({ labels: ['bug'] }));
+    });
+
+    it('rejects malformed JSON fields', async () => {
+      const { response, body } = await submit(createForm({ labels: '[bug' }));
+
+      expect(response.status).toBe(400);
+      expect(body.code).toBe('validation');
+    });
+
+    it('keeps the metadata of the system and the element selection', async () => {
+      const metadata = {
+        browser: 'Firefox',
+        online: true,
+        selection: { selector: '#pay', rect: { x: 1, y: 2, width: 3, height: 4 } },
+      };
+      const { response, adapter } = await submit(createForm({ metadata: JSON.stringify(metadata) }));
+
+      expect(response.status).toBe(201);
+      expect(adapter.createIssue).toHaveBeenCalledWith(expect.objectContaining({ metadata }));
+    });
+
+    it.each([
+      ['an array', []],
+      ['a string', 'Firefox'],
+      ['nested too deep', { a: { b: { c: { d: 1 } } } }],
+    ])('rejects metadata that is %s', async (_name, metadata) => {
+      const { response, adapter } = await submit(createForm({ metadata: JSON.stringify(metadata) }));
+
+      expect(response.status).toBe(400);
+      expect(adapter.createIssue).not.toHaveBeenCalled();
+    });
+
+    it('rejects metadata over the size limit', async () => {
+      const metadata = JSON.stringify({ notes: 'x'.repeat(100) });
+      const { response, body } = await submit(createForm({ metadata }), { maxMetadataSize: 64 });
+
+      expect(response.status).toBe(400);
+      expect(body.error).toBe('Metadata is too large');
+    });
+
+    it('rejects a screenshot that is not an image', async () => {
+      const screenshot = new Blob(['<svg onload=alert(1)>'], { type: 'text/html' });
+      const { response, body } = await submit(createForm({ screenshot }));
+
+      expect(response.status).toBe(400);
+      expect(body.error).toBe('Screenshot must be an image file');
+    });
+
+    it('strips the path from attachment filenames', async () => {
+      const formData = createForm();
+      formData.append('attachments', new File(['log'], '../../etc/passwd', { type: 'text/plain' }));
+      const { adapter } = await submit(formData);
+
+      expect(adapter.createIssue).toHaveBeenCalledWith(expect.objectContaining({
+        attachments: [expect.objectContaining({ filename: 'passwd', type: 'text/plain' })],
+      }));
+    });
+  });
+
+  describe('body size', () => {
+    it('rejects a declared Content-Length over the limit', async () => {
+      const response = await handleFeedbackRequest(
+        post(createForm(), { headers: { 'Content-Length': '2048' } }),
+        { adapter: createAdapter(), maxBodySize: 1024 },
+      );
+
+      expect(response.status).toBe(413);
+    });
+
+    it('counts the bytes of a chunked body without a Content-Length', async () => {
+      const form = new Response(createForm({ description: 'x'.repeat(4096) }));
+      const contentType = form.headers.get('Content-Type')!;
+      const adapter = createAdapter();
+
+      const response = await handleFeedbackRequest(
+        post(form.body!, { headers: { 'Content-Type': contentType }, duplex: 'half' } as RequestInit),
+        { adapter, maxBodySize: 1024 },
+      );
+
+      expect(response.status).toBe(413);
+      expect(adapter.createIssue).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authorize', () => {
+    it('returns 401 when the request is not authorized', async () => {
+      const { response, adapter } = await submit(createForm(), { authorize: () => false });
+
+      expect(response.status).toBe(401);
+      expect(adapter.createIssue).not.toHaveBeenCalled();
+    });
+
+    it('returns 500 when authorize throws', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const { response, body } = await submit(createForm(), {
+        authorize: () => Promise.reject(new Error('Session store is down')),
+      });
+
+      expect(response.status).toBe(500);
+      expect(body).toEqual({ error: 'Internal server error', code: 'unknown' });
+    });
+  });
+
+  describe('search', () => {
+    const results = [{ id: 3, url: 'https://tracker.example/issues/3', title: 'Checkout broken', state: 'open' as const }];
+
+    function search(query: string, options: Partial<FeedbackHandlerOptions> = {}) {
+      const adapter = options.adapter || { ...createAdapter(), searchIssues: jest.fn().mockResolvedValue(results) };
+      const request = new Request(`https://app.example/api/feedback?q=${encodeURIComponent(query)}`);
+      return { adapter, response: handleFeedbackRequest(request, { allowSearch: true, ...options, adapter }) };
+    }
+
+    it('returns the issues matching the query', async () => {
+      const { adapter, response } = search(' checkout ');
+
+      expect((await response).status).toBe(200);
+      expect(await (await response).json()).toEqual(results);
+      expect(adapter.searchIssues).toHaveBeenCalledWith('checkout');
+    });
+
+    it('is not allowed unless enabled', async () => {
+      const response = await search('checkout', { allowSearch: false }).response;
+
+      expect(response.status).toBe(405);
+      expect(response.headers.get('Allow')).toBe('POST, OPTIONS');
+    });
+
+    it('rejects a missing or too long query', async () => {
+      expect((await search('  ').response).status).toBe(400);
+      expect((await search('x'.repeat(201)).response).status).toBe(400);
+    });
+
+    it('returns 501 when the adapter cannot search', async () => {
+      expect((await search('checkout', { adapter: createAdapter() }).response).status).toBe(501);
+    });
+
+    it('checks the authorization first', async () => {
+      const { adapter, response } = search('checkout', { authorize: () => false });
+
+      expect((await response).status).toBe(401);
+      expect(adapter.searchIssues).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('comments', () => {
+    const comment = { id: 11, url: 'https://tracker.example/issues/3#note_11' };
+
+    function createCommentAdapter(): IssueTrackerAdapter {
+      return { ...createAdapter(), addComment: jest.fn().mockResolvedValue(comment) };
+    }
+
+    it('adds a report with an issue ID as a comment', async () => {
+      const { response, body, adapter } = await submit(createForm({ issueId: 'SHOP-3' }), { adapter: createCommentAdapter() });
+
+      expect(response.status).toBe(201);
+      expect(body).toEqual(comment);
+      expect(adapter.addComment).toHaveBeenCalledWith('SHOP-3', expect.objectContaining({ title: 'Checkout fails' }));
+      expect(adapter.createIssue).not.toHaveBeenCalled();
+    });
+
+    it('rejects issue IDs that are not a number or key', async () => {
+      const { response, adapter } = await submit(createForm({ issueId: '3/../../admin' }), { adapter: createCommentAdapter() });
+
+      expect(response.status).toBe(400);
+      expect(adapter.addComment).not.toHaveBeenCalled();
+    });
+
+    it('rejects comments when they are not allowed', async () => {
+      const { response, adapter } = await submit(createForm({ issueId: '3' }), {
+        adapter: createCommentAdapter(),
+        allowComments: false,
+      });
+
+      expect(response.status).toBe(403);
+      expect(adapter.addComment).not.toHaveBeenCalled();
+    });
+
+    it('returns 501 when the adapter cannot comment', async () => {
+      const { response } = await submit(createForm({ issueId: '3' }));
+
+      expect(response.status).toBe(501);
+    });
+  });
+});
@@ -0,0 +1,626 @@
+import { IssueTrackerAdapter, FeedbackData, IssueSearchResult, ReporterInfo } from '../types';
+import { FEEDBACK_FIELDS } from '../core/formData';
+import { ValidationError, RateLimitError, toIssueReporterError } from '../core/errors';
+import type { SessionRecording } from '../core/replay';
+import type { FieldValue } from '../core/fields';
+import type { ConsoleLogEntry } from '../core/console';
+import { safeFilename } from '../core/attachments';
+import type { NetworkEntry } from '../core/network';
+
+export interface FeedbackHandlerOptions {
+  /**
+   * Server-side adapter holding the tracker credentials
+   */
+  adapter: IssueTrackerAdapter;
+  /**
+   * Maximum request body size in bytes (default: 10 MB)
+   */
+  maxBodySize?: number;
+  maxTitleLength?: number;
+  maxDescriptionLength?: number;
+  /**
+   * Console log entries beyond this count are dropped (default: 500)
+   */
+  maxLogEntries?: number;
+  /**
+   * Network entries beyond this count are dropped (default: 200)
+   */
+  maxNetworkEntries?: number;
+  /**
+   * Maximum number of attached files (default: 10)
+   */
+  maxAttachments?: number;
+  /**
+   * Maximum size of a single attached file in bytes (default: 10 MB)
+   */
+  maxAttachmentSize?: number;
+  /**
+   * Maximum size of the client metadata as JSON in bytes (default: 16 KB)
+   */
+  maxMetadataSize?: number;
+  /**
+   * Labels the client may set, all others are dropped
+   */
+  allowedLabels?: string[];
+  /**
+   * Origins allowed to call the endpoint cross-origin
+   */
+  allowedOrigins?: string[] | '*';
+  /**
+   * Answer `GET ?q=` with the adapter's `searchIssues`, for the duplicate detection of a ProxyAdapter
+   * created with `search: true` (default: false, since it shows the titles of existing issues)
+   */
+  allowSearch?: boolean;
+  /**
+   * Accept reports with an `issueId` as comments on that issue via the adapter's `addComment` (default: true)
+   */
+  allowComments?: boolean;
+  /**
+   * Rejects the request with 401 when it resolves to false
+   */
+  authorize?: (request: Request) => boolean | Promise<boolean>;
+}
+
+/**
+ * Minimal shape of a Node.js IncomingMessage (Express, Fastify's request.raw, http)
+ */
+export interface NodeRequest extends AsyncIterable<Uint8Array<ArrayBuffer>> {
+  method?: string;
+  url?: string;
+  headers: Record<string, string | string[] | undefined>;
+}
+
+/**
+ * Minimal shape of a Node.js ServerResponse (Express, Fastify's reply.raw, http)
+ */
+export interface NodeResponse {
+  statusCode: number;
+  setHeader(name: string, value: string): unknown;
+  end(body?: string): unknown;
+  headersSent?: boolean;
+}
+
+const DEFAULT_MAX_BODY_SIZE = 10 * 1024 * 1024;
+const DEFAULT_MAX_TITLE_LENGTH = 255;
+const DEFAULT_MAX_DESCRIPTION_LENGTH = 20000;
+const DEFAULT_MAX_LOG_ENTRIES = 500;
+const DEFAULT_MAX_NETWORK_ENTRIES = 200;
+const DEFAULT_MAX_ATTACHMENTS = 10;
+const DEFAULT_MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+const DEFAULT_MAX_METADATA_SIZE = 16 * 1024;
+const MAX_QUERY_LENGTH = 200;
+// Issue numbers and keys such as `PROJ-123`
+const ISSUE_ID_PATTERN = /^[\w-]{1,64}$/;
+// Deep enough for the element selection (`metadata.selection.rect`) and error details
+const MAX_METADATA_DEPTH = 3;
+
+/**
+ * Builds a JSON response with CORS headers applied
+ */
+function jsonResponse(status: number, body: unknown, headers: Record<string, string>): Response {
+  return new Response(body === null ? null : JSON.stringify(body), {
+    status,
+    headers: {
+      ...headers,
+      ...(body === null ? {} : { 'Content-Type': 'application/json' }),
+    },
+  });
+}
+
+/**
+ * Maps a tracker error to the response sent to the browser
+ * Credential problems are server-side misconfiguration, so they surface as 502
+ */
+function trackerErrorResponse(error: unknown, headers: Record<string, string>): Response {
+  const err = toIssueReporterError(error);
+  const body = { error: err.message, code: err.code };
+
+  switch (err.code) {
+    case 'rate-limited': {
+      const retryAfter = (err as RateLimitError).retryAfter;
+      return jsonResponse(429, body, retryAfter !== undefined
+        ? { ...headers, 'Retry-After': String(retryAfter) }
+        : headers);
+    }
+    case 'validation':
+      return jsonResponse(422, body, headers);
+    case 'payload-too-large':
+      return jsonResponse(413, body, headers);
+    default:
+      return jsonResponse(502, body, headers);
+  }
+}
+
+function getAllowedMethods(options: FeedbackHandlerOptions): string {
+  return options.allowSearch ? 'GET, POST, OPTIONS' : 'POST, OPTIONS';
+}
+
+/**
+ * Resolves CORS headers for the request origin
+ */
+function getCorsHeaders(request: Request, options: FeedbackHandlerOptions): Record<string, string> {
+  const origin = request.headers.get('Origin');
+  const allowed = options.allowedOrigins;
+
+  if (!origin || !allowed) {
+    return {};
+  }
+
+  if (allowed !== '*' && !allowed.includes(origin)) {
+    return {};
+  }
+
+  return {
+    'Access-Control-Allow-Origin': allowed === '*' ? '*' : origin,
+    'Access-Control-Allow-Methods': getAllowedMethods(options),
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Vary': 'Origin',
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Strings, numbers, booleans and null, or arrays and plain objects of them nested up to `depth` levels
+ */
+function isMetadataValue(value: unknown, depth: number): boolean {
+  if (value === null || typeof value === 'string' || typeof value === 'boolean') {
+    return true;
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value);
+  }
+  if (depth === 0) {
+    return false;
+  }
+  if (Array.isArray(value)) {
+    return value.every((item) => isMetadataValue(item, depth - 1));
+  }
+  return isPlainObject(value) && Object.values(value).every((item) => isMetadataValue(item, depth - 1));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return isRecord(value) && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function isFieldValue(value: unknown): value is FieldValue {
+  return typeof value === 'string' ||
+    typeof value === 'boolean' ||
+    (Array.isArray(value) && value.every((item) => typeof item === 'string'));
+}
+
+function isFieldValues(value: unknown): value is Record<string, FieldValue> {
+  return isRecord(value) && Object.values(value).every(isFieldValue);
+}
+
+function isLogEntry(value: unknown): value is ConsoleLogEntry {
+  return isRecord(value) &&
+    typeof value.level === 'string' &&
+    typeof value.timestamp === 'string' &&
+    typeof value.message === 'string' &&
+    (value.stack === undefined || typeof value.stack === 'string');
+}
+
+function isNetworkEntry(value: unknown): value is NetworkEntry {
+  return isRecord(value) &&
+    typeof value.method === 'string' &&
+    typeof value.url === 'string' &&
+    typeof value.status === 'number' &&
+    typeof value.duration === 'number' &&
+    isRecord(value.requestHeaders) &&
+    isRecord(value.responseHeaders);
+}
+
+function isRecording(value: unknown): value is SessionRecording {
+  return isRecord(value) &&
+    value.version === 1 &&
+    typeof value.url === 'string' &&
+    typeof value.startedAt === 'string' &&
+    Array.isArray(value.events) &&
+    value.events.every((event: unknown) => isRecord(event) && typeof event.type === 'string' && typeof event.time === 'number');
+}
+
+/**
+ * Parses a JSON form field, rejecting malformed values
+ */
+function parseJsonField(formData: FormData, name: string): unknown {
+  const value = formData.get(name);
+  if (value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new ValidationError(`Field "${name}" must be a JSON string`);
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new ValidationError(`Field "${name}" contains invalid JSON`);
+  }
+}
+
+/**
+ * Validates a multipart submission and turns it into FeedbackData
+ */
+function parseFeedback(formData: FormData, options: FeedbackHandlerOptions): FeedbackData {
+  const title = formData.get(FEEDBACK_FIELDS.title);
+  const description = formData.get(FEEDBACK_FIELDS.description);
+
+  if (typeof title !== 'string' || !title.trim()) {
+    throw new ValidationError('Title is required');
+  }
+  if (typeof description !== 'string' || !description.trim()) {
+    throw new ValidationError('Description is required');
+  }
+  if (title.length > (options.maxTitleLength || DEFAULT_MAX_TITLE_LENGTH)) {
+    throw new ValidationError('Title is too long');
+  }
+  if (description.length > (options.maxDescriptionLength || DEFAULT_MAX_DESCRIPTION_LENGTH)) {
+    throw new ValidationError('Description is too long');
+  }
+
+  const feedback: FeedbackData = {
+    title: title.trim(),
+    description: description.trim(),
+  };
+
+  const labels = parseJsonField(formData, FEEDBACK_FIELDS.labels);
+  if (labels !== undefined) {
+    if (!Array.isArray(labels) || labels.some((label) => typeof label !== 'string')) {
+      throw new ValidationError('Labels must be an array of strings');
+    }
+    const allowedLabels = options.allowedLabels;
+    const filtered = allowedLabels
+      ? labels.filter((label: string) => allowedLabels.includes(label))
+      : labels;
+    if (filtered.length > 0) {
+      feedback.labels = filtered;
+    }
+  }
+
+  const metadataJson = formData.get(FEEDBACK_FIELDS.metadata);
+  if (typeof metadataJson === 'string' &&
+    new TextEncoder().encode(metadataJson).length > (options.maxMetadataSize || DEFAULT_MAX_METADATA_SIZE)) {
+    throw new ValidationError('Metadata is too large');
+  }
+  const metadata = parseJsonField(formData, FEEDBACK_FIELDS.metadata);
+  if (metadata !== undefined) {
+    if (!isPlainObject(metadata) || !isMetadataValue(metadata, MAX_METADATA_DEPTH)) {
+      throw new ValidationError('Metadata must be an object of strings, numbers, booleans and small nested objects');
+    }
+    feedback.metadata = metadata;
+  }
+
+  const fields = parseJsonField(formData, FEEDBACK_FIELDS.fields);
+  if (fields !== undefined) {
+    if (!isFieldValues(fields)) {
+      throw new ValidationError('Fields must be an object of strings, string arrays or booleans');
+    }
+    feedback.fields = fields;
+  }
+
+  const fieldLabels = parseJsonField(formData, FEEDBACK_FIELDS.fieldLabels);
+  if (fieldLabels !== undefined) {
+    if (!isPlainObject(fieldLabels) || !Object.values(fieldLabels).every((label) => typeof label === 'string')) {
+      throw new ValidationError('Field labels must be an object of strings');
+    }
+    feedback.fieldLabels = fieldLabels as Record<string, string>;
+  }
+
+  const reporter = parseJsonField(formData, FEEDBACK_FIELDS.reporter);
+  if (reporter !== undefined) {
+    if (typeof reporter !== 'object' || reporter === null || Array.isArray(reporter) ||
+      !Object.values(reporter).every((value) => typeof value === 'string' || typeof value === 'number')) {
+      throw new ValidationError('Reporter must be an object of strings or numbers');
+    }
+    feedback.reporter = reporter as ReporterInfo;
+  }
+
+  const logs = parseJsonField(formData, FEEDBACK_FIELDS.logs);
+  if (logs !== undefined) {
+    if (!Array.isArray(logs) || !logs.every(isLogEntry)) {
+      throw new ValidationError('Logs must be an array of console log entries');
+    }
+    // Keep the most recent entries
+    feedback.logs = logs.slice(-(options.maxLogEntries || DEFAULT_MAX_LOG_ENTRIES));
+  }
+
+  const networkRequests = parseJsonField(formData, FEEDBACK_FIELDS.networkRequests);
+  if (networkRequests !== undefined) {
+    if (!Array.isArray(networkRequests) || !networkRequests.every(isNetworkEntry)) {
+      throw new ValidationError('Network requests must be an array of network entries');
+    }
+    // Keep the most recent entries
+    feedback.networkRequests = networkRequests.slice(-(options.maxNetworkEntries || DEFAULT_MAX_NETWORK_ENTRIES));
+  }
+
+  const sessionRecording = parseJsonField(formData, FEEDBACK_FIELDS.sessionRecording);
+  if (sessionRecording !== undefined) {
+    if (!isRecording(sessionRecording)) {
+      throw new ValidationError('Session recording must be a recording produced by the SessionRecorder');
+    }
+    feedback.sessionRecording = sessionRecording;
+  }
+
+  const screenshot = formData.get(FEEDBACK_FIELDS.screenshot);
+  if (screenshot !== null) {
+    if (typeof screenshot === 'string' || !screenshot.type.startsWith('image/')) {
+      throw new ValidationError('Screenshot must be an image file');
+    }
+    feedback.screenshot = screenshot;
+  }
+
+  const video = formData.get(FEEDBACK_FIELDS.video);
+  if (video !== null) {
+    if (typeof video === 'string' || !video.type.startsWith('video/')) {
+      throw new ValidationError('Video must be a video file');
+    }
+    feedback.video = video;
+  }
+
+  const attachments = formData.getAll(FEEDBACK_FIELDS.attachments);
+  if (attachments.length > 0) {
+    if (attachments.length > (options.maxAttachments || DEFAULT_MAX_ATTACHMENTS)) {
+      throw new ValidationError('Too many attachments');
+    }
+    feedback.attachments = attachments.map((file) => {
+      if (typeof file === 'string') {
+        throw new ValidationError('Attachments must be files');
+      }
+      if (file.size > (options.maxAttachmentSize || DEFAULT_MAX_ATTACHMENT_SIZE)) {
+        throw new ValidationError(`Attachment ${safeFilename(file.name)} is too large`);
+      }
+      return {
+        filename: safeFilename(file.name),
+        type: file.type || 'application/octet-stream',
+        data: file,
+      };
+    });
+  }
+
+  return feedback;
+}
+
+/**
+ * Issue to comment on, or null for a new issue
+ */
+function parseIssueId(formData: FormData): string | null {
+  const issueId = formData.get(FEEDBACK_FIELDS.issueId);
+  if (issueId === null) {
+    return null;
+  }
+  if (typeof issueId !== 'string' || !ISSUE_ID_PATTERN.test(issueId)) {
+    throw new ValidationError('Issue ID must be an issue number or key');
+  }
+  return issueId;
+}
+
+/**
+ * Adds the parsed report as a comment to an existing issue
+ */
+async function handleCommentRequest(
+  issueId: string,
+  feedback: FeedbackData,
+  options: FeedbackHandlerOptions,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  if (options.allowComments === false) {
+    return jsonResponse(403, { error: 'Comments are not allowed', code: 'permission' }, corsHeaders);
+  }
+  if (!options.adapter.addComment) {
+    return jsonResponse(501, { error: 'The adapter cannot add comments', code: 'unknown' }, corsHeaders);
+  }
+
+  try {
+    const comment = await options.adapter.addComment(issueId, feedback);
+
+    if (!comment) {
+      return jsonResponse(502, { error: 'Failed to add comment', code: 'unknown' }, corsHeaders);
+    }
+
+    return jsonResponse(201, comment, corsHeaders);
+  } catch (error) {
+    console.error('[issue-reporter] Error forwarding comment:', error);
+    return trackerErrorResponse(error, corsHeaders);
+  }
+}
+
+/**
+ * Reads the body while counting the bytes, since the Content-Length header may be missing
+ * (chunked requests) or wrong
+ * @returns null when the body is larger than `maxBodySize`
+ */
+async function readBody(request: Request, maxBodySize: number): Promise<Blob | null> {
+  if (!request.body) {
+    return new Blob([]);
+  }
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxBodySize) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return new Blob(chunks);
+}
+
+/**
+ * Searches the tracker for the `q` parameter; only the public fields of the results are returned
+ */
+async function handleSearchRequest(
+  request: Request,
+  options: FeedbackHandlerOptions,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  if (!options.adapter.searchIssues) {
+    return jsonResponse(501, { error: 'The adapter cannot search issues', code: 'unknown' }, corsHeaders);
+  }
+
+  const query = (new URL(request.url).searchParams.get('q') || '').trim();
+  if (!query) {
+    return jsonResponse(400, { error: 'Query is required', code: 'validation' }, corsHeaders);
+  }
+  if (query.length > MAX_QUERY_LENGTH) {
+    return jsonResponse(400, { error: 'Query is too long', code: 'validation' }, corsHeaders);
+  }
+
+  try {
+    const results = await options.adapter.searchIssues(query);
+    return jsonResponse(200, results.map(({ id, url, title, state }): IssueSearchResult => ({ id, url, title, state })), corsHeaders);
+  } catch (error) {
+    console.error('[issue-reporter] Error searching issues:', error);
+    return trackerErrorResponse(error, corsHeaders);
+  }
+}
+
+/**
+ * Handles a feedback submission using the Fetch API Request/Response
+ * Usable directly in fetch-based runtimes and frameworks; with `allowSearch`, GET requests search issues
+ * Reports with an `issueId` field are added as comments to that issue
+ */
+export async function handleFeedbackRequest(
+  request: Request,
+  options: FeedbackHandlerOptions
+): Promise<Response> {
+  const corsHeaders = getCorsHeaders(request, options);
+
+  if (request.method === 'OPTIONS') {
+    return jsonResponse(204, null, corsHeaders);
+  }
+
+  const isSearch = request.method === 'GET' && !!options.allowSearch;
+  if (request.method !== 'POST' && !isSearch) {
+    return jsonResponse(405, { error: 'Method not allowed' }, { ...corsHeaders, 'Allow': getAllowedMethods(options) });
+  }
+
+  if (options.authorize) {
+    let authorized: boolean;
+    try {
+      authorized = await options.authorize(request);
+    } catch (error) {
+      console.error('[issue-reporter] Error authorizing feedback request:', error);
+      return jsonResponse(500, { error: 'Internal server error', code: 'unknown' }, corsHeaders);
+    }
+    if (!authorized) {
+      return jsonResponse(401, { error: 'Unauthorized', code: 'authentication' }, corsHeaders);
+    }
+  }
+
+  if (isSearch) {
+    return handleSearchRequest(request, options, corsHeaders);
+  }
+
+  const payloadTooLarge = () => jsonResponse(413, { error: 'Payload too large', code: 'payload-too-large' }, corsHeaders);
+  const maxBodySize = options.maxBodySize || DEFAULT_MAX_BODY_SIZE;
+  const contentLength = Number(request.headers.get('Content-Length') || 0);
+  if (contentLength > maxBodySize) {
+    return payloadTooLarge();
+  }
+
+  const contentType = request.headers.get('Content-Type') || '';
+  if (!contentType.includes('multipart/form-data')) {
+    return jsonResponse(415, { error: 'Expected multipart/form-data' }, corsHeaders);
+  }
+
+  let feedback: FeedbackData;
+  let issueId: string | null;
+  try {
+    const body = await readBody(request, maxBodySize);
+    if (!body) {
+      return payloadTooLarge();
+    }
+    const formData = await new Response(body, { headers: { 'Content-Type': contentType } }).formData();
+    feedback = parseFeedback(formData, options);
+    issueId = parseIssueId(formData);
+  } catch (error) {
+    const message = error instanceof ValidationError ? error.message : 'Malformed form data';
+    return jsonResponse(400, { error: message, code: 'validation' }, corsHeaders);
+  }
+
+  if (issueId !== null) {
+    return handleCommentRequest(issueId, feedback, options, corsHeaders);
+  }
+
+  try {
+    const issue = await options.adapter.createIssue(feedback);
+
+    if (!issue) {
+      return jsonResponse(502, { error: 'Failed to create issue', code: 'unknown' }, corsHeaders);
+    }
+
+    return jsonResponse(201, issue, corsHeaders);
+  } catch (error) {
+    console.error('[issue-reporter] Error forwarding feedback:', error);
+    return trackerErrorResponse(error, corsHeaders);
+  }
+}
+
+/**
+ * Creates a Node.js request handler for Express, Fastify (raw request/reply) or plain http
+ */
+export function createFeedbackHandler(options: FeedbackHandlerOptions) {
+  const maxBodySize = options.maxBodySize || DEFAULT_MAX_BODY_SIZE;
+
+  return async function feedbackHandler(req: NodeRequest, res: NodeResponse): Promise<void> {
+    // A broken request stream must not reject: Express 4 would not handle it
+    try {
+      const headers = new Headers();
+      Object.entries(req.headers).forEach(([name, value]) => {
+        if (Array.isArray(value)) {
+          value.forEach((v) => headers.append(name, v));
+        } else if (value !== undefined) {
+          headers.set(name, value);
+        }
+      });
+
+      const method = (req.method || 'GET').toUpperCase();
+      let body: Blob | undefined;
+
+      if (method !== 'GET' && method !== 'HEAD') {
+        // Buffer the body while enforcing the size limit
+        const chunks: Uint8Array<ArrayBuffer>[] = [];
+        let size = 0;
+        for await (const chunk of req) {
+          size += chunk.length;
+          if (size > maxBodySize) {
+            res.statusCode = 413;
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({ error: 'Payload too large', code: 'payload-too-large' }));
+            return;
+          }
+          chunks.push(chunk);
+        }
+        body = new Blob(chunks);
+      }
+
+      const request = new Request(`http://${headers.get('host') || 'localhost'}${req.url || '/'}`, {
+        method,
+        headers,
+        body,
+      });
+
+      const response = await handleFeedbackRequest(request, options);
+
+      res.statusCode = response.status;
+      response.headers.forEach((value, name) => {
+        res.setHeader(name, value);
+      });
+      res.end(await response.text());
+    } catch (error) {
+      console.error('[issue-reporter] Error handling feedback request:', error);
+      if (res.headersSent) return;
+      res.statusCode = 500;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ error: 'Internal server error', code: 'unknown' }));
+    }
+  };
+}
@@ -0,0 +1,26 @@
+// Request handlers
+export { createFeedbackHandler, handleFeedbackRequest } from './handler';
+export type { FeedbackHandlerOptions, NodeRequest, NodeResponse } from './handler';
+
+// Adapters (re-exported so the server never loads browser-only modules)
+export { GitLabAdapter, GitHubAdapter, JiraAdapter } from '../adapters';
+export type { GitLabConfig, GitHubConfig, JiraConfig } from '../adapters';
+
+// Issue body templates
+export { renderTemplate, buildTemplateValues, formatHeading, formatTable, DEFAULT_TEMPLATE } from '../core/template';
+export type { IssueTemplate, TemplateFormat, TemplateValues } from '../core/template';
+
+// Errors
+export {
+  IssueReporterError,
+  AuthenticationError,
+  PermissionDeniedError,
+  RateLimitError,
+  ValidationError,
+  PayloadTooLargeError,
+  NetworkError,
+} from '../core/errors';
+
+// Types
+export type { FeedbackData, FieldMapper, IssueResponse, IssueSearchResult, CommentResponse, IssueTrackerAdapter } from '../types';
+export type { FieldValue } from '../core/fields';
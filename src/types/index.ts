@@ -1,3 +1,13 @@
+import type { SubmissionQueue } from '../core/queue';
+import type { ConsoleLogEntry, ConsoleRecorderOptions } from '../core/console';
+import type { NetworkEntry, NetworkRecorderOptions } from '../core/network';
+import type { SessionRecording, SessionRecorderOptions } from '../core/replay';
+import type { PrivacyOptions } from '../core/privacy';
+import type { ScreenshotEngineOption } from '../core/screenshotEngines';
+import type { ScreenRecorderOptions } from '../core/video';
+import type { AttachmentOptions } from '../core/attachments';
+import type { FieldDefinition, FieldValue } from '../core/fields';
+
 /**
  * Configuration for issue tracker adapters
  */
@@ -7,6 +17,28 @@ export interface IssueTrackerConfig {
   accessToken: string;
 }
 
+/**
+ * A file attached to a report
+ */
+export interface FeedbackAttachment {
+  filename: string;
+  /**
+   * MIME type, e.g. `image/png`
+   */
+  type: string;
+  data: Blob;
+}
+
+/**
+ * Who filed a report, e.g. the signed-in user
+ */
+export interface ReporterInfo {
+  id?: string | number;
+  name?: string;
+  email?: string;
+  [key: string]: string | number | undefined;
+}
+
 /**
  * Feedback data structure
  */
@@ -16,8 +48,33 @@ export interface FeedbackData {
   screenshot?: Blob;
   metadata?: Record<string, unknown>;
   labels?: string[];
+  logs?: ConsoleLogEntry[];
+  networkRequests?: NetworkEntry[];
+  sessionRecording?: SessionRecording;
+  /**
+   * Screen recording (WebM)
+   */
+  video?: Blob;
+  /**
+   * Additional files: screenshots, logs or anything else the user attached
+   */
+  attachments?: FeedbackAttachment[];
+  /**
+   * Values of custom form fields, keyed by field name
+   */
+  fields?: Record<string, FieldValue>;
+  /**
+   * Labels of the custom form fields, keyed by field name; shown instead of the names in the issue
+   */
+  fieldLabels?: Record<string, string>;
+  reporter?: ReporterInfo;
 }
 
+/**
+ * Maps custom field values to tracker-specific properties of the create-issue request
+ */
+export type FieldMapper = (fields: Record<string, FieldValue>, feedback: FeedbackData) => Record<string, unknown>;
+
 /**
  * Issue response from tracker
  */
@@ -27,12 +84,40 @@ export interface IssueResponse {
   title: string;
 }
 
+/**
+ * Existing issue found by a search
+ */
+export interface IssueSearchResult extends IssueResponse {
+  state?: 'open' | 'closed';
+}
+
+/**
+ * Comment added to an existing issue
+ */
+export interface CommentResponse {
+  id: string | number;
+  /**
+   * Link to the comment, if the tracker returns one
+   */
+  url?: string;
+}
+
 /**
  * Issue tracker adapter interface
+ * Implementations throw an IssueReporterError (see core/errors) when submission fails
  */
 export interface IssueTrackerAdapter {
   createIssue(feedback: FeedbackData): Promise<IssueResponse | null>;
   uploadScreenshot?(screenshot: Blob): Promise<string | null>;
+  uploadAttachment?(file: Blob, filename: string): Promise<string | null>;
+  /**
+   * Finds existing issues whose title matches the query, e.g. to detect duplicates
+   */
+  searchIssues?(query: string): Promise<IssueSearchResult[]>;
+  /**
+   * Adds the feedback (description, screenshot, metadata, ...) as a comment to an existing issue
+   */
+  addComment?(issueId: string | number, feedback: FeedbackData): Promise<CommentResponse | null>;
 }
 
 /**
@@ -78,6 +163,7 @@ export interface ModalStyles {
  */
 export interface TextLabels {
   buttonText?: string;
+  buttonAriaLabel?: string;
   modalTitle?: string;
   titleLabel?: string;
   titlePlaceholder?: string;
@@ -85,15 +171,60 @@ export interface TextLabels {
   descriptionPlaceholder?: string;
   screenshotLabel?: string;
   screenshotHint?: string;
+  screenshotPreviewAlt?: string;
   includeScreenshotLabel?: string;
   includeMetadataLabel?: string;
+  includeMetadataHint?: string;
+  includeLogsLabel?: string;
+  includeNetworkLabel?: string;
+  includeSessionLabel?: string;
   labelsLabel?: string;
+  duplicatesLabel?: string;
+  addToIssueButtonText?: string;
+  addingToIssueButtonText?: string;
+  commentAddedMessage?: string;
+  issueCreatedMessage?: string;
+  viewIssueLinkText?: string;
+  addDetailsButtonText?: string;
+  addingDetailsLabel?: string;
+  addCommentButtonText?: string;
+  closeButtonText?: string;
+  errorFallbackMessage?: string;
+  reportErrorButtonText?: string;
+  retryButtonText?: string;
   editButtonText?: string;
   removeButtonText?: string;
+  selectAreaButtonText?: string;
+  selectAreaHint?: string;
+  recordVideoButtonText?: string;
+  stopRecordingButtonText?: string;
+  recordingLabel?: string;
+  includeVideoLabel?: string;
+  attachmentsLabel?: string;
+  attachmentsHint?: string;
+  errorFileTooLarge?: string;
+  errorTooManyFiles?: string;
+  errorFileType?: string;
+  fieldRequiredMessage?: string;
+  fieldEmailMessage?: string;
+  fieldMinLengthMessage?: string;
+  fieldMaxLengthMessage?: string;
+  fieldPatternMessage?: string;
+  errorRequiredFields?: string;
+  errorDescriptionRequired?: string;
   cancelButtonText?: string;
   submitButtonText?: string;
   submittingButtonText?: string;
   capturingButtonText?: string;
+  errorAuthentication?: string;
+  errorPermission?: string;
+  errorRateLimited?: string;
+  errorValidation?: string;
+  errorPayloadTooLarge?: string;
+  errorNetwork?: string;
+  errorGeneric?: string;
+  queuedMessage?: string;
+  pendingBadgeLabel?: string;
 }
 
 /**
@@ -108,4 +239,49 @@ export interface FeedbackReporterConfig {
   buttonStyles?: ButtonStyles;
   modalStyles?: ModalStyles;
   textLabels?: TextLabels;
+  /**
+   * Offline queue; failed or offline submissions are stored and retried
+   */
+  queue?: SubmissionQueue;
+  /**
+   * Records console output and uncaught errors and attaches them to reports
+   */
+  captureConsole?: boolean | ConsoleRecorderOptions;
+  /**
+   * Records fetch/XHR requests and attaches them as a HAR file
+   */
+  captureNetwork?: boolean | NetworkRecorderOptions;
+  /**
+   * Records a replay of the last seconds of interaction and attaches it as JSON
+   */
+  captureSession?: boolean | SessionRecorderOptions;
+  /**
+   * Masking rules for screenshots and redaction rules for metadata URLs
+   */
+  privacy?: PrivacyOptions;
+  /**
+   * Screenshot engine(s) to try in order: 'dom' (default), 'display-media' or a custom engine.
+   * The DOM engine is always used as the last fallback.
+   */
+  screenshotEngine?: ScreenshotEngineOption | ScreenshotEngineOption[];
+  /**
+   * Shows a "Record video" option in the modal that records the screen and attaches the clip
+   */
+  recordVideo?: boolean | ScreenRecorderOptions;
+  /**
+   * Limits for files attached in the modal via the file picker, drag and drop or paste
+   */
+  attachments?: AttachmentOptions;
+  /**
+   * Who is reporting, added to every report (e.g. the signed-in user)
+   */
+  reporter?: ReporterInfo;
+  /**
+   * Additional form fields shown below the description, submitted in `FeedbackData.fields`
+   */
+  fields?: FieldDefinition[];
+  /**
+   * Searches for similar issues while the title is typed, if the adapter supports it (default: true)
+   */
+  detectDuplicates?: boolean;
 }
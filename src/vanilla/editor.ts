@@ -0,0 +1,823 @@
+import {
+  Annotation,
+  AnnotationType,
+  EditorHistory,
+  EditorState,
+  HandleName,
+  Point,
+  Rect,
+  StrokePoint,
+  createAnnotationId,
+  getTextFont,
+  hitHandle,
+  hitTest,
+  isMeaningful,
+  moveAnnotation,
+  rectFromPoints,
+  renderAnnotations,
+  resizeAnnotation,
+} from '../core/annotations';
+
+export interface ScreenshotEditorOptions {
+  onSave: (editedScreenshot: Blob) => void;
+  onCancel: () => void;
+}
+
+export interface ScreenshotEditorInstance {
+  destroy(): void;
+}
+
+type DrawingTool = 'select' | 'crop' | AnnotationType;
+type DrawingColor = 'red' | 'blue' | 'green' | 'yellow' | 'black';
+
+type Interaction =
+  | { mode: 'draw'; start: Point }
+  | { mode: 'crop'; start: Point }
+  | { mode: 'move'; start: Point; original: Annotation }
+  | { mode: 'resize'; handle: HandleName; original: Annotation };
+
+interface ViewTransform {
+  zoom: number;
+  panX: number;
+  panY: number;
+}
+
+interface PinchGesture {
+  distance: number;
+  midpoint: Point;
+  view: ViewTransform;
+  // Client position of the canvas without the view transform
+  origin: Point;
+}
+
+interface TextEdit {
+  id: string;
+  position: Point;
+  text: string;
+  fontSize: number;
+  color: string;
+  element: HTMLTextAreaElement;
+}
+
+const LINE_WIDTH = 3;
+const HIGHLIGHT_WIDTH = 24;
+const FONT_SIZES = [16, 24, 32, 48, 64];
+const MIN_CROP_SIZE = 10;
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 5;
+const COMPACT_QUERY = '(max-width: 600px)';
+
+const COLORS: Record<DrawingColor, string> = {
+  red: '#FF0000',
+  blue: '#0000FF',
+  green: '#00FF00',
+  yellow: '#FFFF00',
+  black: '#000000',
+};
+
+const TOOL_BUTTONS: { tool: DrawingTool; label: string; icon: string }[] = [
+  { tool: 'select', label: 'Auswählen', icon: '🖱️' },
+  { tool: 'arrow', label: 'Pfeil', icon: '➡️' },
+  { tool: 'rectangle', label: 'Rechteck', icon: '⬜' },
+  { tool: 'circle', label: 'Kreis', icon: '⭕' },
+  { tool: 'pen', label: 'Stift', icon: '✏️' },
+  { tool: 'highlight', label: 'Marker', icon: '🖍️' },
+  { tool: 'text', label: 'Text', icon: '🔤' },
+  { tool: 'step', label: 'Schritt', icon: '①' },
+  { tool: 'pixelate', label: 'Verpixeln', icon: '▦' },
+  { tool: 'crop', label: 'Zuschneiden', icon: '✂️' },
+];
+
+const ACTION_BUTTON_STYLE = `
+  padding: 10px 20px;
+  border: none;
+  border-radius: 6px;
+  cursor: pointer;
+  font-size: 14px;
+  font-weight: 600;
+`;
+
+function createButton(content: string, style: string, onClick: () => void): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.textContent = content;
+  button.style.cssText = style;
+  button.addEventListener('click', onClick);
+  return button;
+}
+
+function createSeparator(): HTMLElement {
+  const separator = document.createElement('div');
+  separator.style.cssText = 'width: 1px; height: 32px; background-color: #ddd;';
+  return separator;
+}
+
+/**
+ * Mounts the screenshot editor, a framework-free port of the React ScreenshotEditor
+ * Annotations stay editable objects until they are flattened on save
+ */
+export function createScreenshotEditor(
+  container: HTMLElement,
+  screenshot: Blob,
+  options: ScreenshotEditorOptions
+): ScreenshotEditorInstance {
+  const history = new EditorHistory<EditorState>({ annotations: [], crop: null });
+  let editorState = history.current;
+  let interaction: Interaction | null = null;
+  // Active touch pointers, used to detect pinch and two-finger pan
+  const pointers = new Map<number, Point>();
+  let gesture: PinchGesture | null = null;
+  let image: HTMLImageElement | null = null;
+  let tool: DrawingTool = 'arrow';
+  let color: DrawingColor = 'red';
+  let fontSize = 32;
+  // Annotation being drawn, moved or resized; replaces its committed version while dragging
+  let draft: Annotation | null = null;
+  let cropDraft: Rect | null = null;
+  let selectedId: string | null = null;
+  let textEdit: TextEdit | null = null;
+  let view: ViewTransform = { zoom: 1, panX: 0, panY: 0 };
+  const compactQuery = window.matchMedia ? window.matchMedia(COMPACT_QUERY) : null;
+  let isCompact = !!compactQuery?.matches;
+
+  // Layout
+  const wrapper = document.createElement('div');
+  wrapper.style.cssText = 'display: flex; flex-direction: column; height: 100%;';
+
+  const toolbar = document.createElement('div');
+
+  const stage = document.createElement('div');
+  stage.style.cssText = `
+    flex: 1;
+    position: relative;
+    overflow: hidden;
+    background-color: #e0e0e0;
+    display: flex;
+    align-items: center;
+    justify-content: center;
+  `;
+
+  const canvas = document.createElement('canvas');
+  canvas.style.cssText = `
+    max-width: 100%;
+    max-height: 100%;
+    box-shadow: 0 2px 8px rgba(0,0,0,0.2);
+    touch-action: none;
+    transform-origin: 0 0;
+  `;
+  const ctx = canvas.getContext('2d');
+
+  const resetViewButton = createButton('', `
+    position: absolute;
+    right: 12px;
+    bottom: 12px;
+    padding: 8px 12px;
+    background-color: white;
+    border: 1px solid #ddd;
+    border-radius: 6px;
+    cursor: pointer;
+    font-size: 14px;
+    box-shadow: 0 2px 8px rgba(0,0,0,0.2);
+  `, () => {
+    view = { zoom: 1, panX: 0, panY: 0 };
+    applyView();
+  });
+  resetViewButton.title = 'Ansicht zurücksetzen';
+
+  const actions = document.createElement('div');
+  actions.style.cssText = `
+    padding: 12px;
+    background-color: #f5f5f5;
+    border-top: 1px solid #ddd;
+    display: flex;
+    justify-content: flex-end;
+    gap: 10px;
+  `;
+  actions.appendChild(createButton('Abbrechen', `${ACTION_BUTTON_STYLE} background-color: #f0f0f0; color: #333;`, () => options.onCancel()));
+  actions.appendChild(createButton('Speichern', `${ACTION_BUTTON_STYLE} background-color: #4CAF50; color: white;`, save));
+
+  stage.appendChild(canvas);
+  stage.appendChild(resetViewButton);
+  wrapper.appendChild(toolbar);
+  wrapper.appendChild(stage);
+  wrapper.appendChild(actions);
+  container.appendChild(wrapper);
+
+  // Load screenshot onto canvas
+  const url = URL.createObjectURL(screenshot);
+  const img = new Image();
+  img.onload = () => {
+    canvas.width = img.width;
+    canvas.height = img.height;
+    image = img;
+    URL.revokeObjectURL(url);
+    redraw();
+  };
+  img.src = url;
+
+  function getScale(): number {
+    const rect = canvas.getBoundingClientRect();
+    return rect.width ? canvas.width / rect.width : 1;
+  }
+
+  function getVisibleAnnotations(): Annotation[] {
+    const { annotations } = editorState;
+    // The text being edited is shown in the overlay instead
+    const visible = textEdit ? annotations.filter((a) => a.id !== textEdit!.id) : annotations;
+    if (!draft) return visible;
+    const current = draft;
+    return visible.some((a) => a.id === current.id)
+      ? visible.map((a) => (a.id === current.id ? current : a))
+      : [...visible, current];
+  }
+
+  function redraw() {
+    if (!ctx || !image) return;
+    renderAnnotations(ctx, image, getVisibleAnnotations(), {
+      selectedId,
+      handleSize: 10 * getScale(),
+      crop: cropDraft || editorState.crop,
+    });
+  }
+
+  /**
+   * Rebuilds the toolbar; on narrow viewports it scrolls horizontally and shows icons only
+   */
+  function renderToolbar() {
+    toolbar.style.cssText = `
+      padding: ${isCompact ? '8px' : '12px'};
+      background-color: #f5f5f5;
+      border-bottom: 1px solid #ddd;
+      display: flex;
+      gap: ${isCompact ? '8px' : '12px'};
+      align-items: center;
+      flex-wrap: ${isCompact ? 'nowrap' : 'wrap'};
+      overflow-x: ${isCompact ? 'auto' : 'visible'};
+    `;
+    toolbar.innerHTML = '';
+
+    const tools = document.createElement('div');
+    tools.style.cssText = `display: flex; gap: 8px; flex-wrap: ${isCompact ? 'nowrap' : 'wrap'}; flex-shrink: 0;`;
+    TOOL_BUTTONS.forEach((t) => {
+      const button = createButton(isCompact ? t.icon : `${t.icon} ${t.label}`, `
+        padding: ${isCompact ? '0' : '8px 12px'};
+        ${isCompact ? 'min-width: 40px; min-height: 40px;' : ''}
+        background-color: ${tool === t.tool ? '#4CAF50' : 'white'};
+        color: ${tool === t.tool ? 'white' : 'black'};
+        border: 1px solid #ddd;
+        border-radius: 6px;
+        cursor: pointer;
+        font-size: ${isCompact ? '18px' : '14px'};
+      `, () => {
+        tool = t.tool;
+        canvas.style.cursor = tool === 'select' ? 'default' : tool === 'text' ? 'text' : 'crosshair';
+        renderToolbar();
+      });
+      button.title = t.label;
+      button.setAttribute('aria-label', t.label);
+      tools.appendChild(button);
+    });
+    toolbar.appendChild(tools);
+
+    if (!isCompact) toolbar.appendChild(createSeparator());
+
+    const colors = document.createElement('div');
+    colors.style.cssText = 'display: flex; gap: 8px; align-items: center; flex-shrink: 0;';
+    if (!isCompact) {
+      const colorLabel = document.createElement('span');
+      colorLabel.style.cssText = 'font-size: 14px; font-weight: 600;';
+      colorLabel.textContent = 'Farbe:';
+      colors.appendChild(colorLabel);
+    }
+    (Object.keys(COLORS) as DrawingColor[]).forEach((c) => {
+      const size = isCompact ? '28px' : '32px';
+      const button = createButton('', `
+        width: ${size};
+        height: ${size};
+        flex-shrink: 0;
+        background-color: ${COLORS[c]};
+        border: ${color === c ? '3px solid #333' : '1px solid #ddd'};
+        border-radius: 50%;
+        cursor: pointer;
+      `, () => {
+        color = c;
+        renderToolbar();
+      });
+      button.title = c;
+      button.setAttribute('aria-label', c);
+      colors.appendChild(button);
+    });
+    toolbar.appendChild(colors);
+
+    const selectedAnnotation = editorState.annotations.find((a) => a.id === selectedId);
+    if (tool === 'text' || selectedAnnotation?.type === 'text') {
+      const label = document.createElement('label');
+      label.style.cssText = 'display: flex; gap: 8px; align-items: center; flex-shrink: 0;';
+      if (!isCompact) {
+        const text = document.createElement('span');
+        text.style.cssText = 'font-size: 14px; font-weight: 600;';
+        text.textContent = 'Schriftgröße:';
+        label.appendChild(text);
+      }
+      const select = document.createElement('select');
+      select.style.cssText = 'padding: 6px; border: 1px solid #ddd; border-radius: 6px; font-size: 14px;';
+      const current = selectedAnnotation?.type === 'text' ? selectedAnnotation.fontSize : fontSize;
+      FONT_SIZES.forEach((size) => {
+        const option = document.createElement('option');
+        option.value = String(size);
+        option.textContent = `${size}px`;
+        option.selected = size === current;
+        select.appendChild(option);
+      });
+      select.addEventListener('change', () => setFontSize(Number(select.value)));
+      label.appendChild(select);
+      toolbar.appendChild(label);
+    }
+
+    if (!isCompact) toolbar.appendChild(createSeparator());
+
+    const historyActions = document.createElement('div');
+    historyActions.style.cssText = 'display: flex; gap: 8px; flex-shrink: 0;';
+    [
+      { label: 'Rückgängig', icon: '↶', shortcut: 'Strg+Z', onClick: undo, disabled: !history.canUndo },
+      { label: 'Wiederholen', icon: '↷', shortcut: 'Strg+Umschalt+Z', onClick: redo, disabled: !history.canRedo },
+      { label: 'Löschen', icon: '🗑️', shortcut: 'Entf', onClick: deleteSelected, disabled: !selectedId },
+    ].forEach((action) => {
+      const button = createButton(isCompact ? action.icon : `${action.icon} ${action.label}`, `
+        padding: ${isCompact ? '0' : '8px 12px'};
+        ${isCompact ? 'min-width: 40px; min-height: 40px;' : ''}
+        background-color: white;
+        color: black;
+        border: 1px solid #ddd;
+        border-radius: 6px;
+        cursor: ${action.disabled ? 'not-allowed' : 'pointer'};
+        opacity: ${action.disabled ? 0.5 : 1};
+        font-size: 14px;
+      `, action.onClick);
+      button.disabled = action.disabled;
+      button.title = `${action.label} (${action.shortcut})`;
+      button.setAttribute('aria-label', action.label);
+      historyActions.appendChild(button);
+    });
+    toolbar.appendChild(historyActions);
+
+    stage.style.padding = isCompact ? '8px' : '20px';
+  }
+
+  function applyView() {
+    canvas.style.transform = `translate(${view.panX}px, ${view.panY}px) scale(${view.zoom})`;
+    resetViewButton.textContent = `${Math.round(view.zoom * 100)}% ✕`;
+    resetViewButton.style.display = view.zoom !== 1 ? 'block' : 'none';
+  }
+
+  /**
+   * Re-renders the canvas and the toolbar after a state change
+   */
+  function update() {
+    redraw();
+    renderToolbar();
+  }
+
+  function commit(next: Partial<EditorState>) {
+    editorState = history.push({ ...history.current, ...next });
+    update();
+  }
+
+  function select(id: string | null) {
+    selectedId = id;
+    update();
+  }
+
+  function undo() {
+    editorState = history.undo();
+    select(null);
+  }
+
+  function redo() {
+    editorState = history.redo();
+    select(null);
+  }
+
+  function deleteSelected() {
+    if (!selectedId) return;
+    const id = selectedId;
+    selectedId = null;
+    commit({ annotations: editorState.annotations.filter((a) => a.id !== id) });
+  }
+
+  function setFontSize(size: number) {
+    fontSize = size;
+    const selected = editorState.annotations.find((a) => a.id === selectedId);
+    if (selected && selected.type === 'text') {
+      commit({ annotations: editorState.annotations.map((a) => (a.id === selected.id ? { ...selected, fontSize: size } : a)) });
+    }
+  }
+
+  // Keyboard shortcuts: Ctrl+Z, Ctrl+Shift+Z / Ctrl+Y, Delete
+  function handleKeyDown(e: KeyboardEvent) {
+    const target = e.target as HTMLElement | null;
+    if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+      return;
+    }
+
+    const modifier = e.ctrlKey || e.metaKey;
+    if (modifier && e.key.toLowerCase() === 'z') {
+      e.preventDefault();
+      if (e.shiftKey) redo();
+      else undo();
+    } else if (modifier && e.key.toLowerCase() === 'y') {
+      e.preventDefault();
+      redo();
+    } else if ((e.key === 'Delete' || e.key === 'Backspace') && selectedId) {
+      e.preventDefault();
+      deleteSelected();
+    } else if (e.key === 'Escape' && selectedId) {
+      select(null);
+    }
+  }
+
+  function handleCompactChange() {
+    isCompact = !!compactQuery?.matches;
+    renderToolbar();
+  }
+
+  function getMousePos(e: { clientX: number; clientY: number }): Point {
+    const rect = canvas.getBoundingClientRect();
+    const scaleX = canvas.width / rect.width;
+    const scaleY = canvas.height / rect.height;
+
+    return {
+      x: (e.clientX - rect.left) * scaleX,
+      y: (e.clientY - rect.top) * scaleY,
+    };
+  }
+
+  /**
+   * Creates the annotation for a drag from start to point with the current tool
+   */
+  function createShape(type: Exclude<AnnotationType, 'text' | 'step'>, id: string, start: Point, point: Point): Annotation {
+    const base = { id, color: COLORS[color], lineWidth: LINE_WIDTH };
+    switch (type) {
+      case 'arrow':
+        return { ...base, type, from: start, to: point };
+      case 'rectangle':
+        return { ...base, type, rect: { x: start.x, y: start.y, width: point.x - start.x, height: point.y - start.y } };
+      case 'circle':
+        return { ...base, type, center: start, radius: Math.hypot(point.x - start.x, point.y - start.y) };
+      case 'pen':
+        return { ...base, type, points: [start, point] };
+      case 'highlight':
+        return { ...base, type, lineWidth: HIGHLIGHT_WIDTH, points: [start, point] };
+      case 'pixelate': {
+        // Blocks scale with the screenshot so text stays unreadable
+        const blockSize = Math.max(8, Math.round(canvas.width / 150));
+        return { ...base, type, blockSize, rect: { x: start.x, y: start.y, width: point.x - start.x, height: point.y - start.y } };
+      }
+    }
+  }
+
+  /**
+   * Opens a text input over the canvas for a new or existing text annotation
+   */
+  function startTextEdit(position: Point, existing?: Annotation) {
+    const element = document.createElement('textarea');
+    textEdit = existing && existing.type === 'text'
+      ? {
+        id: existing.id,
+        position: existing.position,
+        text: existing.text,
+        fontSize: existing.fontSize,
+        color: existing.color,
+        element,
+      }
+      : { id: createAnnotationId(), position, text: '', fontSize, color: COLORS[color], element };
+
+    const rect = canvas.getBoundingClientRect();
+    const scale = getScale();
+    element.value = textEdit.text;
+    element.rows = Math.max(1, textEdit.text.split('\n').length);
+    element.style.cssText = `
+      position: fixed;
+      left: ${rect.left + textEdit.position.x / scale}px;
+      top: ${rect.top + textEdit.position.y / scale}px;
+      min-width: 120px;
+      line-height: 1.25;
+      color: ${textEdit.color};
+      background: rgba(255, 255, 255, 0.8);
+      border: 1px dashed #2196F3;
+      padding: 0;
+      margin: 0;
+      resize: both;
+      outline: none;
+      z-index: 10001;
+    `;
+    element.style.font = getTextFont(textEdit.fontSize / scale);
+
+    element.addEventListener('input', () => {
+      if (!textEdit) return;
+      textEdit.text = element.value;
+      element.rows = Math.max(1, element.value.split('\n').length);
+    });
+    element.addEventListener('blur', finishTextEdit);
+    element.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter' && !e.shiftKey) {
+        e.preventDefault();
+        finishTextEdit();
+      } else if (e.key === 'Escape') {
+        e.stopPropagation();
+        cancelTextEdit();
+      }
+    });
+
+    stage.appendChild(element);
+    selectedId = null;
+    update();
+    element.focus();
+  }
+
+  function closeTextEdit(): TextEdit | null {
+    const edit = textEdit;
+    textEdit = null;
+    // Removing a focused element fires blur, which must not finish the edit again
+    edit?.element.remove();
+    return edit;
+  }
+
+  function cancelTextEdit() {
+    closeTextEdit();
+    update();
+  }
+
+  function finishTextEdit() {
+    const edit = closeTextEdit();
+    if (!edit) return;
+
+    const { annotations } = editorState;
+    const annotation: Annotation = {
+      id: edit.id,
+      type: 'text',
+      color: edit.color,
+      lineWidth: LINE_WIDTH,
+      position: edit.position,
+      text: edit.text,
+      fontSize: edit.fontSize,
+    };
+    const exists = annotations.some((a) => a.id === annotation.id);
+
+    if (!isMeaningful(annotation)) {
+      // Emptying an existing text removes it
+      if (exists) commit({ annotations: annotations.filter((a) => a.id !== annotation.id) });
+      else update();
+    } else if (exists) {
+      commit({ annotations: annotations.map((a) => (a.id === annotation.id ? annotation : a)) });
+    } else {
+      commit({ annotations: [...annotations, annotation] });
+    }
+  }
+
+  function startPinch() {
+    const [a, b] = Array.from(pointers.values());
+    if (!a || !b) return;
+
+    const rect = canvas.getBoundingClientRect();
+    gesture = {
+      distance: Math.hypot(b.x - a.x, b.y - a.y) || 1,
+      midpoint: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+      view,
+      origin: { x: rect.left - view.panX, y: rect.top - view.panY },
+    };
+  }
+
+  function updatePinch() {
+    const [a, b] = Array.from(pointers.values());
+    if (!gesture || !a || !b) return;
+
+    const distance = Math.hypot(b.x - a.x, b.y - a.y);
+    const midpoint = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, gesture.view.zoom * (distance / gesture.distance)));
+    const ratio = zoom / gesture.view.zoom;
+
+    // Keep the point under the fingers in place while zooming, and follow the midpoint to pan
+    view = {
+      zoom,
+      panX: midpoint.x - gesture.origin.x - ratio * (gesture.midpoint.x - gesture.origin.x - gesture.view.panX),
+      panY: midpoint.y - gesture.origin.y - ratio * (gesture.midpoint.y - gesture.origin.y - gesture.view.panY),
+    };
+    applyView();
+  }
+
+  function handlePointerDown(e: PointerEvent) {
+    if (!ctx || !image) return;
+
+    if (e.pointerType === 'touch') {
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (pointers.size === 2) {
+        // A second finger turns the gesture into zoom/pan and drops the stroke
+        interaction = null;
+        draft = null;
+        cropDraft = null;
+        redraw();
+        startPinch();
+        return;
+      }
+      if (pointers.size > 2) return;
+    } else if (e.button !== 0) {
+      return;
+    }
+
+    canvas.setPointerCapture(e.pointerId);
+
+    // The first click outside an open text input only closes it
+    if (textEdit) {
+      e.preventDefault();
+      finishTextEdit();
+      return;
+    }
+
+    const { annotations } = editorState;
+    const point = getMousePos(e);
+    const handleSize = 10 * getScale();
+
+    switch (tool) {
+      case 'select': {
+        const selected = annotations.find((a) => a.id === selectedId);
+        const handle = selected ? hitHandle(selected, point, handleSize) : null;
+        if (selected && handle) {
+          interaction = { mode: 'resize', handle, original: selected };
+          return;
+        }
+
+        const hit = hitTest(annotations, point, handleSize / 2);
+        if (hit) {
+          interaction = { mode: 'move', start: point, original: hit };
+        }
+        select(hit ? hit.id : null);
+        return;
+      }
+      case 'text': {
+        const hit = hitTest(annotations.filter((a) => a.type === 'text'), point, handleSize / 2);
+        startTextEdit(point, hit || undefined);
+        return;
+      }
+      case 'step': {
+        const radius = Math.max(16, Math.round(canvas.width / 60));
+        commit({
+          annotations: [
+            ...annotations,
+            { id: createAnnotationId(), type: 'step', color: COLORS[color], lineWidth: LINE_WIDTH, center: point, radius },
+          ],
+        });
+        return;
+      }
+      case 'crop':
+        interaction = { mode: 'crop', start: point };
+        cropDraft = rectFromPoints(point, point);
+        select(null);
+        return;
+      default: {
+        interaction = { mode: 'draw', start: point };
+        const start: StrokePoint = e.pointerType === 'pen' ? { ...point, pressure: e.pressure } : point;
+        draft = createShape(tool, createAnnotationId(), start, start);
+        select(null);
+      }
+    }
+  }
+
+  function handleDoubleClick(e: MouseEvent) {
+    if (tool !== 'select') return;
+    const point = getMousePos(e);
+    const hit = hitTest(editorState.annotations, point, 5 * getScale());
+    if (hit && hit.type === 'text') {
+      startTextEdit(point, hit);
+    }
+  }
+
+  function handlePointerMove(e: PointerEvent) {
+    if (pointers.has(e.pointerId)) {
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    }
+    if (gesture) {
+      updatePinch();
+      return;
+    }
+
+    if (!interaction) return;
+
+    // Only styluses report meaningful pressure
+    const position = getMousePos(e);
+    const point: StrokePoint = e.pointerType === 'pen' ? { ...position, pressure: e.pressure } : position;
+
+    switch (interaction.mode) {
+      case 'draw':
+        if (!draft) break;
+        if (draft.type === 'pen' || draft.type === 'highlight') {
+          draft = { ...draft, points: [...draft.points, point] };
+        } else if (draft.type !== 'text' && draft.type !== 'step') {
+          draft = createShape(draft.type, draft.id, interaction.start, point);
+        }
+        break;
+      case 'crop':
+        cropDraft = rectFromPoints(interaction.start, point);
+        break;
+      case 'move':
+        draft = moveAnnotation(
+          interaction.original,
+          point.x - interaction.start.x,
+          point.y - interaction.start.y
+        );
+        break;
+      case 'resize':
+        draft = resizeAnnotation(interaction.original, interaction.handle, point);
+        break;
+    }
+    redraw();
+  }
+
+  function handlePointerUp(e: PointerEvent) {
+    pointers.delete(e.pointerId);
+    if (gesture) {
+      if (pointers.size < 2) gesture = null;
+      return;
+    }
+
+    const finished = interaction;
+    interaction = null;
+
+    if (finished?.mode === 'crop') {
+      const crop = cropDraft;
+      cropDraft = null;
+      if (crop && crop.width >= MIN_CROP_SIZE && crop.height >= MIN_CROP_SIZE) {
+        commit({ crop });
+      } else {
+        redraw();
+      }
+      return;
+    }
+
+    const current = draft;
+    draft = null;
+
+    if (!finished || !current) {
+      redraw();
+      return;
+    }
+
+    const { annotations } = editorState;
+    if (finished.mode === 'draw') {
+      if (isMeaningful(current)) {
+        commit({ annotations: [...annotations, current] });
+      } else {
+        redraw();
+      }
+    } else {
+      commit({ annotations: annotations.map((a) => (a.id === current.id ? current : a)) });
+    }
+  }
+
+  function save() {
+    if (!ctx || !image) return;
+
+    // Flatten without the selection and crop frames
+    renderAnnotations(ctx, image, editorState.annotations);
+
+    const { crop } = editorState;
+    let output = canvas;
+    if (crop) {
+      output = document.createElement('canvas');
+      output.width = Math.round(crop.width);
+      output.height = Math.round(crop.height);
+      output.getContext('2d')?.drawImage(
+        canvas,
+        crop.x, crop.y, crop.width, crop.height,
+        0, 0, output.width, output.height
+      );
+    }
+
+    output.toBlob((blob) => {
+      if (blob) {
+        options.onSave(blob);
+      }
+    }, 'image/png');
+  }
+
+  canvas.addEventListener('pointerdown', handlePointerDown);
+  canvas.addEventListener('pointermove', handlePointerMove);
+  canvas.addEventListener('pointerup', handlePointerUp);
+  canvas.addEventListener('pointercancel', handlePointerUp);
+  canvas.addEventListener('dblclick', handleDoubleClick);
+  window.addEventListener('keydown', handleKeyDown);
+  compactQuery?.addEventListener('change', handleCompactChange);
+
+  canvas.style.cursor = 'crosshair';
+  applyView();
+  renderToolbar();
+
+  function destroy() {
+    window.removeEventListener('keydown', handleKeyDown);
+    compactQuery?.removeEventListener('change', handleCompactChange);
+    closeTextEdit();
+    wrapper.remove();
+  }
+
+  return { destroy };
+}
@@ -0,0 +1,320 @@
+import { FeedbackReporterConfig, IssueResponse, IssueTrackerAdapter } from '../types';
+import { ProxyAdapter } from '../adapters/proxy';
+import { FeedbackPrefill } from '../core/controller';
+import { createFeedbackReporter } from './index';
+
+type ButtonPosition = 'bottom-right' | 'bottom-left' | 'top-right' | 'top-left';
+
+/**
+ * The `<issue-reporter>` element
+ */
+export interface IssueReporterElement extends HTMLElement {
+  /**
+   * Adapter to submit with; takes precedence over the `adapter-endpoint` attribute
+   */
+  adapter: IssueTrackerAdapter | null;
+  /**
+   * Any other reporter options, e.g. styles, text labels, fields or the offline queue
+   */
+  config: Partial<FeedbackReporterConfig>;
+  /**
+   * URL of a `createFeedbackHandler` endpoint, submitted to with a ProxyAdapter
+   */
+  adapterEndpoint: string | null;
+  position: ButtonPosition;
+  buttonText: string | null;
+  labels: string[];
+  includeMetadata: boolean;
+  captureConsole: boolean;
+  captureNetwork: boolean;
+  captureSession: boolean;
+  /**
+   * Opens the feedback modal, optionally prefilled
+   */
+  open(prefill?: FeedbackPrefill): Promise<void>;
+  /**
+   * Closes the feedback modal
+   */
+  close(): void;
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'issue-reporter': IssueReporterElement;
+  }
+}
+
+/**
+ * Detail of the `issue-error` event
+ */
+export interface IssueErrorEventDetail {
+  error: Error;
+}
+
+const BOOLEAN_ATTRIBUTES = {
+  includeMetadata: 'include-metadata',
+  captureConsole: 'capture-console',
+  captureNetwork: 'capture-network',
+  captureSession: 'capture-session',
+} as const;
+
+// Keeps inherited page styles (fonts, colors, line height) out of the shadow root
+const SHADOW_STYLES = `
+  :host {
+    all: initial;
+    font-family: system-ui, -apple-system, sans-serif;
+    font-size: 14px;
+    line-height: 1.4;
+    color: #333;
+  }
+  *, *::before, *::after {
+    box-sizing: border-box;
+  }
+  button, input, select, textarea {
+    font-family: inherit;
+  }
+`;
+
+/**
+ * Registers the `<issue-reporter>` custom element, which renders the feedback button and modal
+ * inside a Shadow DOM so the page's CSS cannot leak into them
+ *
+ * @example
+ * defineIssueReporterElement();
+ * // <issue-reporter adapter-endpoint="/api/feedback" position="bottom-right" labels="bug,feature"></issue-reporter>
+ *
+ * @param tagName Name to register the element under (default: `issue-reporter`)
+ * @returns The element class; registering the same name twice returns the existing class
+ */
+export function defineIssueReporterElement(tagName = 'issue-reporter'): CustomElementConstructor {
+  const existing = customElements.get(tagName);
+  if (existing) return existing;
+
+  class IssueReporter extends HTMLElement implements IssueReporterElement {
+    static get observedAttributes() {
+      return ['adapter-endpoint', 'position', 'button-text', 'labels', ...Object.values(BOOLEAN_ATTRIBUTES)];
+    }
+
+    private reporter: ReturnType<typeof createFeedbackReporter> | null = null;
+    private renderScheduled = false;
+    private buttonOptions: { text?: string; position: ButtonPosition } | null = null;
+    private adapterValue: IssueTrackerAdapter | null = null;
+    private configValue: Partial<FeedbackReporterConfig> = {};
+
+    constructor() {
+      super();
+      this.attachShadow({ mode: 'open' });
+    }
+
+    get adapter() {
+      return this.adapterValue;
+    }
+
+    set adapter(value: IssueTrackerAdapter | null) {
+      this.adapterValue = value;
+      this.scheduleRender();
+    }
+
+    get config() {
+      return this.configValue;
+    }
+
+    set config(value: Partial<FeedbackReporterConfig>) {
+      this.configValue = value || {};
+      this.scheduleRender();
+    }
+
+    get adapterEndpoint() {
+      return this.getAttribute('adapter-endpoint');
+    }
+
+    set adapterEndpoint(value: string | null) {
+      this.reflect('adapter-endpoint', value);
+    }
+
+    get position() {
+      return (this.getAttribute('position') || 'bottom-right') as ButtonPosition;
+    }
+
+    set position(value: ButtonPosition) {
+      this.reflect('position', value);
+    }
+
+    get buttonText() {
+      return this.getAttribute('button-text');
+    }
+
+    set buttonText(value: string | null) {
+      this.reflect('button-text', value);
+    }
+
+    get labels() {
+      return (this.getAttribute('labels') || '')
+        .split(',')
+        .map((label) => label.trim())
+        .filter(Boolean);
+    }
+
+    set labels(value: string[]) {
+      this.reflect('labels', value && value.length > 0 ? value.join(',') : null);
+    }
+
+    get includeMetadata() {
+      return this.hasAttribute(BOOLEAN_ATTRIBUTES.includeMetadata);
+    }
+
+    set includeMetadata(value: boolean) {
+      this.toggleAttribute(BOOLEAN_ATTRIBUTES.includeMetadata, !!value);
+    }
+
+    get captureConsole() {
+      return this.hasAttribute(BOOLEAN_ATTRIBUTES.captureConsole);
+    }
+
+    set captureConsole(value: boolean) {
+      this.toggleAttribute(BOOLEAN_ATTRIBUTES.captureConsole, !!value);
+    }
+
+    get captureNetwork() {
+      return this.hasAttribute(BOOLEAN_ATTRIBUTES.captureNetwork);
+    }
+
+    set captureNetwork(value: boolean) {
+      this.toggleAttribute(BOOLEAN_ATTRIBUTES.captureNetwork, !!value);
+    }
+
+    get captureSession() {
+      return this.hasAttribute(BOOLEAN_ATTRIBUTES.captureSession);
+    }
+
+    set captureSession(value: boolean) {
+      this.toggleAttribute(BOOLEAN_ATTRIBUTES.captureSession, !!value);
+    }
+
+    connectedCallback() {
+      // Properties set before the element was defined shadow the accessors; re-apply them
+      const properties = this as unknown as Record<'adapter' | 'config', unknown>;
+      (['adapter', 'config'] as const).forEach((name) => {
+        if (Object.prototype.hasOwnProperty.call(this, name)) {
+          const value = properties[name];
+          delete properties[name];
+          properties[name] = value;
+        }
+      });
+
+      // Captures, the element picker and session replays skip everything inside the host
+      this.setAttribute('data-feedback-button', '');
+      this.scheduleRender();
+    }
+
+    disconnectedCallback() {
+      this.teardown();
+    }
+
+    attributeChangedCallback(_name: string, oldValue: string | null, newValue: string | null) {
+      if (oldValue !== newValue) {
+        this.scheduleRender();
+      }
+    }
+
+    async open(prefill?: FeedbackPrefill) {
+      await this.reporter?.openModal(prefill);
+    }
+
+    close() {
+      this.reporter?.closeModal();
+    }
+
+    private reflect(name: string, value: string | null) {
+      if (value === null || value === undefined) {
+        this.removeAttribute(name);
+      } else {
+        this.setAttribute(name, value);
+      }
+    }
+
+    /**
+     * Batches attribute and property changes made in the same task into one render
+     */
+    private scheduleRender() {
+      if (!this.isConnected || this.renderScheduled) return;
+      this.renderScheduled = true;
+      Promise.resolve().then(() => {
+        this.renderScheduled = false;
+        if (this.isConnected) this.render();
+      });
+    }
+
+    private teardown() {
+      this.reporter?.destroy();
+      this.reporter = null;
+      this.buttonOptions = null;
+      this.shadowRoot!.innerHTML = '';
+    }
+
+    /**
+     * Creates the reporter on the first render; later renders update it, so an open report
+     * and the recorded logs survive attribute and property changes
+     */
+    private render() {
+      const endpoint = this.adapterEndpoint;
+      const adapter = this.adapterValue || this.configValue.adapter || (endpoint ? new ProxyAdapter({ endpoint }) : null);
+      if (!adapter) {
+        this.teardown();
+        console.warn('[issue-reporter] <issue-reporter> needs an adapter-endpoint attribute or an adapter property');
+        return;
+      }
+
+      const config = this.buildConfig(adapter);
+      const buttonOptions = { text: this.buttonText || undefined, position: this.position };
+
+      if (this.reporter) {
+        // Re-renders the button with the previous options, i.e. its new styles and labels
+        this.reporter.configure(config);
+      } else {
+        const style = document.createElement('style');
+        style.textContent = SHADOW_STYLES;
+        this.shadowRoot!.appendChild(style);
+        this.reporter = createFeedbackReporter(config, { root: this.shadowRoot! });
+      }
+
+      if (buttonOptions.text !== this.buttonOptions?.text || buttonOptions.position !== this.buttonOptions?.position) {
+        this.reporter.renderButton(buttonOptions);
+        this.buttonOptions = buttonOptions;
+      }
+    }
+
+    private buildConfig(adapter: IssueTrackerAdapter): FeedbackReporterConfig {
+      const config = this.configValue;
+      const labels = this.labels;
+      return {
+        ...config,
+        adapter,
+        labels: labels.length > 0 ? labels : config.labels,
+        includeMetadata: this.includeMetadata || config.includeMetadata,
+        captureConsole: this.captureConsole || config.captureConsole,
+        captureNetwork: this.captureNetwork || config.captureNetwork,
+        captureSession: this.captureSession || config.captureSession,
+        onSuccess: (response) => {
+          config.onSuccess?.(response);
+          this.dispatchEvent(new CustomEvent<IssueResponse>('issue-created', {
+            detail: response,
+            bubbles: true,
+            composed: true,
+          }));
+        },
+        onError: (error) => {
+          config.onError?.(error);
+          this.dispatchEvent(new CustomEvent<IssueErrorEventDetail>('issue-error', {
+            detail: { error },
+            bubbles: true,
+            composed: true,
+          }));
+        },
+      };
+    }
+  }
+
+  customElements.define(tagName, IssueReporter);
+  return IssueReporter;
+}
@@ -0,0 +1,129 @@
+import { ModalStyles } from '../types';
+import { FieldDefinition, FieldValue, getFieldOptions, getInitialFieldValues } from '../core/fields';
+import { escapeHtml } from './html';
+
+const HINT_STYLE = 'font-size: 12px; color: #666; margin: 4px 0 0;';
+
+function fieldId(field: FieldDefinition): string {
+  return `feedback-field-${field.name}`;
+}
+
+/**
+ * Markup for the custom fields of the vanilla modal
+ */
+export function renderFieldsHtml(
+  fields: FieldDefinition[],
+  modalStyles?: ModalStyles,
+  values: Record<string, FieldValue> = {}
+): string {
+  const initialValues = { ...getInitialFieldValues(fields), ...values };
+  return fields.map((field) => renderField(field, initialValues[field.name], modalStyles)).join('');
+}
+
+function renderField(field: FieldDefinition, value: FieldValue, modalStyles?: ModalStyles): string {
+  const inputStyle = `width: 100%; padding: 10px; border: 1px solid ${modalStyles?.inputBorderColor || '#ddd'}; border-radius: 6px; font-size: 14px;`;
+  const labelStyle = `display: block; margin-bottom: 8px; font-weight: 600; color: ${modalStyles?.labelColor || 'inherit'};`;
+  const errorStyle = `display: none; font-size: 12px; color: ${modalStyles?.dangerButtonColor || '#f44336'}; margin: 4px 0 0;`;
+  const id = fieldId(field);
+  const label = escapeHtml(`${field.label}${field.required ? ' *' : ''}`);
+  const placeholder = field.placeholder ? ` placeholder="${escapeHtml(field.placeholder)}"` : '';
+  const options = getFieldOptions(field);
+  const selected = (option: string) => (Array.isArray(value) ? value.includes(option) : value === option);
+
+  let control: string;
+  switch (field.type) {
+    case 'textarea':
+      control = `<textarea id="${id}" rows="4"${placeholder} style="${inputStyle} resize: vertical;">${escapeHtml(String(value))}</textarea>`;
+      break;
+
+    case 'select':
+      control = `
+        <select id="${id}"${field.multiple ? ' multiple' : ''} style="${inputStyle}">
+          ${field.multiple ? '' : `<option value="">${escapeHtml(field.placeholder || '')}</option>`}
+          ${options.map((option) => `
+            <option value="${escapeHtml(option.value)}"${selected(option.value) ? ' selected' : ''}>${escapeHtml(option.label)}</option>
+          `).join('')}
+        </select>
+      `;
+      break;
+
+    case 'radio':
+      control = `
+        <div id="${id}" role="radiogroup" aria-label="${escapeHtml(field.label)}">
+          ${options.map((option) => `
+            <label style="display: flex; align-items: center; margin-bottom: 4px; font-size: 14px;">
+              <input type="radio" name="${id}" value="${escapeHtml(option.value)}"${selected(option.value) ? ' checked' : ''} style="margin-right: 8px;">
+              ${escapeHtml(option.label)}
+            </label>
+          `).join('')}
+        </div>
+      `;
+      break;
+
+    case 'checkbox':
+      return `
+        <div style="margin-bottom: 16px;">
+          <label style="display: flex; align-items: center;">
+            <input type="checkbox" id="${id}"${value === true ? ' checked' : ''} style="margin-right: 8px;">
+            <span style="font-weight: 600; color: ${modalStyles?.labelColor || 'inherit'};">${label}</span>
+          </label>
+          ${field.hint ? `<p style="${HINT_STYLE}">${escapeHtml(field.hint)}</p>` : ''}
+          <p id="${id}-error" style="${errorStyle}"></p>
+        </div>
+      `;
+
+    default:
+      control = `<input type="${field.type === 'email' ? 'email' : 'text'}" id="${id}" value="${escapeHtml(String(value))}"${placeholder} style="${inputStyle}" />`;
+  }
+
+  return `
+    <div style="margin-bottom: 16px;">
+      <label for="${id}" style="${labelStyle}">${label}</label>
+      ${control}
+      ${field.hint ? `<p style="${HINT_STYLE}">${escapeHtml(field.hint)}</p>` : ''}
+      <p id="${id}-error" style="${errorStyle}"></p>
+    </div>
+  `;
+}
+
+/**
+ * Reads the current values of the custom fields
+ */
+export function readFieldValues(container: HTMLElement, fields: FieldDefinition[]): Record<string, FieldValue> {
+  const values: Record<string, FieldValue> = {};
+  fields.forEach((field) => {
+    const id = fieldId(field);
+    const element = container.querySelector(`#${id}`);
+
+    if (field.type === 'checkbox') {
+      values[field.name] = (element as HTMLInputElement | null)?.checked || false;
+    } else if (field.type === 'radio') {
+      const checked = container.querySelector(`input[name="${id}"]:checked`) as HTMLInputElement | null;
+      values[field.name] = checked?.value || '';
+    } else if (field.type === 'select' && field.multiple) {
+      values[field.name] = Array.from((element as HTMLSelectElement).selectedOptions).map((option) => option.value);
+    } else {
+      values[field.name] = (element as HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement | null)?.value || '';
+    }
+  });
+  return values;
+}
+
+/**
+ * Shows the validation errors below the fields and focuses the first invalid one
+ */
+export function showFieldErrors(container: HTMLElement, fields: FieldDefinition[], errors: Record<string, string>) {
+  fields.forEach((field) => {
+    const errorElement = container.querySelector(`#${fieldId(field)}-error`) as HTMLElement | null;
+    if (!errorElement) return;
+
+    errorElement.textContent = errors[field.name] || '';
+    errorElement.style.display = errors[field.name] ? 'block' : 'none';
+  });
+
+  const firstInvalid = fields.find((field) => errors[field.name]);
+  if (firstInvalid) {
+    const element = container.querySelector(`#${fieldId(firstInvalid)}`) as HTMLElement | null;
+    (element?.querySelector('input') || element)?.focus();
+  }
+}
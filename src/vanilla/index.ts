@@ -1,41 +1,217 @@
-import { FeedbackReporterConfig, FeedbackData, IssueResponse } from '../types';
-import { captureScreenshot, getSystemMetadata } from '../core/screenshot';
+import { FeedbackAttachment, FeedbackReporterConfig, IssueResponse, IssueSearchResult } from '../types';
+import { captureSelection } from '../core/screenshot';
+import { pickTarget, describeSelection } from '../core/picker';
+import { getErrorMessage } from '../core/errors';
+import { FeedbackController, FeedbackControllerEvents, FeedbackPrefill } from '../core/controller';
+import { FeedbackDraft } from '../core/session';
+import { Listener } from '../core/events';
+import { ErrorPrompt, ErrorPromptOptions } from '../core/errorPrompt';
+import { startConsoleRecorder, stopConsoleRecorder } from '../core/console';
+import { startNetworkRecorder, stopNetworkRecorder } from '../core/network';
+import { startSessionRecorder, stopSessionRecorder } from '../core/replay';
+import { validateFields } from '../core/fields';
+import { SubmissionQueue } from '../core/queue';
+import { recordScreen, isScreenRecordingSupported } from '../core/video';
+import {
+  addAttachments,
+  getTransferFiles,
+  formatFileSize,
+  DEFAULT_MAX_FILE_SIZE,
+  DEFAULT_MAX_FILES,
+} from '../core/attachments';
+import { renderFieldsHtml, readFieldValues, showFieldErrors } from './fields';
+import { createScreenshotEditor, ScreenshotEditorInstance } from './editor';
+import { escapeHtml } from './html';
+
+export interface FeedbackReporterMountOptions {
+  /**
+   * Element or shadow root the button and modal are added to (default: document.body)
+   */
+  root?: HTMLElement | ShadowRoot;
+}
 
 /**
  * Creates a feedback reporter instance for vanilla JS
  */
-export function createFeedbackReporter(config: FeedbackReporterConfig) {
-  let buttonElement: HTMLElement | null = null;
+export function createFeedbackReporter(config: FeedbackReporterConfig, mount: FeedbackReporterMountOptions = {}) {
+  const root = mount.root || document.body;
+  let buttonElement: HTMLButtonElement | null = null;
+  let buttonLabelElement: HTMLElement | null = null;
+  let badgeElement: HTMLElement | null = null;
+  let buttonText = '';
+  let unsubscribeQueue: (() => void) | null = null;
+  let buttonOptions: Parameters<typeof renderButton>[0];
+  // Replaced by configure()
+  let currentConfig = config;
+  const controller = new FeedbackController(currentConfig);
+  // Show the capturing state on the button, also when the modal is opened through the controller
+  const unsubscribeCapturing = controller.on('change', (state) => setButtonCapturing(state.isCapturing));
+  const unsubscribeOpened = controller.on('opened', () => showModal());
+  let errorWatchers: (() => void)[] = [];
+
+  // Default text labels
+  const defaultText = {
+    buttonText: '🐛 Report Issue',
+    buttonAriaLabel: 'Report an issue',
+    capturingButtonText: 'Capturing...',
+    pendingBadgeLabel: 'reports waiting to be sent',
+    modalTitle: 'Report an Issue',
+    titleLabel: 'Title',
+    titlePlaceholder: 'Brief description of the issue',
+    descriptionLabel: 'Description',
+    descriptionPlaceholder: 'Detailed description of the issue...',
+    screenshotLabel: 'Screenshot (optional)',
+    screenshotHint: 'Upload a screenshot',
+    screenshotPreviewAlt: 'Screenshot preview',
+    includeScreenshotLabel: 'Include screenshot',
+    includeMetadataLabel: 'Include system information',
+    includeMetadataHint: 'Browser, OS, screen resolution, and page URL information',
+    includeLogsLabel: 'Include console logs',
+    includeNetworkLabel: 'Include network requests',
+    includeSessionLabel: 'Include session replay',
+    labelsLabel: 'Category',
+    editButtonText: 'Edit',
+    removeButtonText: 'Remove',
+    selectAreaButtonText: 'Select area',
+    selectAreaHint: 'Click an element or drag to select an area. Press Esc to cancel.',
+    recordVideoButtonText: 'Record video',
+    stopRecordingButtonText: 'Stop',
+    recordingLabel: 'Recording',
+    includeVideoLabel: 'Include video',
+    attachmentsLabel: 'Attachments (optional)',
+    attachmentsHint: 'You can also drag and drop or paste files anywhere in this dialog',
+    errorFileTooLarge: 'File is too large (max. {size})',
+    errorTooManyFiles: 'Too many files (max. {count})',
+    errorFileType: 'File type is not allowed',
+    fieldRequiredMessage: 'This field is required',
+    fieldEmailMessage: 'Please enter a valid email address',
+    fieldMinLengthMessage: 'Please enter at least {min} characters',
+    fieldMaxLengthMessage: 'Please enter at most {max} characters',
+    fieldPatternMessage: 'Please match the requested format',
+    errorRequiredFields: 'Please fill in both title and description',
+    errorDescriptionRequired: 'Please fill in the description',
+    cancelButtonText: 'Cancel',
+    submitButtonText: 'Submit Issue',
+    submittingButtonText: 'Submitting...',
+    duplicatesLabel: 'Similar issues already exist:',
+    addToIssueButtonText: 'Add to this issue',
+    addingToIssueButtonText: 'Adding...',
+    commentAddedMessage: 'Thank you! Your report was added to the existing issue.',
+    issueCreatedMessage: 'Thank you! Your issue was created.',
+    viewIssueLinkText: 'View issue',
+    addDetailsButtonText: 'Add more details',
+    addingDetailsLabel: 'Adding details to',
+    addCommentButtonText: 'Add comment',
+    closeButtonText: 'Close',
+    queuedMessage: 'You are offline. Your report was saved and will be sent automatically once the connection is restored.',
+  };
+  let text = { ...defaultText, ...currentConfig.textLabels };
+
+  // Record console output, fetch/XHR traffic and a rolling session replay for the lifetime of the reporter
+  let recordingConsole = false;
+  let recordingNetwork = false;
+  let recordingSession = false;
+  syncRecorders();
+
+  // Start the offline queue and keep the pending badge in sync
+  let activeQueue: SubmissionQueue | undefined;
+  syncQueue();
 
   /**
-   * Creates and renders the feedback button
+   * Starts and stops the recorders to match the configuration
+   * A running recorder keeps its options and what it recorded so far
+   */
+  function syncRecorders() {
+    if (currentConfig.captureConsole && !recordingConsole) {
+      startConsoleRecorder(typeof currentConfig.captureConsole === 'object' ? currentConfig.captureConsole : undefined);
+      recordingConsole = true;
+    } else if (!currentConfig.captureConsole && recordingConsole) {
+      stopConsoleRecorder();
+      recordingConsole = false;
+    }
+
+    if (currentConfig.captureNetwork && !recordingNetwork) {
+      startNetworkRecorder(typeof currentConfig.captureNetwork === 'object' ? currentConfig.captureNetwork : undefined, currentConfig.privacy);
+      recordingNetwork = true;
+    } else if (!currentConfig.captureNetwork && recordingNetwork) {
+      stopNetworkRecorder();
+      recordingNetwork = false;
+    }
+
+    if (currentConfig.captureSession && !recordingSession) {
+      startSessionRecorder(typeof currentConfig.captureSession === 'object' ? currentConfig.captureSession : undefined, currentConfig.privacy);
+      recordingSession = true;
+    } else if (!currentConfig.captureSession && recordingSession) {
+      stopSessionRecorder();
+      recordingSession = false;
+    }
+  }
+
+  /**
+   * Switches to the configured offline queue, stopping the previous one
+   */
+  function syncQueue() {
+    if (currentConfig.queue === activeQueue) return;
+
+    if (activeQueue) {
+      unsubscribeQueue?.();
+      unsubscribeQueue = null;
+      activeQueue.stop();
+    }
+    activeQueue = currentConfig.queue;
+    if (activeQueue) {
+      unsubscribeQueue = activeQueue.on('change', (status) => updateBadge(status.pending));
+      activeQueue.start();
+    }
+    updateBadge(activeQueue?.getStatus().pending || 0);
+  }
+
+  /**
+   * Shows the number of queued submissions on the button
+   */
+  function updateBadge(pending: number) {
+    if (!badgeElement) return;
+    badgeElement.textContent = String(pending);
+    badgeElement.style.display = pending > 0 ? 'inline-block' : 'none';
+  }
+
+  /**
+   * Creates and renders the feedback button, replacing the one rendered before
    */
   function renderButton(options?: {
     text?: string;
     position?: 'bottom-right' | 'bottom-left' | 'top-right' | 'top-left';
-    container?: HTMLElement;
+    container?: HTMLElement | ShadowRoot;
   }) {
-    const text = options?.text || '🐛 Report Issue';
+    buttonElement?.remove();
+    buttonOptions = options;
     const position = options?.position || 'bottom-right';
-    const container = options?.container || document.body;
+    const container = options?.container || root;
+    const buttonStyles = currentConfig.buttonStyles;
+    buttonText = options?.text || text.buttonText;
 
     // Create button
     const button = document.createElement('button');
-    button.textContent = text;
+    button.setAttribute('data-feedback-button', '');
+    button.setAttribute('aria-label', text.buttonAriaLabel);
     button.style.cssText = `
-      padding: 12px 20px;
-      background-color: #4CAF50;
-      color: white;
-      border: none;
-      border-radius: 25px;
+      padding: ${buttonStyles?.padding || '12px 20px'};
+      background-color: ${buttonStyles?.backgroundColor || '#4CAF50'};
+      color: ${buttonStyles?.color || 'white'};
+      border: ${buttonStyles?.border || 'none'};
+      border-radius: ${buttonStyles?.borderRadius || '25px'};
       cursor: pointer;
-      font-size: 14px;
-      font-weight: 600;
-      box-shadow: 0 2px 8px rgba(0,0,0,0.2);
+      font-size: ${buttonStyles?.fontSize || '14px'};
+      font-weight: ${buttonStyles?.fontWeight || '600'};
+      box-shadow: ${buttonStyles?.boxShadow || '0 2px 8px rgba(0,0,0,0.2)'};
       transition: all 0.3s ease;
       z-index: 9999;
     `;
 
+    const label = document.createElement('span');
+    label.textContent = buttonText;
+    button.appendChild(label);
+
     // Apply position
     const positions: Record<string, string> = {
       'bottom-right': 'position: fixed; bottom: 20px; right: 20px;',
@@ -46,30 +222,145 @@ export function createFeedbackReporter(config: FeedbackReporterConfig) {
     button.style.cssText += positions[position];
 
     button.addEventListener('click', () => openModal());
+    button.addEventListener('mouseenter', () => {
+      if (buttonStyles?.hoverBackgroundColor) {
+        button.style.backgroundColor = buttonStyles.hoverBackgroundColor;
+      }
+      if (buttonStyles?.hoverColor) {
+        button.style.color = buttonStyles.hoverColor;
+      }
+    });
+    button.addEventListener('mouseleave', () => {
+      button.style.backgroundColor = buttonStyles?.backgroundColor || '#4CAF50';
+      button.style.color = buttonStyles?.color || 'white';
+    });
+
+    const badge = document.createElement('span');
+    badge.setAttribute('aria-label', text.pendingBadgeLabel);
+    badge.style.cssText = `
+      display: none;
+      min-width: 18px;
+      margin-left: 8px;
+      padding: 0 5px;
+      border-radius: 9px;
+      background-color: #f44336;
+      color: white;
+      font-size: 12px;
+      line-height: 18px;
+      text-align: center;
+    `;
+    button.appendChild(badge);
 
     container.appendChild(button);
     buttonElement = button;
+    buttonLabelElement = label;
+    badgeElement = badge;
+    updateBadge(activeQueue?.getStatus().pending || 0);
+    setButtonCapturing(controller.getState().isCapturing);
 
     return button;
   }
 
   /**
-   * Opens the feedback modal
+   * Shows the capturing state on the button while the screenshot is taken
    */
-  async function openModal() {
-    // Capture screenshot
-    const screenshot = await captureScreenshot();
-    const screenshotUrl = screenshot ? URL.createObjectURL(screenshot) : null;
+  function setButtonCapturing(capturing: boolean) {
+    if (!buttonElement || !buttonLabelElement) return;
+    buttonElement.disabled = capturing;
+    buttonLabelElement.textContent = capturing ? text.capturingButtonText : buttonText;
+  }
+
+  /**
+   * Opens the feedback modal, optionally prefilled
+   * Captures the screenshot unless the prefill supplies one
+   */
+  async function openModal(prefill?: FeedbackPrefill) {
+    await controller.open(prefill);
+  }
+
+  /**
+   * Renders the modal for the controller's current state
+   */
+  function showModal() {
+    let screenshot = controller.getState().screenshot;
+    const initial = controller.getState().prefill;
+    let screenshotUrl = screenshot ? URL.createObjectURL(screenshot) : null;
+    let includeScreenshot = !!screenshot;
+    // Element or region the screenshot was limited to
+    let selection: Record<string, unknown> | null = null;
+    let editor: ScreenshotEditorInstance | null = null;
+    let video: Blob | null = null;
+    let videoUrl: string | null = null;
+    let includeVideo = true;
+    let attachments: FeedbackAttachment[] = [];
+    let attachmentErrors: string[] = [];
+    // Issue the form comments on after "Add more details"
+    let commentTarget: IssueResponse | null = null;
+    const canRecordVideo = !!currentConfig.recordVideo && isScreenRecordingSupported();
+    const attachmentOptions = currentConfig.attachments;
+    const fields = currentConfig.fields || [];
+    const labels = currentConfig.labels || [];
+    const { logs, networkRequests, sessionRecording } = controller.session.getState();
+
+    const styles = currentConfig.modalStyles;
+    const labelColor = styles?.labelColor || 'inherit';
+    const primaryColor = styles?.primaryButtonColor || '#4CAF50';
+    const secondaryColor = styles?.secondaryButtonColor || '#f0f0f0';
+    const dangerColor = styles?.dangerButtonColor || '#f44336';
+    const inputStyle = `width: 100%; padding: 10px; border: 1px solid ${styles?.inputBorderColor || '#ddd'}; border-radius: 6px; font-size: 14px;`;
+    const fieldLabelStyle = `display: block; margin-bottom: 8px; font-weight: 600; color: ${labelColor};`;
+    const buttonStyle = 'padding: 10px 20px; border-radius: 6px; font-size: 14px; font-weight: 600; cursor: pointer; border: none;';
+    const smallButtonStyle = 'padding: 8px 16px; border: none; border-radius: 6px; cursor: pointer; font-size: 13px; font-weight: 600;';
+    const contentStyle = `
+      background-color: ${styles?.backgroundColor || 'white'};
+      border-radius: ${styles?.borderRadius || '12px'};
+      padding: ${styles?.padding || '24px'};
+      max-width: ${styles?.maxWidth || '600px'};
+      width: 100%;
+      max-height: 90vh;
+      overflow: auto;
+      box-shadow: ${styles?.boxShadow || '0 4px 20px rgba(0,0,0,0.3)'};
+    `;
+    const editorContentStyle = `
+      background-color: ${styles?.backgroundColor || 'white'};
+      border-radius: ${styles?.borderRadius || '12px'};
+      padding: 0;
+      max-width: 90vw;
+      width: 100%;
+      max-height: 90vh;
+      height: 90vh;
+      overflow: hidden;
+      box-shadow: ${styles?.boxShadow || '0 4px 20px rgba(0,0,0,0.3)'};
+    `;
+    const labelChipStyle = (checked: boolean) => `
+      display: flex;
+      align-items: center;
+      padding: 8px 12px;
+      border: 2px solid ${checked ? primaryColor : '#ddd'};
+      border-radius: 6px;
+      cursor: pointer;
+      background-color: ${checked ? `${primaryColor}15` : 'transparent'};
+      transition: all 0.2s;
+    `;
+    const toggleHtml = (id: string, label: string, checked = true) => `
+      <div style="margin-bottom: 16px;">
+        <label style="display: flex; align-items: center;">
+          <input type="checkbox" id="${id}"${checked ? ' checked' : ''} style="margin-right: 8px;">
+          <span style="font-weight: 600; font-size: 14px; color: ${labelColor};">${escapeHtml(label)}</span>
+        </label>
+      </div>
+    `;
 
     // Create modal
     const modal = document.createElement('div');
+    modal.setAttribute('data-feedback-modal', '');
     modal.style.cssText = `
       position: fixed;
       top: 0;
       left: 0;
       right: 0;
       bottom: 0;
-      background-color: rgba(0, 0, 0, 0.5);
+      background-color: ${styles?.overlayBackgroundColor || 'rgba(0, 0, 0, 0.5)'};
       display: flex;
       align-items: center;
       justify-content: center;
@@ -78,133 +369,710 @@ export function createFeedbackReporter(config: FeedbackReporterConfig) {
     `;
 
     modal.innerHTML = `
-      <div style="
-        background-color: white;
-        border-radius: 12px;
-        padding: 24px;
-        max-width: 600px;
-        width: 100%;
-        max-height: 90vh;
-        overflow: auto;
-        box-shadow: 0 4px 20px rgba(0,0,0,0.3);
-      ">
-        <h2 style="margin-top: 0; margin-bottom: 20px;">Report an Issue</h2>
-        <form id="feedback-form">
-          <div style="margin-bottom: 16px;">
-            <label style="display: block; margin-bottom: 8px; font-weight: 600;">Title *</label>
-            <input
-              type="text"
-              id="feedback-title"
-              placeholder="Brief description of the issue"
-              required
-              style="width: 100%; padding: 10px; border: 1px solid #ddd; border-radius: 6px; font-size: 14px;"
-            />
-          </div>
-          <div style="margin-bottom: 16px;">
-            <label style="display: block; margin-bottom: 8px; font-weight: 600;">Description *</label>
-            <textarea
-              id="feedback-description"
-              placeholder="Detailed description of the issue..."
-              rows="5"
-              required
-              style="width: 100%; padding: 10px; border: 1px solid #ddd; border-radius: 6px; font-size: 14px; resize: vertical;"
-            ></textarea>
-          </div>
-          ${screenshotUrl ? `
+      <div id="feedback-content" style="${contentStyle}">
+        <div id="feedback-editor" style="display: none; height: 100%;"></div>
+        <div id="feedback-main">
+          <h2 style="margin-top: 0; margin-bottom: 20px; color: ${styles?.headerColor || 'inherit'};">${escapeHtml(text.modalTitle)}</h2>
+          <form id="feedback-form">
+            <p id="comment-target" style="display: none; margin-top: 0; margin-bottom: 16px; font-size: 14px;"></p>
+            <div id="title-section" style="margin-bottom: 16px;">
+              <label for="feedback-title" style="${fieldLabelStyle}">${escapeHtml(text.titleLabel)} *</label>
+              <input
+                type="text"
+                id="feedback-title"
+                value="${escapeHtml(initial.title || '')}"
+                placeholder="${escapeHtml(text.titlePlaceholder)}"
+                required
+                style="${inputStyle}"
+              />
+            </div>
+            <div
+              id="feedback-duplicates"
+              style="display: none; margin-top: -8px; margin-bottom: 16px; padding: 10px 12px; background-color: #fff8e1; border: 1px solid #ffe082; border-radius: 6px; font-size: 13px;"
+            ></div>
+            <div style="margin-bottom: 16px;">
+              <label for="feedback-description" style="${fieldLabelStyle}">${escapeHtml(text.descriptionLabel)} *</label>
+              <textarea
+                id="feedback-description"
+                placeholder="${escapeHtml(text.descriptionPlaceholder)}"
+                rows="5"
+                required
+                style="${inputStyle} resize: vertical;"
+              >${escapeHtml(initial.description || '')}</textarea>
+            </div>
+            <div id="issue-details">
+              ${renderFieldsHtml(fields, styles, initial.fields)}
+              ${labels.length > 0 ? `
+                <div style="margin-bottom: 16px;">
+                  <span style="${fieldLabelStyle}">${escapeHtml(text.labelsLabel)}</span>
+                  <div style="display: flex; flex-wrap: wrap; gap: 8px;">
+                    ${labels.map((label) => {
+                      const checked = !!initial.labels?.includes(label);
+                      return `
+                      <label data-label-chip style="${labelChipStyle(checked)}">
+                        <input type="checkbox" name="feedback-label" value="${escapeHtml(label)}"${checked ? ' checked' : ''} style="margin-right: 6px;">
+                        <span style="font-size: 14px; font-weight: 500;">${escapeHtml(label)}</span>
+                      </label>
+                    `;
+                    }).join('')}
+                  </div>
+                </div>
+              ` : ''}
+            </div>
             <div style="margin-bottom: 16px;">
-              <label style="display: flex; align-items: center; margin-bottom: 8px;">
-                <input type="checkbox" id="include-screenshot" checked style="margin-right: 8px;">
-                <span style="font-weight: 600;">Include screenshot</span>
+              <label style="display: flex; align-items: center;">
+                <input type="checkbox" id="include-metadata"${currentConfig.includeMetadata ? ' checked' : ''} style="margin-right: 8px;">
+                <span style="font-weight: 600; font-size: 14px; color: ${labelColor};">${escapeHtml(text.includeMetadataLabel)}</span>
               </label>
-              <img
-                id="screenshot-preview"
-                src="${screenshotUrl}"
-                alt="Screenshot preview"
-                style="width: 100%; border: 1px solid #ddd; border-radius: 6px; margin-top: 8px;"
-              />
+              <p style="font-size: 12px; color: #666; margin-top: 4px; margin-left: 24px;">${escapeHtml(text.includeMetadataHint)}</p>
             </div>
-          ` : ''}
-          <div style="display: flex; justify-content: flex-end; margin-top: 20px;">
-            <button
-              type="button"
-              id="cancel-btn"
-              style="padding: 10px 20px; border-radius: 6px; font-size: 14px; font-weight: 600; cursor: pointer; border: none; margin-right: 10px; background-color: #f0f0f0; color: #333;"
-            >
-              Cancel
-            </button>
-            <button
-              type="submit"
-              id="submit-btn"
-              style="padding: 10px 20px; border-radius: 6px; font-size: 14px; font-weight: 600; cursor: pointer; border: none; background-color: #4CAF50; color: white;"
-            >
-              Submit Issue
-            </button>
-          </div>
-        </form>
+            ${logs.length > 0 ? toggleHtml('include-logs', `${text.includeLogsLabel} (${logs.length})`) : ''}
+            ${networkRequests.length > 0 ? toggleHtml('include-network', `${text.includeNetworkLabel} (${networkRequests.length})`) : ''}
+            ${sessionRecording ? toggleHtml('include-session', text.includeSessionLabel) : ''}
+            <div id="screenshot-section" style="margin-bottom: 16px;"></div>
+            ${canRecordVideo ? '<div id="video-section" style="margin-bottom: 16px;"></div>' : ''}
+            <div id="attachments-section" style="margin-bottom: 16px;"></div>
+            <div
+              id="feedback-error"
+              role="alert"
+              style="display: none; padding: 10px 12px; margin-top: 16px; background-color: #fdecea; color: ${dangerColor}; border: 1px solid ${dangerColor}; border-radius: 6px; font-size: 14px;"
+            ></div>
+            <div style="display: flex; justify-content: flex-end; margin-top: 20px;">
+              <button
+                type="button"
+                id="cancel-btn"
+                style="${buttonStyle} margin-right: 10px; background-color: ${secondaryColor}; color: #333;"
+              >
+                ${escapeHtml(text.cancelButtonText)}
+              </button>
+              <button
+                type="submit"
+                id="submit-btn"
+                style="${buttonStyle} background-color: ${primaryColor}; color: white;"
+              >
+                ${escapeHtml(text.submitButtonText)}
+              </button>
+            </div>
+          </form>
+        </div>
+        <div id="feedback-result" role="status" style="display: none;"></div>
       </div>
     `;
 
-    document.body.appendChild(modal);
+    root.appendChild(modal);
 
-    // Handle form submission
+    const content = modal.querySelector('#feedback-content') as HTMLDivElement;
+    const main = modal.querySelector('#feedback-main') as HTMLDivElement;
+    const editorHost = modal.querySelector('#feedback-editor') as HTMLDivElement;
+    const resultView = modal.querySelector('#feedback-result') as HTMLDivElement;
     const form = modal.querySelector('#feedback-form') as HTMLFormElement;
+    const titleInput = modal.querySelector('#feedback-title') as HTMLInputElement;
+    const descriptionInput = modal.querySelector('#feedback-description') as HTMLTextAreaElement;
+    const duplicatesBox = modal.querySelector('#feedback-duplicates') as HTMLDivElement;
     const submitBtn = modal.querySelector('#submit-btn') as HTMLButtonElement;
     const cancelBtn = modal.querySelector('#cancel-btn') as HTMLButtonElement;
-    const includeScreenshotCheckbox = modal.querySelector('#include-screenshot') as HTMLInputElement | null;
-    const screenshotPreview = modal.querySelector('#screenshot-preview') as HTMLImageElement | null;
+    const screenshotSection = modal.querySelector('#screenshot-section') as HTMLDivElement;
+    const videoSection = modal.querySelector('#video-section') as HTMLDivElement | null;
+    const attachmentsSection = modal.querySelector('#attachments-section') as HTMLDivElement;
+    const errorBox = modal.querySelector('#feedback-error') as HTMLDivElement;
+    const includeMetadataCheckbox = modal.querySelector('#include-metadata') as HTMLInputElement;
+    const includeLogsCheckbox = modal.querySelector('#include-logs') as HTMLInputElement | null;
+    const includeNetworkCheckbox = modal.querySelector('#include-network') as HTMLInputElement | null;
+    const includeSessionCheckbox = modal.querySelector('#include-session') as HTMLInputElement | null;
+
+    modal.querySelectorAll('[data-label-chip]').forEach((chip) => {
+      const checkbox = chip.querySelector('input') as HTMLInputElement;
+      checkbox.addEventListener('change', () => {
+        (chip as HTMLElement).style.cssText = labelChipStyle(checkbox.checked);
+      });
+    });
+
+    /**
+     * Renders the screenshot preview and its actions, or the upload fallback when there is no screenshot
+     */
+    function renderScreenshotSection() {
+      const selectAreaButton = `
+        <button type="button" data-action="select-area" style="${smallButtonStyle} background-color: ${secondaryColor}; color: #333;">
+          ${escapeHtml(text.selectAreaButtonText)}
+        </button>
+      `;
+
+      screenshotSection.innerHTML = `
+        <span style="${fieldLabelStyle}">${escapeHtml(text.screenshotLabel)}</span>
+        ${!screenshotUrl ? `
+          <input type="file" id="screenshot-file" accept="image/*" style="${inputStyle}" />
+          <p style="font-size: 12px; color: #666; margin-top: 4px;">${escapeHtml(text.screenshotHint)}</p>
+          ${selectAreaButton}
+        ` : `
+          <label style="display: flex; align-items: center; margin-bottom: 8px;">
+            <input type="checkbox" id="include-screenshot"${includeScreenshot ? ' checked' : ''} style="margin-right: 8px;">
+            <span style="font-weight: 600; color: ${labelColor};">${escapeHtml(text.includeScreenshotLabel)}</span>
+          </label>
+          ${includeScreenshot ? `
+            <img
+              id="screenshot-preview"
+              src="${screenshotUrl}"
+              alt="${escapeHtml(text.screenshotPreviewAlt)}"
+              style="width: 100%; border: 1px solid #ddd; border-radius: 6px; margin-top: 8px; cursor: pointer;"
+            />
+            <div style="display: flex; gap: 8px; margin-top: 8px;">
+              <button type="button" data-action="edit" style="${smallButtonStyle} background-color: ${styles?.primaryButtonColor || '#2196F3'}; color: white;">
+                ${escapeHtml(text.editButtonText)}
+              </button>
+              ${selectAreaButton}
+              <button type="button" data-action="remove" style="${smallButtonStyle} background-color: ${dangerColor}; color: white;">
+                ${escapeHtml(text.removeButtonText)}
+              </button>
+            </div>
+          ` : ''}
+        `}
+      `;
+
+      screenshotSection.querySelector('#screenshot-file')?.addEventListener('change', (e) => {
+        const file = (e.target as HTMLInputElement).files?.[0];
+        if (file) {
+          setScreenshot(file, null);
+        }
+      });
+      screenshotSection.querySelector('#include-screenshot')?.addEventListener('change', (e) => {
+        includeScreenshot = (e.target as HTMLInputElement).checked;
+        renderScreenshotSection();
+      });
+      screenshotSection.querySelector('#screenshot-preview')?.addEventListener('click', openEditor);
+      screenshotSection.querySelector('[data-action="edit"]')?.addEventListener('click', openEditor);
+      screenshotSection.querySelector('[data-action="select-area"]')?.addEventListener('click', selectArea);
+      screenshotSection.querySelector('[data-action="remove"]')?.addEventListener('click', () => setScreenshot(null, null));
+    }
+
+    function setScreenshot(blob: Blob | null, newSelection: Record<string, unknown> | null) {
+      if (screenshotUrl) {
+        URL.revokeObjectURL(screenshotUrl);
+      }
+      screenshot = blob;
+      screenshotUrl = blob ? URL.createObjectURL(blob) : null;
+      includeScreenshot = !!blob;
+      selection = newSelection;
+      renderScreenshotSection();
+    }
+
+    async function selectArea() {
+      // Hide the modal while the user picks on the page
+      modal.style.display = 'none';
+      const result = await pickTarget({ hint: text.selectAreaHint });
+      const blob = result ? await captureSelection(result, currentConfig.privacy, currentConfig.screenshotEngine) : null;
+      modal.style.display = 'flex';
+
+      if (result && blob) {
+        setScreenshot(blob, describeSelection(result));
+      }
+    }
+
+    /**
+     * Swaps the form for the annotation editor
+     */
+    function openEditor() {
+      if (!screenshot) return;
+
+      main.style.display = 'none';
+      editorHost.style.display = 'block';
+      content.style.cssText = editorContentStyle;
+      editor = createScreenshotEditor(editorHost, screenshot, {
+        onSave: (editedScreenshot) => {
+          closeEditor();
+          // Annotations keep the selection the screenshot was taken from
+          setScreenshot(editedScreenshot, selection);
+        },
+        onCancel: closeEditor,
+      });
+    }
+
+    function closeEditor() {
+      editor?.destroy();
+      editor = null;
+      editorHost.style.display = 'none';
+      main.style.display = 'block';
+      content.style.cssText = contentStyle;
+    }
+
+    /**
+     * Renders the recorded clip, or the record button when there is none
+     */
+    function renderVideoSection() {
+      if (!videoSection) return;
 
-    if (includeScreenshotCheckbox && screenshotPreview) {
-      includeScreenshotCheckbox.addEventListener('change', () => {
-        screenshotPreview.style.display = includeScreenshotCheckbox.checked ? 'block' : 'none';
+      videoSection.innerHTML = video && videoUrl ? `
+        <label style="display: flex; align-items: center; margin-bottom: 8px;">
+          <input type="checkbox" id="include-video"${includeVideo ? ' checked' : ''} style="margin-right: 8px;">
+          <span style="font-weight: 600; font-size: 14px; color: ${labelColor};">${escapeHtml(text.includeVideoLabel)}</span>
+        </label>
+        ${includeVideo ? `
+          <video src="${videoUrl}" controls style="width: 100%; border: 1px solid #ddd; border-radius: 6px; background-color: #000;"></video>
+        ` : ''}
+        <button type="button" data-action="remove-video" style="${smallButtonStyle} margin-top: 8px; background-color: ${dangerColor}; color: white;">
+          ${escapeHtml(text.removeButtonText)}
+        </button>
+      ` : `
+        <button type="button" data-action="record-video" style="${smallButtonStyle} background-color: ${secondaryColor}; color: #333;">
+          ${escapeHtml(text.recordVideoButtonText)}
+        </button>
+      `;
+
+      videoSection.querySelector('#include-video')?.addEventListener('change', (e) => {
+        includeVideo = (e.target as HTMLInputElement).checked;
+        renderVideoSection();
       });
+      videoSection.querySelector('[data-action="record-video"]')?.addEventListener('click', recordVideo);
+      videoSection.querySelector('[data-action="remove-video"]')?.addEventListener('click', () => setVideo(null));
+    }
+
+    function setVideo(clip: Blob | null) {
+      if (videoUrl) {
+        URL.revokeObjectURL(videoUrl);
+      }
+      video = clip;
+      videoUrl = clip ? URL.createObjectURL(clip) : null;
+      includeVideo = true;
+      renderVideoSection();
+    }
+
+    async function recordVideo() {
+      // Hide the modal while the user reproduces the issue
+      modal.style.display = 'none';
+      const clip = await recordScreen({
+        ...(typeof currentConfig.recordVideo === 'object' ? currentConfig.recordVideo : {}),
+        recordingLabel: text.recordingLabel,
+        stopButtonText: text.stopRecordingButtonText,
+      });
+      modal.style.display = 'flex';
+
+      if (clip) {
+        setVideo(clip);
+      }
+    }
+
+    /**
+     * Renders the file picker and the list of attached files
+     */
+    function renderAttachmentsSection() {
+      attachmentsSection.innerHTML = `
+        <label for="attachments-file" style="${fieldLabelStyle}">${escapeHtml(text.attachmentsLabel)}</label>
+        <input
+          type="file"
+          id="attachments-file"
+          multiple
+          ${attachmentOptions?.accept ? `accept="${escapeHtml(attachmentOptions.accept)}"` : ''}
+          style="${inputStyle}"
+        />
+        <p style="font-size: 12px; color: #666; margin-top: 4px;">${escapeHtml(text.attachmentsHint)}</p>
+        ${attachmentErrors.length > 0 ? `
+          <div role="alert" style="font-size: 13px; color: ${dangerColor}; margin-bottom: 8px;">
+            ${attachmentErrors.map((error) => `<div>${escapeHtml(error)}</div>`).join('')}
+          </div>
+        ` : ''}
+        ${attachments.length > 0 ? `
+          <ul style="list-style: none; padding: 0; margin: 0;">
+            ${attachments.map((attachment, index) => `
+              <li style="display: flex; align-items: center; justify-content: space-between; gap: 8px; padding: 6px 0; border-bottom: 1px solid #eee; font-size: 13px;">
+                <span style="overflow: hidden; text-overflow: ellipsis; white-space: nowrap;">
+                  ${escapeHtml(attachment.filename)}
+                  <span style="color: #666;">(${formatFileSize(attachment.data.size)})</span>
+                </span>
+                <button
+                  type="button"
+                  data-remove-attachment="${index}"
+                  style="padding: 4px 10px; background-color: transparent; color: ${dangerColor}; border: 1px solid ${dangerColor}; border-radius: 4px; cursor: pointer; font-size: 12px;"
+                >
+                  ${escapeHtml(text.removeButtonText)}
+                </button>
+              </li>
+            `).join('')}
+          </ul>
+        ` : ''}
+      `;
+
+      attachmentsSection.querySelector('#attachments-file')?.addEventListener('change', (e) => {
+        handleFiles(Array.from((e.target as HTMLInputElement).files || []));
+      });
+      attachmentsSection.querySelectorAll('[data-remove-attachment]').forEach((button) => {
+        button.addEventListener('click', () => {
+          const index = Number((button as HTMLElement).dataset.removeAttachment);
+          attachments = attachments.filter((_, i) => i !== index);
+          renderAttachmentsSection();
+        });
+      });
+    }
+
+    /**
+     * Attaches files from the file picker, drag and drop or paste
+     * @param preferScreenshot Use the first image as the screenshot if there is none yet
+     */
+    function handleFiles(files: Blob[], preferScreenshot = false) {
+      let remaining = files;
+      if (preferScreenshot && !screenshot) {
+        const image = files.find((file) => file.type.startsWith('image/'));
+        if (image) {
+          setScreenshot(image, null);
+          remaining = files.filter((file) => file !== image);
+        }
+      }
+      if (remaining.length === 0) return;
+
+      const result = addAttachments(attachments, remaining, attachmentOptions);
+      attachments = result.attachments;
+      attachmentErrors = result.rejected.map(({ filename, reason }) => {
+        const message = reason === 'size'
+          ? text.errorFileTooLarge.replace('{size}', formatFileSize(attachmentOptions?.maxFileSize || DEFAULT_MAX_FILE_SIZE))
+          : reason === 'count'
+            ? text.errorTooManyFiles.replace('{count}', String(attachmentOptions?.maxFiles || DEFAULT_MAX_FILES))
+            : text.errorFileType;
+        return `${filename}: ${message}`;
+      });
+      renderAttachmentsSection();
+    }
+
+    // Paste anywhere while the modal is open, e.g. after pressing the print screen key
+    const handlePaste = (e: ClipboardEvent) => {
+      if (editor) return;
+      const files = getTransferFiles(e.clipboardData);
+      if (files.length === 0) return;
+
+      e.preventDefault();
+      handleFiles(files, true);
+    };
+    document.addEventListener('paste', handlePaste);
+
+    content.addEventListener('dragover', (e) => {
+      if (editor || !Array.from(e.dataTransfer?.types || []).includes('Files')) return;
+      e.preventDefault();
+      content.style.outline = '3px dashed #2196F3';
+      content.style.outlineOffset = '-8px';
+    });
+    content.addEventListener('dragleave', (e) => {
+      if (!content.contains(e.relatedTarget as Node | null)) {
+        content.style.outline = '';
+      }
+    });
+    content.addEventListener('drop', (e) => {
+      if (editor) return;
+      e.preventDefault();
+      content.style.outline = '';
+      handleFiles(getTransferFiles(e.dataTransfer), true);
+    });
+
+    renderScreenshotSection();
+    renderVideoSection();
+    renderAttachmentsSection();
+
+    // Look for similar issues once the user stops typing the title
+    let searchTimer: ReturnType<typeof setTimeout> | undefined;
+    let searchId = 0;
+    function searchDuplicates() {
+      clearTimeout(searchTimer);
+      const id = ++searchId;
+      const query = titleInput.value.trim();
+      const { adapter } = currentConfig;
+      if (currentConfig.detectDuplicates === false || !adapter.searchIssues || query.length < 4) {
+        renderDuplicates([]);
+        return;
+      }
+
+      searchTimer = setTimeout(() => {
+        adapter.searchIssues!(query)
+          .then((results) => {
+            if (id === searchId) renderDuplicates(results);
+          })
+          .catch((error) => {
+            console.warn('[issue-reporter] Failed to search for similar issues:', error);
+          });
+      }, 400);
+    }
+
+    function renderDuplicates(issues: IssueSearchResult[]) {
+      duplicatesBox.style.display = issues.length > 0 ? 'block' : 'none';
+      duplicatesBox.innerHTML = issues.length > 0 ? `
+        <p style="margin: 0 0 6px; font-weight: 600;">${escapeHtml(text.duplicatesLabel)}</p>
+        <ul style="list-style: none; margin: 0; padding: 0;">
+          ${issues.map((issue, index) => `
+            <li style="display: flex; align-items: center; justify-content: space-between; gap: 8px; padding: 4px 0;">
+              <a
+                href="${escapeHtml(issue.url)}"
+                target="_blank"
+                rel="noopener noreferrer"
+                style="overflow: hidden; text-overflow: ellipsis; white-space: nowrap; color: #1565c0;"
+              >${escapeHtml(`#${issue.id} ${issue.title}${issue.state === 'closed' ? ' (closed)' : ''}`)}</a>
+              ${currentConfig.adapter.addComment ? `
+                <button
+                  type="button"
+                  data-add-to-issue="${index}"
+                  style="${smallButtonStyle} padding: 4px 10px; font-size: 12px; flex-shrink: 0; background-color: ${secondaryColor}; color: #333;"
+                >
+                  ${escapeHtml(text.addToIssueButtonText)}
+                </button>
+              ` : ''}
+            </li>
+          `).join('')}
+        </ul>
+      ` : '';
+
+      duplicatesBox.querySelectorAll('[data-add-to-issue]').forEach((button) => {
+        button.addEventListener('click', () => {
+          addToIssue(issues[Number((button as HTMLElement).dataset.addToIssue)], button as HTMLButtonElement);
+        });
+      });
+    }
+
+    titleInput.addEventListener('input', searchDuplicates);
+    searchDuplicates();
+
+    /**
+     * Collects the report from the form
+     */
+    function readDraft(): FeedbackDraft {
+      const selectedLabels = Array.from(modal.querySelectorAll('input[name="feedback-label"]:checked'))
+        .map((input) => (input as HTMLInputElement).value);
+      return {
+        title: titleInput.value,
+        description: descriptionInput.value,
+        labels: selectedLabels,
+        fields: readFieldValues(modal, fields),
+        includeMetadata: includeMetadataCheckbox.checked,
+        screenshot: includeScreenshot ? screenshot : null,
+        selection,
+        includeLogs: includeLogsCheckbox?.checked,
+        includeNetwork: includeNetworkCheckbox?.checked,
+        includeSession: includeSessionCheckbox?.checked,
+        video: includeVideo ? video : null,
+        attachments,
+      };
+    }
+
+    /**
+     * Adds the report to a similar issue instead of creating a new one
+     */
+    async function addToIssue(issue: IssueSearchResult, button: HTMLButtonElement) {
+      const buttons = [submitBtn, ...Array.from(duplicatesBox.querySelectorAll('button'))];
+      buttons.forEach((b) => { b.disabled = true; });
+      button.textContent = text.addingToIssueButtonText;
+
+      await addComment(issue, { ...readDraft(), description: descriptionInput.value.trim() || '+1' });
+
+      buttons.forEach((b) => { b.disabled = false; });
+      button.textContent = text.addToIssueButtonText;
+    }
+
+    /**
+     * Comments on an existing issue and shows it
+     */
+    async function addComment(issue: IssueResponse, draft: FeedbackDraft) {
+      errorBox.style.display = 'none';
+      try {
+        await controller.session.comment(issue.id, draft);
+        showResult(issue, true);
+      } catch (error) {
+        showError(getErrorMessage(error, currentConfig.textLabels));
+      }
+    }
+
+    /**
+     * Swaps the form for a link to the created or commented issue
+     */
+    function showResult(issue: IssueResponse, commented: boolean) {
+      main.style.display = 'none';
+      resultView.style.display = 'block';
+      resultView.innerHTML = `
+        <h2 style="margin-top: 0; margin-bottom: 12px; color: ${styles?.headerColor || 'inherit'};">${escapeHtml(text.modalTitle)}</h2>
+        <p style="margin: 0 0 8px; font-size: 14px;">${escapeHtml(commented ? text.commentAddedMessage : text.issueCreatedMessage)}</p>
+        <a href="${escapeHtml(issue.url)}" target="_blank" rel="noopener noreferrer" style="font-size: 14px; color: #1565c0;">
+          ${escapeHtml(`${text.viewIssueLinkText}: #${issue.id} ${issue.title}`)}
+        </a>
+        <div style="display: flex; justify-content: flex-end; margin-top: 20px;">
+          ${currentConfig.adapter.addComment ? `
+            <button type="button" data-action="add-details" style="${buttonStyle} margin-right: 10px; background-color: ${secondaryColor}; color: #333;">
+              ${escapeHtml(text.addDetailsButtonText)}
+            </button>
+          ` : ''}
+          <button type="button" data-action="close" style="${buttonStyle} background-color: ${primaryColor}; color: white;">
+            ${escapeHtml(text.closeButtonText)}
+          </button>
+        </div>
+      `;
+      resultView.querySelector('[data-action="add-details"]')?.addEventListener('click', () => addDetails(issue));
+      resultView.querySelector('[data-action="close"]')?.addEventListener('click', closeModal);
+    }
+
+    /**
+     * Swaps the form for the note that the report waits in the offline queue
+     */
+    function showQueued() {
+      main.style.display = 'none';
+      resultView.style.display = 'block';
+      resultView.innerHTML = `
+        <h2 style="margin-top: 0; margin-bottom: 12px; color: ${styles?.headerColor || 'inherit'};">${escapeHtml(text.modalTitle)}</h2>
+        <p style="margin: 0; font-size: 14px;">${escapeHtml(text.queuedMessage)}</p>
+        <div style="display: flex; justify-content: flex-end; margin-top: 20px;">
+          <button type="button" data-action="close" style="${buttonStyle} background-color: ${primaryColor}; color: white;">
+            ${escapeHtml(text.closeButtonText)}
+          </button>
+        </div>
+      `;
+      resultView.querySelector('[data-action="close"]')?.addEventListener('click', closeModal);
+    }
+
+    /**
+     * Shows a message in the error box above the buttons
+     */
+    function showError(message: string) {
+      errorBox.textContent = message;
+      errorBox.style.display = 'block';
+    }
+
+    /**
+     * Switches from the result to an emptied form that comments on the issue
+     */
+    function addDetails(issue: IssueResponse) {
+      commentTarget = issue;
+      const commentTargetText = modal.querySelector('#comment-target') as HTMLParagraphElement;
+      commentTargetText.innerHTML = `
+        ${escapeHtml(text.addingDetailsLabel)}
+        <a href="${escapeHtml(issue.url)}" target="_blank" rel="noopener noreferrer" style="color: #1565c0;">${escapeHtml(`#${issue.id} ${issue.title}`)}</a>
+      `;
+      commentTargetText.style.display = 'block';
+      // Title, fields and labels belong to the issue, not to the comment
+      (modal.querySelector('#title-section') as HTMLDivElement).style.display = 'none';
+      (modal.querySelector('#issue-details') as HTMLDivElement).style.display = 'none';
+      titleInput.required = false;
+      renderDuplicates([]);
+
+      descriptionInput.value = '';
+      setScreenshot(null, null);
+      setVideo(null);
+      attachments = [];
+      attachmentErrors = [];
+      renderAttachmentsSection();
+      errorBox.style.display = 'none';
+      submitBtn.textContent = text.addCommentButtonText;
+
+      resultView.style.display = 'none';
+      main.style.display = 'block';
+      if (controller.session.getState().status === 'success') {
+        controller.session.edit();
+      }
     }
 
     form.addEventListener('submit', async (e) => {
       e.preventDefault();
 
-      const titleInput = modal.querySelector('#feedback-title') as HTMLInputElement;
-      const descriptionInput = modal.querySelector('#feedback-description') as HTMLTextAreaElement;
+      if (commentTarget) {
+        // The required attributes let whitespace through
+        if (!descriptionInput.value.trim()) {
+          showError(text.errorDescriptionRequired);
+          return;
+        }
+        submitBtn.textContent = text.submittingButtonText;
+        submitBtn.disabled = true;
+        await addComment(commentTarget, { ...readDraft(), title: commentTarget.title });
+        submitBtn.textContent = text.addCommentButtonText;
+        submitBtn.disabled = false;
+        return;
+      }
+
+      if (!titleInput.value.trim() || !descriptionInput.value.trim()) {
+        showError(text.errorRequiredFields);
+        return;
+      }
+
+      const fieldValues = readFieldValues(modal, fields);
+      const fieldErrors = validateFields(fields, fieldValues, {
+        required: text.fieldRequiredMessage,
+        email: text.fieldEmailMessage,
+        minLength: text.fieldMinLengthMessage,
+        maxLength: text.fieldMaxLengthMessage,
+        pattern: text.fieldPatternMessage,
+      });
+      showFieldErrors(modal, fields, fieldErrors);
+      if (Object.keys(fieldErrors).length > 0) return;
 
-      submitBtn.textContent = 'Submitting...';
+      submitBtn.textContent = text.submittingButtonText;
       submitBtn.disabled = true;
+      errorBox.style.display = 'none';
 
       try {
-        const feedbackData: FeedbackData = {
-          title: titleInput.value.trim(),
-          description: descriptionInput.value.trim(),
-          screenshot: includeScreenshotCheckbox?.checked && screenshot ? screenshot : undefined,
-          metadata: config.includeMetadata ? getSystemMetadata() : undefined,
-        };
-
-        const response = await config.adapter.createIssue(feedbackData);
-
-        if (response) {
-          config.onSuccess?.(response);
-          alert(`Issue created successfully! View it at: ${response.url}`);
-          closeModal();
+        const result = await controller.session.submit(readDraft());
+        if (result.status === 'queued') {
+          showQueued();
         } else {
-          throw new Error('Failed to create issue');
+          showResult(result.response, false);
         }
       } catch (error) {
-        const err = error instanceof Error ? error : new Error('Unknown error');
-        config.onError?.(err);
-        alert('Failed to submit feedback. Please try again.');
+        showError(getErrorMessage(error, currentConfig.textLabels));
       } finally {
-        submitBtn.textContent = 'Submit Issue';
+        submitBtn.textContent = text.submitButtonText;
         submitBtn.disabled = false;
       }
     });
 
     cancelBtn.addEventListener('click', closeModal);
     modal.addEventListener('click', (e) => {
-      if (e.target === modal) closeModal();
+      if (e.target === modal && !editor) closeModal();
     });
 
-    function closeModal() {
+    // Also removes the modal when the host app closes it through the controller
+    const unsubscribeClosed = controller.on('closed', () => {
+      unsubscribeClosed();
+      clearTimeout(searchTimer);
+      searchId++;
+      document.removeEventListener('paste', handlePaste);
+      editor?.destroy();
       if (screenshotUrl) {
         URL.revokeObjectURL(screenshotUrl);
       }
+      if (videoUrl) {
+        URL.revokeObjectURL(videoUrl);
+      }
       modal.remove();
+    });
+  }
+
+  /**
+   * Closes the feedback modal
+   */
+  function closeModal() {
+    controller.close();
+  }
+
+  /**
+   * Subscribes to lifecycle events, e.g. `on('succeeded', ({ response }) => ...)`
+   * @returns A function that removes the listener
+   */
+  function on<K extends keyof FeedbackControllerEvents>(event: K, listener: Listener<FeedbackControllerEvents[K]>) {
+    return controller.on(event, listener);
+  }
+
+  /**
+   * Opens the modal prefilled with uncaught errors and unhandled rejections on the page
+   * @returns A function that stops watching
+   */
+  function promptOnErrors(options?: ErrorPromptOptions) {
+    const unwatch = new ErrorPrompt(controller, options).watch();
+    errorWatchers.push(unwatch);
+    return () => {
+      unwatch();
+      errorWatchers = errorWatchers.filter((watcher) => watcher !== unwatch);
+    };
+  }
+
+  /**
+   * Applies a new configuration without closing the open report or restarting the recorders
+   * The open modal keeps its form; fields, labels and modal styles apply from the next report on
+   */
+  function configure(next: FeedbackReporterConfig) {
+    currentConfig = next;
+    text = { ...defaultText, ...currentConfig.textLabels };
+    controller.configure(currentConfig);
+    syncRecorders();
+    syncQueue();
+    if (buttonElement) {
+      renderButton(buttonOptions);
     }
   }
 
@@ -212,15 +1080,45 @@ export function createFeedbackReporter(config: FeedbackReporterConfig) {
    * Destroys the feedback reporter and removes the button
    */
   function destroy() {
+    controller.close();
+    unsubscribeCapturing();
+    unsubscribeOpened();
+    errorWatchers.forEach((unwatch) => unwatch());
+    errorWatchers = [];
     if (buttonElement) {
       buttonElement.remove();
       buttonElement = null;
+      buttonLabelElement = null;
+      badgeElement = null;
+    }
+    if (unsubscribeQueue) {
+      unsubscribeQueue();
+      unsubscribeQueue = null;
+    }
+    activeQueue?.stop();
+    activeQueue = undefined;
+    if (recordingConsole) {
+      stopConsoleRecorder();
+      recordingConsole = false;
+    }
+    if (recordingNetwork) {
+      stopNetworkRecorder();
+      recordingNetwork = false;
+    }
+    if (recordingSession) {
+      stopSessionRecorder();
+      recordingSession = false;
     }
   }
 
   return {
     renderButton,
     openModal,
+    closeModal,
+    on,
+    promptOnErrors,
+    controller,
+    configure,
     destroy,
   };
 }
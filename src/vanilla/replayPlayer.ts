@@ -0,0 +1,352 @@
+import { SessionRecording, SerializedNode, ReplayEvent, DOCUMENT_NODE_ID } from '../core/replay';
+
+export interface ReplayPlayerOptions {
+  /**
+   * Start playing as soon as the player is mounted (default: false)
+   */
+  autoPlay?: boolean;
+  /**
+   * Playback speed multiplier (default: 1)
+   */
+  speed?: number;
+}
+
+export interface ReplayPlayerInstance {
+  play(): void;
+  pause(): void;
+  /**
+   * Jumps to a position in milliseconds from the start of the recording
+   */
+  seek(offset: number): void;
+  getDuration(): number;
+  destroy(): void;
+}
+
+/**
+ * Formats milliseconds as m:ss
+ */
+function formatTime(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Mounts a replay player for a recording produced by the SessionRecorder
+ * The page is rebuilt inside a sandboxed iframe; scripts never run
+ */
+export function createReplayPlayer(
+  container: HTMLElement,
+  recording: SessionRecording,
+  options: ReplayPlayerOptions = {}
+): ReplayPlayerInstance {
+  const events = recording.events;
+  const startTime = events.length > 0 ? events[0].time : 0;
+  const duration = events.length > 0 ? events[events.length - 1].time - startTime : 0;
+  const speed = options.speed || 1;
+
+  let nodes = new Map<number, Node>();
+  let nextEventIndex = 0;
+  let currentOffset = 0;
+  let playing = false;
+  let frame: number | null = null;
+  let lastFrameTime = 0;
+  let viewport = { width: 1024, height: 768 };
+
+  // Layout
+  const wrapper = document.createElement('div');
+  wrapper.style.cssText = `
+    font-family: system-ui, -apple-system, sans-serif;
+    border: 1px solid #ddd;
+    border-radius: 8px;
+    overflow: hidden;
+    background: #f5f5f5;
+  `;
+
+  const stage = document.createElement('div');
+  stage.style.cssText = 'position: relative; overflow: hidden; background: white;';
+
+  const iframe = document.createElement('iframe');
+  iframe.setAttribute('sandbox', 'allow-same-origin');
+  iframe.style.cssText = `
+    position: absolute;
+    top: 0;
+    left: 0;
+    border: none;
+    transform-origin: 0 0;
+    pointer-events: none;
+  `;
+
+  const cursor = document.createElement('div');
+  cursor.style.cssText = `
+    position: absolute;
+    width: 12px;
+    height: 12px;
+    margin: -6px 0 0 -6px;
+    border-radius: 50%;
+    background: rgba(244, 67, 54, 0.8);
+    border: 2px solid white;
+    box-shadow: 0 0 4px rgba(0,0,0,0.4);
+    pointer-events: none;
+    display: none;
+    transition: left 0.1s linear, top 0.1s linear;
+  `;
+
+  const controls = document.createElement('div');
+  controls.style.cssText = 'display: flex; align-items: center; gap: 12px; padding: 8px 12px;';
+  controls.innerHTML = `
+    <button type="button" data-action="toggle" style="padding: 4px 12px; border: 1px solid #ccc; border-radius: 4px; background: white; cursor: pointer;">Play</button>
+    <input type="range" min="0" max="${duration}" value="0" style="flex: 1;">
+    <span data-role="time" style="font-size: 12px; color: #666; min-width: 80px; text-align: right;"></span>
+  `;
+
+  stage.appendChild(iframe);
+  stage.appendChild(cursor);
+  wrapper.appendChild(stage);
+  wrapper.appendChild(controls);
+  container.appendChild(wrapper);
+
+  const toggleButton = controls.querySelector('[data-action="toggle"]') as HTMLButtonElement;
+  const progress = controls.querySelector('input[type="range"]') as HTMLInputElement;
+  const timeLabel = controls.querySelector('[data-role="time"]') as HTMLSpanElement;
+
+  /**
+   * Scales the recorded viewport to the container width
+   */
+  function layout() {
+    const scale = Math.min(1, (container.clientWidth || viewport.width) / viewport.width);
+    iframe.style.width = `${viewport.width}px`;
+    iframe.style.height = `${viewport.height}px`;
+    iframe.style.transform = `scale(${scale})`;
+    stage.style.height = `${viewport.height * scale}px`;
+    stage.dataset.scale = String(scale);
+  }
+
+  function getScale(): number {
+    return Number(stage.dataset.scale) || 1;
+  }
+
+  function buildNode(doc: Document, serialized: SerializedNode): Node {
+    if (serialized.type === 'text') {
+      const text = doc.createTextNode(serialized.text);
+      nodes.set(serialized.id, text);
+      return text;
+    }
+
+    const element = serialized.ns
+      ? doc.createElementNS(serialized.ns, serialized.tag)
+      : doc.createElement(serialized.tag);
+    Object.keys(serialized.attrs).forEach((name) => {
+      try {
+        element.setAttribute(name, serialized.attrs[name]);
+      } catch {
+        // Invalid attribute names are skipped
+      }
+    });
+    // Elements belong to the iframe's realm, so instanceof checks do not apply
+    if (serialized.tag === 'textarea' && serialized.attrs.value !== undefined) {
+      (element as HTMLTextAreaElement).value = serialized.attrs.value;
+    }
+    serialized.children.forEach((child) => element.appendChild(buildNode(doc, child)));
+    nodes.set(serialized.id, element);
+    return element;
+  }
+
+  function rebuild(event: Extract<ReplayEvent, { type: 'snapshot' }>) {
+    const doc = iframe.contentDocument;
+    if (!doc) return;
+
+    nodes = new Map();
+    viewport = { width: event.width, height: event.height };
+    layout();
+
+    const root = buildNode(doc, event.root);
+    if (doc.documentElement) {
+      doc.replaceChild(root, doc.documentElement);
+    } else {
+      doc.appendChild(root);
+    }
+
+    // Resolve relative URLs against the recorded page
+    const head = doc.head || doc.documentElement.insertBefore(doc.createElement('head'), doc.documentElement.firstChild);
+    const base = doc.createElement('base');
+    base.href = recording.url;
+    head.insertBefore(base, head.firstChild);
+
+    iframe.contentWindow?.scrollTo(event.scrollX, event.scrollY);
+  }
+
+  function apply(event: ReplayEvent) {
+    switch (event.type) {
+      case 'snapshot':
+        rebuild(event);
+        break;
+      case 'add': {
+        const parent = nodes.get(event.parentId);
+        const doc = iframe.contentDocument;
+        if (!parent || !doc) break;
+        const next = event.nextId !== null ? nodes.get(event.nextId) : undefined;
+        const node = buildNode(doc, event.node);
+        parent.insertBefore(node, next && next.parentNode === parent ? next : null);
+        break;
+      }
+      case 'remove': {
+        const node = nodes.get(event.id);
+        node?.parentNode?.removeChild(node);
+        break;
+      }
+      case 'attr': {
+        const element = nodes.get(event.id) as Element | undefined;
+        if (!element || !element.setAttribute) break;
+        try {
+          if (event.value === null) element.removeAttribute(event.name);
+          else element.setAttribute(event.name, event.value);
+        } catch {
+          // Invalid attribute names are skipped
+        }
+        break;
+      }
+      case 'text': {
+        const node = nodes.get(event.id);
+        if (node) node.textContent = event.text;
+        break;
+      }
+      case 'input': {
+        const element = nodes.get(event.id) as HTMLInputElement | undefined;
+        if (!element) break;
+        element.value = event.value;
+        if (event.checked !== undefined) element.checked = event.checked;
+        break;
+      }
+      case 'scroll': {
+        if (event.id === DOCUMENT_NODE_ID) {
+          iframe.contentWindow?.scrollTo(event.x, event.y);
+        } else {
+          const element = nodes.get(event.id) as Element | undefined;
+          if (element) {
+            element.scrollLeft = event.x;
+            element.scrollTop = event.y;
+          }
+        }
+        break;
+      }
+      case 'move':
+      case 'click': {
+        const scale = getScale();
+        cursor.style.display = 'block';
+        cursor.style.left = `${event.x * scale}px`;
+        cursor.style.top = `${event.y * scale}px`;
+        if (event.type === 'click') showClick(event.x * scale, event.y * scale);
+        break;
+      }
+      case 'viewport':
+        viewport = { width: event.width, height: event.height };
+        layout();
+        break;
+    }
+  }
+
+  function showClick(x: number, y: number) {
+    const ripple = document.createElement('div');
+    ripple.style.cssText = `
+      position: absolute;
+      left: ${x - 15}px;
+      top: ${y - 15}px;
+      width: 30px;
+      height: 30px;
+      border-radius: 50%;
+      border: 3px solid rgba(244, 67, 54, 0.8);
+      pointer-events: none;
+      transition: transform 0.4s ease-out, opacity 0.4s ease-out;
+    `;
+    stage.appendChild(ripple);
+    requestAnimationFrame(() => {
+      ripple.style.transform = 'scale(1.8)';
+      ripple.style.opacity = '0';
+    });
+    setTimeout(() => ripple.remove(), 400);
+  }
+
+  /**
+   * Applies every event up to the given offset
+   */
+  function advanceTo(offset: number) {
+    while (nextEventIndex < events.length && events[nextEventIndex].time - startTime <= offset) {
+      apply(events[nextEventIndex]);
+      nextEventIndex++;
+    }
+    currentOffset = offset;
+    progress.value = String(offset);
+    timeLabel.textContent = `${formatTime(offset)} / ${formatTime(duration)}`;
+  }
+
+  function seek(offset: number) {
+    const target = Math.max(0, Math.min(offset, duration));
+
+    // Restart from the last snapshot before the target
+    let snapshotIndex = 0;
+    events.forEach((event, index) => {
+      if (event.type === 'snapshot' && event.time - startTime <= target) {
+        snapshotIndex = index;
+      }
+    });
+    nextEventIndex = snapshotIndex;
+    cursor.style.display = 'none';
+    advanceTo(target);
+  }
+
+  function tick(now: number) {
+    const next = currentOffset + (now - lastFrameTime) * speed;
+    lastFrameTime = now;
+    advanceTo(Math.min(next, duration));
+
+    if (next >= duration) {
+      pause();
+      return;
+    }
+    frame = requestAnimationFrame(tick);
+  }
+
+  function play() {
+    if (playing || events.length === 0) return;
+    if (currentOffset >= duration) seek(0);
+    playing = true;
+    toggleButton.textContent = 'Pause';
+    lastFrameTime = performance.now();
+    frame = requestAnimationFrame(tick);
+  }
+
+  function pause() {
+    playing = false;
+    toggleButton.textContent = 'Play';
+    if (frame !== null) {
+      cancelAnimationFrame(frame);
+      frame = null;
+    }
+  }
+
+  toggleButton.addEventListener('click', () => (playing ? pause() : play()));
+  progress.addEventListener('input', () => seek(Number(progress.value)));
+  window.addEventListener('resize', layout);
+
+  // The iframe document is only available once it is attached
+  iframe.contentDocument?.open();
+  iframe.contentDocument?.write('<!DOCTYPE html><html><head></head><body></body></html>');
+  iframe.contentDocument?.close();
+  seek(0);
+
+  if (options.autoPlay) {
+    play();
+  }
+
+  return {
+    play,
+    pause,
+    seek,
+    getDuration: () => duration,
+    destroy() {
+      pause();
+      window.removeEventListener('resize', layout);
+      wrapper.remove();
+    },
+  };
+}